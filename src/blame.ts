@@ -0,0 +1,212 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { BlameLine, Changeset, formatRevision, formatRevisionTitle } from './svn';
+import { VcsProvider } from './vcs';
+import { findTicketReferences, formatTicket } from './tickets';
+import { configuredTicketPatterns, showTicketCommandUri } from './ticketLinks';
+import { outputChannel } from './outputChannel';
+
+export type BlameStyle = 'endOfLine' | 'gutter';
+
+/** Width of the gutter annotations, in characters. */
+const GUTTER_WIDTH = 28;
+
+/** A blamed line with the changeset that last changed it and the tickets that changeset references. */
+interface TicketBlameLine {
+    line: number;
+    changeset?: Changeset;
+    tickets: string[];
+}
+
+/**
+ * Annotates files with the tickets that last changed each line: `svn blame`
+ * (or `git blame`) gives the revision of every line, and the tickets are the
+ * ones referenced in that revision's log message.
+ *
+ * Annotations are shown on the first line of each block of lines from the same
+ * revision, either at the end of the line or in a gutter column before it, and
+ * their hover links to the tickets' changesets. They are hidden while the file
+ * has unsaved changes and recomputed when it is saved.
+ */
+export class TicketBlameController implements vscode.Disposable {
+    /** Blamed lines of each annotated document, by URI. */
+    private readonly annotated = new Map<string, TicketBlameLine[]>();
+    private decorationType = this.createDecorationType();
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly getClient: (filePath: string) => Promise<VcsProvider | undefined>) {
+        this.disposables.push(
+            vscode.window.onDidChangeVisibleTextEditors(editors => editors.forEach(editor => this.render(editor))),
+            vscode.workspace.onDidChangeTextDocument(event => {
+                if (this.annotated.has(event.document.uri.toString()) && event.contentChanges.length > 0) {
+                    this.editorsOf(event.document).forEach(editor => editor.setDecorations(this.decorationType, []));
+                }
+            }),
+            vscode.workspace.onDidSaveTextDocument(document => {
+                if (this.annotated.has(document.uri.toString())) {
+                    this.annotate(document).catch(error => this.reportError(document, error));
+                }
+            }),
+            vscode.workspace.onDidCloseTextDocument(document => this.annotated.delete(document.uri.toString())),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('ticketChangesetsViewer.blameStyle')) {
+                    this.decorationType.dispose();
+                    this.decorationType = this.createDecorationType();
+                    vscode.window.visibleTextEditors.forEach(editor => this.render(editor));
+                }
+            })
+        );
+    }
+
+    /** Shows the ticket annotations of the editor's file, or hides them if they are shown. */
+    async toggle(editor: vscode.TextEditor): Promise<void> {
+        const document = editor.document;
+        if (this.annotated.delete(document.uri.toString())) {
+            this.editorsOf(document).forEach(editor => editor.setDecorations(this.decorationType, []));
+            return;
+        }
+        if (document.uri.scheme !== 'file') {
+            vscode.window.showWarningMessage('Ticket annotations are only available for files in the working copy');
+            return;
+        }
+        if (document.isDirty) {
+            vscode.window.showWarningMessage('Save the file to show its ticket annotations');
+            return;
+        }
+        await this.annotate(document);
+    }
+
+    private async annotate(document: vscode.TextDocument): Promise<void> {
+        const filePath = document.uri.fsPath;
+        const client = await this.getClient(filePath);
+        if (!client) {
+            throw new Error(`${filePath} is not in a working copy`);
+        }
+
+        const lines = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Window,
+            title: `Blaming ${path.basename(filePath)}`
+        }, () => this.blame(client, filePath));
+        outputChannel.appendLine(`Annotated ${filePath} with the tickets of ${new Set(lines.map(line => line.changeset?.revision)).size} revisions`);
+
+        this.annotated.set(document.uri.toString(), lines);
+        this.editorsOf(document).forEach(editor => this.render(editor));
+    }
+
+    private async blame(client: VcsProvider, filePath: string): Promise<TicketBlameLine[]> {
+        const blameLines: BlameLine[] = await client.blame(filePath);
+        const revisions = Array.from(new Set(blameLines.flatMap(line => line.revision !== undefined ? [line.revision] : [])));
+        const changesets = new Map<number, Changeset>();
+        // One revision at a time, so a long history does not start hundreds of processes at once
+        for (const revision of revisions) {
+            const changeset = await client.getChangeset(revision);
+            if (changeset) {
+                changesets.set(revision, changeset);
+            }
+        }
+
+        const patterns = configuredTicketPatterns();
+        return blameLines.map(line => {
+            const changeset = line.revision !== undefined ? changesets.get(line.revision) : undefined;
+            return { line: line.line, changeset, tickets: changeset ? findTicketReferences(changeset.message, patterns) : [] };
+        });
+    }
+
+    private render(editor: vscode.TextEditor): void {
+        const lines = this.annotated.get(editor.document.uri.toString());
+        if (!lines || editor.document.isDirty) {
+            return;
+        }
+        const gutter = this.style === 'gutter';
+        const decorations: vscode.DecorationOptions[] = [];
+        lines.forEach((line, index) => {
+            const lineIndex = line.line - 1;
+            if (lineIndex >= editor.document.lineCount) {
+                return;
+            }
+            const blockStart = index === 0 || lines[index - 1].changeset?.revision !== line.changeset?.revision;
+            if (!blockStart && !gutter) {
+                return;
+            }
+            const position = gutter ? new vscode.Position(lineIndex, 0) : editor.document.lineAt(lineIndex).range.end;
+            const text = blockStart ? formatAnnotation(line) : '';
+            decorations.push({
+                range: new vscode.Range(position, position),
+                hoverMessage: blockStart ? annotationHover(line) : undefined,
+                renderOptions: gutter
+                    ? { before: { contentText: truncate(text, GUTTER_WIDTH - 2) || ' ' } }
+                    : { after: { contentText: text } }
+            });
+        });
+        editor.setDecorations(this.decorationType, decorations);
+    }
+
+    private get style(): BlameStyle {
+        return vscode.workspace.getConfiguration('ticketChangesetsViewer').get<BlameStyle>('blameStyle', 'endOfLine');
+    }
+
+    private createDecorationType(): vscode.TextEditorDecorationType {
+        const color = new vscode.ThemeColor('editorCodeLens.foreground');
+        return this.style === 'gutter'
+            ? vscode.window.createTextEditorDecorationType({
+                before: {
+                    color,
+                    width: `${GUTTER_WIDTH}ch`,
+                    margin: '0 1ch 0 0',
+                    backgroundColor: new vscode.ThemeColor('editorGutter.background')
+                }
+            })
+            : vscode.window.createTextEditorDecorationType({
+                after: { color, margin: '0 0 0 3ch', fontStyle: 'italic' },
+                rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed
+            });
+    }
+
+    private editorsOf(document: vscode.TextDocument): vscode.TextEditor[] {
+        return vscode.window.visibleTextEditors.filter(editor => editor.document === document);
+    }
+
+    private reportError(document: vscode.TextDocument, error: unknown): void {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        outputChannel.appendLine(`Error annotating ${document.uri.fsPath} with tickets: ${errorMessage}`);
+        this.annotated.delete(document.uri.toString());
+    }
+
+    dispose(): void {
+        this.decorationType.dispose();
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
+
+/** Formats an annotation as `#52438 — author, date`, or with the revision if it references no ticket. */
+function formatAnnotation(line: TicketBlameLine): string {
+    if (!line.changeset) {
+        return 'Not committed yet';
+    }
+    const label = line.tickets.length > 0 ? line.tickets.map(formatTicket).join(', ') : formatRevision(line.changeset);
+    return `${label} — ${line.changeset.author}, ${line.changeset.date.substring(0, 10)}`;
+}
+
+function annotationHover(line: TicketBlameLine): vscode.MarkdownString | undefined {
+    if (!line.changeset) {
+        return undefined;
+    }
+    const markdown = new vscode.MarkdownString();
+    markdown.isTrusted = true;
+    markdown.appendMarkdown(`**${formatRevisionTitle(line.changeset)}** by `)
+        .appendText(`${line.changeset.author}, ${line.changeset.date.substring(0, 10)}`)
+        .appendMarkdown('\n\n')
+        .appendText(line.changeset.message.split('\n')[0])
+        .appendMarkdown('\n\n');
+    if (line.tickets.length === 0) {
+        markdown.appendMarkdown('No ticket referenced');
+    }
+    markdown.appendMarkdown(line.tickets
+        .map(ticket => `[Show Changesets of ${formatTicket(ticket)}](${showTicketCommandUri(ticket).toString()})`)
+        .join(' · '));
+    return markdown;
+}
+
+function truncate(text: string, length: number): string {
+    return text.length > length ? `${text.substring(0, length - 1)}…` : text;
+}
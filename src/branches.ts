@@ -0,0 +1,135 @@
+import { Changeset, SvnClient, SvnInfo, encodeRepositoryPath } from './svn';
+
+/**
+ * Whether a ticket revision is present on the checked-out branch: committed
+ * there directly, merged into it (per `svn:mergeinfo`), or neither.
+ */
+export type MergeStatus = 'committed' | 'merged' | 'notMerged' | 'unknown';
+
+/**
+ * Expands the configured search locations into repository paths of branch roots.
+ *
+ * Locations may be given as `^/trunk`, `/branches/release-*` or full URLs below
+ * the repository root. Path segments containing `*` or `?` are matched against
+ * the directories listed in the repository.
+ */
+export async function resolveSearchLocations(client: SvnClient, locations: string[]): Promise<string[]> {
+    const repositoryRoot = await client.getRepositoryRoot();
+    const resolved = new Set<string>();
+
+    for (const location of locations) {
+        let relative = location.trim();
+        if (relative.startsWith(repositoryRoot)) {
+            relative = decodeURIComponent(relative.substring(repositoryRoot.length));
+        }
+        relative = relative.replace(/^\^/, '');
+
+        let candidates = [''];
+        for (const segment of relative.split('/').filter(segment => segment.length > 0)) {
+            if (!/[*?]/.test(segment)) {
+                candidates = candidates.map(candidate => `${candidate}/${segment}`);
+                continue;
+            }
+            const pattern = globToRegExp(segment);
+            const expanded: string[] = [];
+            for (const candidate of candidates) {
+                const entries = await client.list(`${repositoryRoot}${encodeRepositoryPath(candidate || '/')}`);
+                expanded.push(...entries
+                    .filter(entry => entry.kind === 'dir' && pattern.test(entry.name))
+                    .map(entry => `${candidate}/${entry.name}`));
+            }
+            candidates = expanded;
+        }
+        candidates.forEach(candidate => resolved.add(candidate || '/'));
+    }
+
+    return Array.from(resolved).sort();
+}
+
+function globToRegExp(glob: string): RegExp {
+    const escaped = glob.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+    return new RegExp(`^${escaped}$`);
+}
+
+/** Returns the working copy's own location as a repository path, e.g. `/trunk`. */
+export function workingCopyLocation(svnInfo: SvnInfo): string {
+    return `/${svnInfo.relativePrefix}`;
+}
+
+/**
+ * Returns the location a changeset was committed on: the longest location that
+ * contains any of its changed paths.
+ */
+export function branchOf(changeset: Changeset, locations: string[]): string | undefined {
+    let best: string | undefined;
+    for (const location of locations) {
+        const prefix = location === '/' ? '/' : `${location}/`;
+        const contains = changeset.paths.some(changedPath =>
+            changedPath.path === location || changedPath.path.startsWith(prefix)
+        );
+        if (contains && (!best || location.length > best.length)) {
+            best = location;
+        }
+    }
+    return best;
+}
+
+/**
+ * Guesses the branch root a changeset was committed on from the standard
+ * `trunk`/`branches`/`tags` layout, for when no search locations are configured.
+ */
+export function inferBranch(changeset: Changeset): string | undefined {
+    for (const changedPath of changeset.paths) {
+        const match = /^(.*?\/(?:trunk|(?:branches|tags)\/[^/]+))(?:\/|$)/.exec(changedPath.path);
+        if (match) {
+            return match[1];
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Determines for each revision whether it is on the checked-out branch. Revisions
+ * committed on other locations are looked up in the mergeinfo of the working copy.
+ */
+export async function getMergeStatus(
+    client: SvnClient,
+    branches: Map<number, string>,
+    currentBranch: string,
+    onError?: (branch: string, error: unknown) => void
+): Promise<Map<number, MergeStatus>> {
+    const status = new Map<number, MergeStatus>();
+    const revisionsByBranch = new Map<string, number[]>();
+    for (const [revision, branch] of branches) {
+        if (branch === currentBranch || isWithin(currentBranch, branch)) {
+            status.set(revision, 'committed');
+        } else {
+            revisionsByBranch.set(branch, [...(revisionsByBranch.get(branch) ?? []), revision]);
+        }
+    }
+
+    const repositoryRoot = await client.getRepositoryRoot();
+    for (const [branch, revisions] of revisionsByBranch) {
+        try {
+            const merged = await client.mergedRevisions(`${repositoryRoot}${encodeRepositoryPath(branch)}`, client.cwd);
+            revisions.forEach(revision => status.set(revision, merged.has(revision) ? 'merged' : 'notMerged'));
+        } catch (error) {
+            onError?.(branch, error);
+            revisions.forEach(revision => status.set(revision, 'unknown'));
+        }
+    }
+    return status;
+}
+
+function isWithin(location: string, ancestor: string): boolean {
+    return ancestor === '/' || location.startsWith(`${ancestor}/`);
+}
+
+export function formatMergeStatus(status: MergeStatus | undefined): string {
+    switch (status) {
+        case 'committed': return 'on this branch';
+        case 'merged': return 'merged into this branch';
+        case 'notMerged': return 'not merged into this branch';
+        default: return 'merge status unknown';
+    }
+}
@@ -0,0 +1,156 @@
+import * as path from 'path';
+import { Changeset, LogOptions, SvnClient } from './svn';
+import { RevisionCache } from './revisionCache';
+import { ProcessLimits, VcsError, isCancellation } from './process';
+
+/** Number of revisions fetched per `svn log` call when filling the working copy's history. */
+const HISTORY_CHUNK_SIZE = 2000;
+
+/**
+ * An `SvnClient` that keeps immutable repository data in a `RevisionCache` per
+ * repository UUID: log entries, the histories searched by ticket, diffs and file
+ * contents addressed by pegged URL. Anything that depends on the working copy or
+ * on HEAD is passed through to SVN.
+ */
+export class CachedSvnClient extends SvnClient {
+    private cache?: Promise<RevisionCache>;
+
+    constructor(svnPath: string, cwd: string, readonly storageDirectory: string, limits?: ProcessLimits) {
+        super(svnPath, cwd, limits);
+    }
+
+    /**
+     * Searches are served from the cached history of the target; only revisions
+     * after the cached head are fetched. Other log queries go to SVN.
+     */
+    async log(options: LogOptions = {}): Promise<Changeset[]> {
+        if (options.revision || options.limit !== undefined) {
+            return super.log(options);
+        }
+        const history = await this.history(options.target, options.stopOnCopy ?? false);
+        const terms = (options.search ?? []).map(term => term.toLowerCase());
+        return terms.length === 0 ? history : history.filter(changeset => matchesSearch(changeset, terms));
+    }
+
+    async getChangeset(revision: number): Promise<Changeset | undefined> {
+        const cache = await this.getCache();
+        const cached = await cache.getChangeset(revision);
+        if (cached) {
+            return cached;
+        }
+        const changeset = await super.getChangeset(revision);
+        if (changeset) {
+            await cache.addChangesets([changeset]);
+        }
+        return changeset;
+    }
+
+    async diff(revision: number, target?: string): Promise<string> {
+        if (!target || !await this.isImmutableTarget(target)) {
+            return super.diff(revision, target);
+        }
+        return this.cached('diff', `${revision} ${target}`, () => super.diff(revision, target));
+    }
+
+    async cat(target: string, revision: number | string): Promise<string> {
+        if (typeof revision !== 'number' || !isPegged(target)) {
+            return super.cat(target, revision);
+        }
+        return this.cached('cat', `${revision} ${target}`, () => super.cat(target, revision));
+    }
+
+    /**
+     * Returns the changesets in the history of `target` (the working copy if not
+     * given), newest first, fetching only revisions after the cached head. If the
+     * server cannot be reached, the cached history is returned as it is.
+     */
+    private async history(target: string | undefined, stopOnCopy: boolean): Promise<Changeset[]> {
+        const cache = await this.getCache();
+        const key = `${target ?? (await this.info()).url}${stopOnCopy ? ' --stop-on-copy' : ''}`;
+        const record = await cache.getHistory(key) ?? { head: 0, revisions: [] };
+
+        let headRevision: number;
+        try {
+            headRevision = (await this.info(target)).revision;
+        } catch (error) {
+            // Without access to the server, answer from what has been fetched before
+            if (record.head === 0 || isCancellation(error)) {
+                throw error;
+            }
+            headRevision = record.head;
+        }
+
+        // The working copy's history is fetched in revision ranges, saving after each, so an
+        // interrupted first fetch resumes. The history of a file, directory or branch takes
+        // one `svn log`, as the ranges before it existed would each cost a round trip.
+        const chunkSize = target ? Infinity : HISTORY_CHUNK_SIZE;
+        while (record.head < headRevision) {
+            const end = Math.min(record.head + chunkSize, headRevision);
+            const fetched = await this.logRange(target, stopOnCopy, record.head + 1, end);
+            await cache.addChangesets(fetched);
+            const known = new Set(record.revisions);
+            const added = fetched.map(changeset => changeset.revision).filter(revision => !known.has(revision));
+            record.revisions = [...record.revisions, ...added].sort((a, b) => a - b);
+            record.head = end;
+            await cache.setHistory(key, record);
+        }
+
+        const changesets: Changeset[] = [];
+        for (const revision of [...record.revisions].reverse()) {
+            const changeset = await cache.getChangeset(revision) ?? await this.getChangeset(revision);
+            if (changeset) {
+                changesets.push(changeset);
+            }
+        }
+        return changesets;
+    }
+
+    private async logRange(target: string | undefined, stopOnCopy: boolean, start: number, end: number): Promise<Changeset[]> {
+        try {
+            return await super.log({ target, stopOnCopy, revision: `${start}:${end}` });
+        } catch (error) {
+            // The node did not exist yet anywhere in the range
+            if (error instanceof VcsError && error.kind === 'pathNotFound') {
+                return [];
+            }
+            throw error;
+        }
+    }
+
+    private async cached(kind: 'diff' | 'cat', key: string, fetch: () => Promise<string>): Promise<string> {
+        const cache = await this.getCache();
+        const cached = await cache.getText(kind, key);
+        if (cached !== undefined) {
+            return cached;
+        }
+        const content = await fetch();
+        await cache.setText(kind, key, content);
+        return content;
+    }
+
+    /** URLs pegged at a revision, and the repository root, always denote the same node. */
+    private async isImmutableTarget(target: string): Promise<boolean> {
+        return isPegged(target) || target === await this.getRepositoryRoot();
+    }
+
+    private getCache(): Promise<RevisionCache> {
+        if (!this.cache) {
+            this.cache = this.info().then(info => new RevisionCache(path.join(this.storageDirectory, info.repositoryUuid)));
+            this.cache.catch(() => {
+                this.cache = undefined;
+            });
+        }
+        return this.cache;
+    }
+}
+
+function isPegged(target: string): boolean {
+    return /^[a-z+]+:\/\/.*@\d+$/i.test(target);
+}
+
+/** Approximates `svn log --search`: a case-insensitive substring match in author, date, message or changed paths. */
+function matchesSearch(changeset: Changeset, terms: string[]): boolean {
+    const fields = [changeset.author, changeset.date, changeset.message, ...changeset.paths.map(changedPath => changedPath.path)]
+        .map(field => field.toLowerCase());
+    return terms.some(term => fields.some(field => field.includes(term)));
+}
@@ -0,0 +1,26 @@
+import * as vscode from 'vscode';
+import { isCancellation, withCancellation } from './process';
+import { outputChannel } from './outputChannel';
+
+/**
+ * Runs `task` behind a progress notification with a Cancel button, which stops
+ * the SVN or Git commands the task is running. Returns `undefined` if cancelled.
+ */
+export async function withCancellableProgress<T>(
+    title: string,
+    task: (progress: vscode.Progress<{ message?: string; increment?: number }>) => Thenable<T>
+): Promise<T | undefined> {
+    try {
+        return await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title,
+            cancellable: true
+        }, (progress, token) => withCancellation(token, () => task(progress)));
+    } catch (error) {
+        if (isCancellation(error)) {
+            outputChannel.appendLine(`Cancelled: ${title}`);
+            return undefined;
+        }
+        throw error;
+    }
+}
@@ -0,0 +1,82 @@
+import * as vscode from 'vscode';
+import { FileChange, openFileChange } from './diffs';
+import { outputChannel } from './outputChannel';
+
+const CHANGE_LIST_CONTEXT_KEY = 'ticketChangesetsViewer.changeListActive';
+
+/**
+ * Opens a set of file changes at once. Uses the multi-diff editor (`vscode.changes`)
+ * where the running VS Code supports it; otherwise keeps the changes as a list that
+ * can be stepped through with the next/previous changed file commands.
+ */
+export class ChangeListNavigator {
+    private changes: FileChange[] = [];
+    private index = -1;
+    private title = '';
+
+    async open(title: string, changes: FileChange[]): Promise<void> {
+        if (changes.length === 0) {
+            vscode.window.showWarningMessage(`No changed files found for ${title}`);
+            return;
+        }
+
+        if (await supportsMultiDiffEditor()) {
+            outputChannel.appendLine(`Opening ${changes.length} changed files for ${title} in the multi-diff editor`);
+            await vscode.commands.executeCommand('vscode.changes',
+                title,
+                changes.map(change => [change.modified, change.original, change.modified])
+            );
+            return;
+        }
+
+        outputChannel.appendLine(`Opening ${changes.length} changed files for ${title} as a navigable list`);
+        this.title = title;
+        this.changes = changes;
+        await vscode.commands.executeCommand('setContext', CHANGE_LIST_CONTEXT_KEY, changes.length > 1);
+        await this.show(0);
+    }
+
+    async next(): Promise<void> {
+        if (this.changes.length > 0) {
+            await this.show((this.index + 1) % this.changes.length);
+        }
+    }
+
+    async previous(): Promise<void> {
+        if (this.changes.length > 0) {
+            await this.show((this.index - 1 + this.changes.length) % this.changes.length);
+        }
+    }
+
+    /** Lets the user jump to any file of the current list. */
+    async pick(): Promise<void> {
+        if (this.changes.length === 0) {
+            vscode.window.showInformationMessage('No changed files to navigate');
+            return;
+        }
+
+        const selected = await vscode.window.showQuickPick(
+            this.changes.map((change, index) => ({
+                label: change.path,
+                description: change.title,
+                picked: index === this.index,
+                index
+            })),
+            { placeHolder: 'Select a file to view diff', title: this.title }
+        );
+        if (selected) {
+            await this.show(selected.index);
+        }
+    }
+
+    private async show(index: number): Promise<void> {
+        this.index = index;
+        const change = this.changes[index];
+        await openFileChange({ ...change, title: `${change.title} [${index + 1}/${this.changes.length}]` });
+    }
+}
+
+async function supportsMultiDiffEditor(): Promise<boolean> {
+    const commands = await vscode.commands.getCommands(true);
+    return commands.includes('vscode.changes');
+}
@@ -0,0 +1,306 @@
+import { DiffFile, DiffHunk, DiffLine } from './unifiedDiff';
+import { HighlightState, Token, languageForPath, tokenizeLine } from './syntaxHighlight';
+import { escapeHtml } from './html';
+
+export interface RenderDiffOptions {
+    /** Prefix for element ids, unique per rendered diff so the table of contents links stay apart. */
+    idPrefix: string;
+}
+
+interface Range {
+    start: number;
+    end: number;
+}
+
+/** A hunk split into unchanged lines and blocks of deleted lines followed by the lines that replaced them. */
+type HunkBlock =
+    | { kind: 'context'; line: DiffLine }
+    | { kind: 'change'; deleted: DiffLine[]; added: DiffLine[] };
+
+/**
+ * Styles for rendered diffs. Colors come from the VS Code theme, with fallbacks
+ * for when the HTML is viewed outside VS Code. Side-by-side tables show by
+ * default; an ancestor with class `diff-mode-inline` switches to inline tables.
+ */
+export const DIFF_STYLES = `
+    .diff-toc { margin-bottom: 10px; }
+    .diff-toc ul { list-style: none; margin: 0; padding: 0; }
+    .diff-toc li { margin: 2px 0; }
+    .diff-toc a { color: var(--vscode-textLink-foreground, #3794ff); text-decoration: none; }
+    .diff-toc a:hover { text-decoration: underline; }
+    .diff-stat .additions { color: var(--vscode-gitDecoration-addedResourceForeground, #587c0c); }
+    .diff-stat .deletions { color: var(--vscode-gitDecoration-deletedResourceForeground, #ad0707); }
+    .diff-file { margin-bottom: 10px; border: 1px solid var(--vscode-panel-border, #80808059); border-radius: 3px; }
+    .diff-file > summary { cursor: pointer; padding: 4px 8px; background-color: var(--vscode-sideBarSectionHeader-background, #80808026); font-family: var(--vscode-editor-font-family, monospace); }
+    .diff-file-status { display: inline-block; width: 1.2em; font-weight: bold; text-align: center; }
+    .diff-file-status.added { color: var(--vscode-gitDecoration-addedResourceForeground, #587c0c); }
+    .diff-file-status.deleted { color: var(--vscode-gitDecoration-deletedResourceForeground, #ad0707); }
+    .diff-file-status.modified { color: var(--vscode-gitDecoration-modifiedResourceForeground, #895503); }
+    .diff-note { padding: 4px 8px; font-style: italic; color: var(--vscode-descriptionForeground, #717171); }
+    .diff-properties { margin: 0; padding: 4px 8px; white-space: pre-wrap; font-family: var(--vscode-editor-font-family, monospace); }
+    .diff-table { width: 100%; border-collapse: collapse; table-layout: fixed; font-family: var(--vscode-editor-font-family, monospace); font-size: var(--vscode-editor-font-size, 12px); }
+    .diff-table td { padding: 0 6px; vertical-align: top; }
+    .diff-table .line { white-space: pre-wrap; word-break: break-all; tab-size: 4; }
+    .diff-table .line-number { width: 4em; text-align: right; user-select: none; color: var(--vscode-editorLineNumber-foreground, #6e7681); }
+    .diff-table .line-marker { width: 1em; user-select: none; }
+    .diff-table .add { background-color: var(--vscode-diffEditor-insertedLineBackground, #9bb95533); }
+    .diff-table .delete { background-color: var(--vscode-diffEditor-removedLineBackground, #ff000033); }
+    .diff-table .empty { background-color: var(--vscode-diffEditor-diagonalFill, #cccccc33); }
+    .diff-table .add .word-change { background-color: var(--vscode-diffEditor-insertedTextBackground, #9ccc2c66); }
+    .diff-table .delete .word-change { background-color: var(--vscode-diffEditor-removedTextBackground, #ff000066); }
+    .diff-hunk-header td { padding: 2px 6px; color: var(--vscode-editorInfo-foreground, #3794ff); background-color: var(--vscode-editor-inactiveSelectionBackground, #80808026); }
+    .no-newline { color: var(--vscode-descriptionForeground, #717171); font-style: italic; }
+    .tok-keyword { color: var(--vscode-symbolIcon-keywordForeground, #af00db); }
+    .tok-string { color: var(--vscode-debugTokenExpression-string, #a31515); }
+    .tok-number { color: var(--vscode-debugTokenExpression-number, #098658); }
+    .tok-comment { color: var(--vscode-descriptionForeground, #008000); font-style: italic; }
+    .diff-inline { display: none; }
+    .diff-mode-inline .diff-inline { display: table; }
+    .diff-mode-inline .diff-side-by-side { display: none; }
+`;
+
+/**
+ * Renders parsed diff files as HTML: a table of contents, then one collapsible
+ * section per file with side-by-side and inline tables. All diff content is
+ * escaped, so the result can be inserted into a page as is.
+ */
+export function renderDiff(files: DiffFile[], options: RenderDiffOptions): string {
+    if (files.length === 0) {
+        return '<div class="diff-note">No changes</div>';
+    }
+
+    const ids = files.map((_, index) => `${options.idPrefix}-file-${index}`);
+    const toc = files.map((file, index) => `
+        <li><a href="#${escapeHtml(ids[index])}">${renderStatus(file)} ${escapeHtml(file.path)}</a> ${renderStat(file)}</li>`).join('');
+
+    return `
+        <nav class="diff-toc">
+            <div>${files.length} ${files.length === 1 ? 'file' : 'files'} changed</div>
+            <ul>${toc}
+            </ul>
+        </nav>
+        ${files.map((file, index) => renderFile(file, ids[index])).join('')}`;
+}
+
+function renderStatus(file: DiffFile): string {
+    const letter = file.status === 'added' ? 'A' : file.status === 'deleted' ? 'D' : 'M';
+    return `<span class="diff-file-status ${file.status}">${letter}</span>`;
+}
+
+function renderStat(file: DiffFile): string {
+    return `<span class="diff-stat"><span class="additions">+${file.additions}</span> <span class="deletions">-${file.deletions}</span></span>`;
+}
+
+function renderFile(file: DiffFile, id: string): string {
+    const language = languageForPath(file.path);
+    const oldState: HighlightState = { inBlockComment: false };
+    const newState: HighlightState = { inBlockComment: false };
+
+    let sideBySide = '';
+    let inline = '';
+    for (const hunk of file.hunks) {
+        const blocks = groupHunk(hunk);
+        const contents = highlightHunk(blocks, language, oldState, newState);
+        sideBySide += renderSideBySideHunk(hunk, blocks, contents);
+        inline += renderInlineHunk(hunk, blocks, contents);
+    }
+
+    let body = '';
+    if (file.binary) {
+        body += '<div class="diff-note">Binary file not shown</div>';
+    }
+    if (file.hunks.length > 0) {
+        body += `<table class="diff-table diff-side-by-side">${sideBySide}</table>`;
+        body += `<table class="diff-table diff-inline">${inline}</table>`;
+    }
+    if (file.properties) {
+        body += `<pre class="diff-properties">${escapeHtml(file.properties)}</pre>`;
+    }
+    if (!body) {
+        body = '<div class="diff-note">No content changes</div>';
+    }
+
+    return `
+        <details class="diff-file" id="${escapeHtml(id)}" open>
+            <summary>${renderStatus(file)} ${escapeHtml(file.path)} ${renderStat(file)}</summary>
+            ${body}
+        </details>`;
+}
+
+function groupHunk(hunk: DiffHunk): HunkBlock[] {
+    const blocks: HunkBlock[] = [];
+    for (const line of hunk.lines) {
+        const last = blocks[blocks.length - 1];
+        if (line.type === 'context') {
+            blocks.push({ kind: 'context', line });
+        } else if (last?.kind === 'change' && (line.type === 'add' || last.added.length === 0)) {
+            (line.type === 'add' ? last.added : last.deleted).push(line);
+        } else {
+            blocks.push({ kind: 'change', deleted: line.type === 'delete' ? [line] : [], added: line.type === 'add' ? [line] : [] });
+        }
+    }
+    return blocks;
+}
+
+/**
+ * Renders the content of every line, with syntax highlighting per side and the
+ * changed words of each deleted/added pair marked.
+ */
+function highlightHunk(blocks: HunkBlock[], language: string, oldState: HighlightState, newState: HighlightState): Map<DiffLine, string> {
+    const contents = new Map<DiffLine, string>();
+    for (const block of blocks) {
+        if (block.kind === 'context') {
+            tokenizeLine(block.line.content, language, oldState);
+            contents.set(block.line, renderContent(block.line, tokenizeLine(block.line.content, language, newState), []));
+            continue;
+        }
+
+        const changes = new Map<DiffLine, Range[]>();
+        for (let i = 0; i < Math.min(block.deleted.length, block.added.length); i++) {
+            const ranges = wordDiff(block.deleted[i].content, block.added[i].content);
+            if (ranges) {
+                changes.set(block.deleted[i], ranges[0]);
+                changes.set(block.added[i], ranges[1]);
+            }
+        }
+        for (const line of block.deleted) {
+            contents.set(line, renderContent(line, tokenizeLine(line.content, language, oldState), changes.get(line) ?? []));
+        }
+        for (const line of block.added) {
+            contents.set(line, renderContent(line, tokenizeLine(line.content, language, newState), changes.get(line) ?? []));
+        }
+    }
+    return contents;
+}
+
+function renderContent(line: DiffLine, tokens: Token[], changed: Range[]): string {
+    const text = line.content;
+    let html = '';
+    for (const token of tokens) {
+        // Split the token where a changed word range starts or ends
+        const cuts = new Set([token.start, token.end]);
+        for (const range of changed) {
+            [range.start, range.end].filter(cut => cut > token.start && cut < token.end).forEach(cut => cuts.add(cut));
+        }
+        const points = Array.from(cuts).sort((a, b) => a - b);
+        for (let i = 0; i < points.length - 1; i++) {
+            let piece = escapeHtml(text.substring(points[i], points[i + 1]));
+            if (token.cls) {
+                piece = `<span class="tok-${token.cls}">${piece}</span>`;
+            }
+            if (changed.some(range => range.start <= points[i] && points[i] < range.end)) {
+                piece = `<span class="word-change">${piece}</span>`;
+            }
+            html += piece;
+        }
+    }
+    if (line.noNewline) {
+        html += ' <span class="no-newline">\\ No newline at end of file</span>';
+    }
+    return html;
+}
+
+/**
+ * Finds the words that differ between two versions of a line, as character ranges
+ * of each. Returns `undefined` for lines too long to compare or too different for
+ * word marks to help.
+ */
+function wordDiff(oldText: string, newText: string): [Range[], Range[]] | undefined {
+    const oldWords = splitWords(oldText);
+    const newWords = splitWords(newText);
+    if (oldWords.length * newWords.length > 250000) {
+        return undefined;
+    }
+
+    // Longest common subsequence of words
+    const width = newWords.length + 1;
+    const lengths = new Uint32Array((oldWords.length + 1) * width);
+    for (let i = oldWords.length - 1; i >= 0; i--) {
+        for (let j = newWords.length - 1; j >= 0; j--) {
+            lengths[i * width + j] = oldWords[i].text === newWords[j].text
+                ? lengths[(i + 1) * width + j + 1] + 1
+                : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+        }
+    }
+
+    const oldChanged: Range[] = [];
+    const newChanged: Range[] = [];
+    let common = 0;
+    let i = 0;
+    let j = 0;
+    while (i < oldWords.length || j < newWords.length) {
+        if (i < oldWords.length && j < newWords.length && oldWords[i].text === newWords[j].text) {
+            common += oldWords[i].text.length;
+            i++;
+            j++;
+        } else if (j >= newWords.length || (i < oldWords.length && lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])) {
+            addRange(oldChanged, oldWords[i++]);
+        } else {
+            addRange(newChanged, newWords[j++]);
+        }
+    }
+
+    if (common < Math.max(oldText.trim().length, newText.trim().length) * 0.4) {
+        return undefined;
+    }
+    return [oldChanged, newChanged];
+}
+
+function splitWords(text: string): (Range & { text: string })[] {
+    return Array.from(text.matchAll(/\w+|\s+|[^\w\s]/g), match => ({
+        text: match[0],
+        start: match.index ?? 0,
+        end: (match.index ?? 0) + match[0].length
+    }));
+}
+
+function addRange(ranges: Range[], range: Range): void {
+    const last = ranges[ranges.length - 1];
+    if (last && last.end === range.start) {
+        last.end = range.end;
+    } else {
+        ranges.push({ start: range.start, end: range.end });
+    }
+}
+
+function renderHunkHeader(hunk: DiffHunk, columns: number): string {
+    return `<tr class="diff-hunk-header"><td colspan="${columns}">${escapeHtml(hunk.header)}</td></tr>`;
+}
+
+function renderSideBySideHunk(hunk: DiffHunk, blocks: HunkBlock[], contents: Map<DiffLine, string>): string {
+    const cells = (line: DiffLine | undefined, side: 'old' | 'new') => {
+        if (!line) {
+            return '<td class="line-number empty"></td><td class="line empty"></td>';
+        }
+        const lineNumber = side === 'old' ? line.oldLine : line.newLine;
+        const cls = line.type === 'context' ? '' : ` ${line.type}`;
+        return `<td class="line-number${cls}">${lineNumber ?? ''}</td><td class="line${cls}">${contents.get(line) ?? ''}</td>`;
+    };
+
+    let html = renderHunkHeader(hunk, 4);
+    for (const block of blocks) {
+        if (block.kind === 'context') {
+            html += `<tr>${cells(block.line, 'old')}${cells(block.line, 'new')}</tr>`;
+            continue;
+        }
+        for (let i = 0; i < Math.max(block.deleted.length, block.added.length); i++) {
+            html += `<tr>${cells(block.deleted[i], 'old')}${cells(block.added[i], 'new')}</tr>`;
+        }
+    }
+    return html;
+}
+
+function renderInlineHunk(hunk: DiffHunk, blocks: HunkBlock[], contents: Map<DiffLine, string>): string {
+    const row = (line: DiffLine) => {
+        const cls = line.type === 'context' ? '' : ` ${line.type}`;
+        const marker = line.type === 'add' ? '+' : line.type === 'delete' ? '-' : '';
+        return `<tr><td class="line-number${cls}">${line.oldLine ?? ''}</td><td class="line-number${cls}">${line.newLine ?? ''}</td>`
+            + `<td class="line-marker${cls}">${marker}</td><td class="line${cls}">${contents.get(line) ?? ''}</td></tr>`;
+    };
+
+    let html = renderHunkHeader(hunk, 4);
+    for (const block of blocks) {
+        html += block.kind === 'context' ? row(block.line) : [...block.deleted, ...block.added].map(row).join('');
+    }
+    return html;
+}
@@ -0,0 +1,251 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ChangedPath, Changeset, RevisionRef, formatPreviousRevision, formatRevision } from './svn';
+import { VcsProvider } from './vcs';
+import { emptyRevisionUri, svnRevisionUri } from './revisionProvider';
+import { NetTicketDiff, computeNetTicketDiff, formatNetTicketDiff } from './ticketDiff';
+import { outputChannel } from './outputChannel';
+import { withCancellableProgress } from './cancellableProgress';
+
+/** One file's before/after pair, ready to be opened in a diff editor. */
+export interface FileChange {
+    /** Repository path of the file. */
+    path: string;
+    original: vscode.Uri;
+    modified: vscode.Uri;
+    title: string;
+}
+
+/**
+ * Returns the copy sources that `changeset` deleted, i.e. the old paths of files
+ * it renamed or moved. Their `D` entries are shown as part of the rename.
+ */
+function renameSources(changeset: Changeset): Set<string> {
+    const deleted = new Set(changeset.paths.filter(p => p.action === 'D').map(p => p.path));
+    return new Set(changeset.paths
+        .map(p => p.copyFromPath)
+        .filter((source): source is string => source !== undefined && deleted.has(source)));
+}
+
+function changeTitle(originalPath: string | undefined, newPath: string, range: string): string {
+    const name = path.posix.basename(newPath);
+    const originalName = originalPath && path.posix.basename(originalPath);
+    return originalName && originalName !== name ? `${originalName} → ${name} (${range})` : `${name} (${range})`;
+}
+
+/**
+ * Builds the change of one path in the revision of `changeset` against its predecessor. Both sides
+ * are addressed by repository URL pegged at a revision where the node exists, so
+ * SVN follows copies: the left side of a renamed or copied file is its source,
+ * added files diff against empty and deleted files against empty.
+ */
+export function revisionFileChange(changeset: RevisionRef, changedPath: ChangedPath, workingCopy?: string): FileChange {
+    const revision = changeset.revision;
+    const prevRevision = revision - 1;
+    const filePath = changedPath.path;
+    const range = `${formatPreviousRevision(changeset)} → ${formatRevision(changeset)}`;
+
+    if (changedPath.action === 'D') {
+        return {
+            path: filePath,
+            original: svnRevisionUri(filePath, prevRevision, { workingCopy }),
+            modified: emptyRevisionUri(filePath),
+            title: `${path.posix.basename(filePath)} (${range}, deleted)`
+        };
+    }
+
+    const addedWithoutHistory = changedPath.action === 'A' && !changedPath.copyFromPath;
+    return {
+        path: filePath,
+        original: addedWithoutHistory
+            ? emptyRevisionUri(filePath)
+            : svnRevisionUri(filePath, prevRevision, { peg: revision, allowMissing: true, workingCopy }),
+        modified: svnRevisionUri(filePath, revision, { workingCopy }),
+        title: changeTitle(changedPath.copyFromPath, filePath, range)
+    };
+}
+
+/** Builds the changes of all files (not directories) changed in `changeset`, with renames as one change. */
+export function revisionFileChanges(changeset: Changeset, workingCopy?: string): FileChange[] {
+    const renamed = renameSources(changeset);
+    return changeset.paths
+        .filter(changedPath => changedPath.kind !== 'dir')
+        .filter(changedPath => !(changedPath.action === 'D' && renamed.has(changedPath.path)))
+        .map(changedPath => revisionFileChange(changeset, changedPath, workingCopy));
+}
+
+interface FileLineage {
+    /** Path the file had before the ticket's first change to it, if it was copied or renamed. */
+    originPath?: string;
+    /** The ticket's first and last change to the file. */
+    first: Changeset;
+    last: Changeset;
+    lastAction: ChangedPath['action'];
+    /** Whether the file existed before the ticket's first change to it. */
+    existedBefore: boolean;
+}
+
+/**
+ * Follows each file through the ticket's revisions (oldest first), carrying the
+ * first revision and origin across renames and copies made within the ticket.
+ */
+function ticketLineages(changesets: Changeset[]): Map<string, FileLineage> {
+    const lineages = new Map<string, FileLineage>();
+    const ordered = [...changesets].sort((a, b) => a.revision - b.revision);
+
+    for (const changeset of ordered) {
+        const renamed = renameSources(changeset);
+        const files = changeset.paths.filter(changedPath => changedPath.kind !== 'dir');
+
+        for (const changedPath of files) {
+            const existing = lineages.get(changedPath.path);
+            const source = changedPath.copyFromPath ? lineages.get(changedPath.copyFromPath) : undefined;
+
+            if (existing && changedPath.action !== 'A') {
+                existing.last = changeset;
+                existing.lastAction = changedPath.action;
+            } else if (source) {
+                lineages.set(changedPath.path, {
+                    ...source,
+                    originPath: source.originPath ?? changedPath.copyFromPath,
+                    last: changeset,
+                    lastAction: changedPath.action
+                });
+            } else {
+                lineages.set(changedPath.path, {
+                    originPath: changedPath.copyFromPath,
+                    // A file deleted and added again within the ticket keeps its first revision
+                    first: existing?.first ?? changeset,
+                    last: changeset,
+                    lastAction: changedPath.action,
+                    existedBefore: changedPath.action !== 'A' || changedPath.copyFromPath !== undefined
+                        || (existing?.existedBefore ?? false)
+                });
+            }
+        }
+
+        // The old path of a rename is covered by the new path's lineage
+        for (const oldPath of renamed) {
+            lineages.delete(oldPath);
+        }
+    }
+
+    return lineages;
+}
+
+/** Builds the cumulative changes of all files changed across `changesets`, following renames. */
+export function ticketFileChanges(changesets: Changeset[], workingCopy?: string): FileChange[] {
+    return Array.from(ticketLineages(changesets))
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([filePath, lineage]) => lineageFileChange(filePath, lineage, workingCopy))
+        .filter((change): change is FileChange => change !== undefined);
+}
+
+/**
+ * Builds the cumulative change of `selectedFile` across all `changesets` that touched
+ * it, from the revision before the first change to the last change.
+ */
+export function unifiedFileChange(changesets: Changeset[], selectedFile: string, workingCopy?: string): FileChange | undefined {
+    const lineage = ticketLineages(changesets).get(selectedFile);
+    return lineage && lineageFileChange(selectedFile, lineage, workingCopy);
+}
+
+function lineageFileChange(filePath: string, lineage: FileLineage, workingCopy?: string): FileChange | undefined {
+    const deleted = lineage.lastAction === 'D';
+    if (deleted && !lineage.existedBefore) {
+        return undefined; // Added and deleted again within the ticket
+    }
+
+    const lowestRevision = lineage.first.revision - 1; // One before the first change
+    const highestRevision = lineage.last.revision;
+    // A deleted file's node only exists up to the revision before its deletion
+    const peg = deleted ? highestRevision - 1 : highestRevision;
+
+    return {
+        path: filePath,
+        original: lineage.existedBefore
+            ? svnRevisionUri(filePath, lowestRevision, { peg, allowMissing: true, workingCopy })
+            : emptyRevisionUri(filePath),
+        modified: deleted ? emptyRevisionUri(filePath) : svnRevisionUri(filePath, highestRevision, { workingCopy }),
+        title: changeTitle(lineage.originPath, filePath, `Unified Diff ${formatPreviousRevision(lineage.first)} → ${formatRevision(lineage.last)}${deleted ? ', deleted' : ''}`)
+    };
+}
+
+export async function openFileChange(change: FileChange): Promise<void> {
+    await vscode.commands.executeCommand('vscode.diff',
+        change.original,
+        change.modified,
+        change.title
+    );
+}
+
+/** Opens one changed path of `changeset` in the diff editor, comparing it with its predecessor. */
+export async function openRevisionDiff(changeset: RevisionRef, changedPath: ChangedPath, workingCopy?: string): Promise<void> {
+    outputChannel.appendLine(`Working with file: ${changedPath.path}`);
+    await openFileChange(revisionFileChange(changeset, changedPath, workingCopy));
+    outputChannel.appendLine(`Opened diff view for ${changedPath.path} between ${formatPreviousRevision(changeset)} and ${formatRevision(changeset)}`);
+}
+
+/** Opens the cumulative diff of `selectedFile` across all `changesets` that touched it. */
+export async function openUnifiedDiff(changesets: Changeset[], selectedFile: string, workingCopy?: string): Promise<void> {
+    const change = unifiedFileChange(changesets, selectedFile, workingCopy);
+    if (!change) {
+        vscode.window.showWarningMessage(`${selectedFile} has no net change across these revisions`);
+        return;
+    }
+
+    outputChannel.appendLine(`Creating unified diff for ${selectedFile}: ${change.title}`);
+    await openFileChange(change);
+    outputChannel.appendLine(`Opened unified diff view for ${selectedFile}`);
+}
+
+/**
+ * Asks for a file (or all files) and opens the net ticket diff: the ticket's own
+ * per-revision patches, optionally with foreign interleaved revisions marked.
+ */
+export async function showNetTicketDiff(client: VcsProvider, changesets: Changeset[], ticketLabel: string): Promise<void> {
+    const files = ticketFileChanges(changesets).map(change => change.path);
+    if (files.length === 0) {
+        vscode.window.showWarningMessage(`No files found across revisions for ${ticketLabel}`);
+        return;
+    }
+
+    const allFiles = '$(files) All files';
+    const selection = files.length === 1 ? files[0] : await vscode.window.showQuickPick([allFiles, ...files], {
+        placeHolder: 'Select a file to view the net ticket diff',
+        title: `Net ticket diff for ${ticketLabel}`
+    });
+    if (!selection) {
+        return; // User cancelled
+    }
+
+    const mode = await vscode.window.showQuickPick([
+        { label: 'Ticket revisions only', markForeign: false },
+        { label: 'Mark foreign revisions', description: 'Interleave other revisions that touched the files, clearly marked', markForeign: true }
+    ], { placeHolder: 'How should revisions of other tickets be shown?' });
+    if (!mode) {
+        return; // User cancelled
+    }
+
+    const selectedFiles = selection === allFiles ? files : [selection];
+    const diffs = await withCancellableProgress(`Computing net diff for ${ticketLabel}`, async (progress) => {
+        const result: NetTicketDiff[] = [];
+        for (const file of selectedFiles) {
+            progress.report({ message: file, increment: 100 / selectedFiles.length });
+            result.push(await computeNetTicketDiff(client, changesets, file));
+        }
+        return result;
+    });
+    if (!diffs) {
+        return;
+    }
+
+    const foreignCount = new Set(diffs.flatMap(diff => diff.foreignRevisions.map(changeset => changeset.revision))).size;
+    outputChannel.appendLine(`Net diff for ${ticketLabel}: ${diffs.length} files, ${foreignCount} foreign revisions in between`);
+
+    const document = await vscode.workspace.openTextDocument({
+        content: formatNetTicketDiff(diffs, ticketLabel, mode.markForeign),
+        language: 'diff'
+    });
+    await vscode.window.showTextDocument(document, { preview: false });
+}
@@ -1,109 +1,101 @@
 import * as vscode from 'vscode';
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import * as path from 'path';
-import * as os from 'os';
-import * as fs from 'fs';
-
-const execAsync = promisify(exec);
-
-interface Changeset {
-    revision: string;
-    author: string;
-    date: string;
-    message: string;
-    files: string[];
-}
-
-interface SvnInfo {
-    repositoryRoot: string;
-    workingCopyPath: string;
-    relativePrefix: string;
-}
-
-// Create an output channel for logging
-const outputChannel = vscode.window.createOutputChannel('Ticket Changesets');
+import { ChangedPath, Changeset, SvnClient, formatChangedPath, formatRevision, formatRevisionTitle } from './svn';
+import { CachedSvnClient } from './cachedSvnClient';
+import { GitClient } from './git';
+import { VcsProvider } from './vcs';
+import { DEFAULT_TICKET_PATTERNS, TicketSearchResult, compileTicketPatterns, formatTicket, parseTicketInput, searchTickets, validateTicketInput } from './tickets';
+import { formatMergeStatus, getMergeStatus, resolveSearchLocations, workingCopyLocation } from './branches';
+import { TicketHistory } from './history';
+import { ChangedPathDecorationProvider, RevisionNode, TicketNode, TicketTreeProvider } from './ticketTree';
+import { openRevisionDiff, revisionFileChanges, ticketFileChanges } from './diffs';
+import { ChangeListNavigator } from './changeList';
+import { SVN_REVISION_SCHEME, SvnRevisionContentProvider } from './revisionProvider';
+import { TICKET_PANEL_VIEW_TYPE, TicketPanelSerializer, showTicketPanel } from './panel';
+import { revertTicketFromWorkingCopy } from './merge';
+import { exportReviewBundle } from './reviewBundle';
+import { TicketIndex, parseIndexQuery } from './ticketIndex';
+import { TicketTracker } from './tracker';
+import { TicketLinkProvider } from './ticketLinks';
+import { TicketBlameController } from './blame';
+import { filterResultToPaths, historyPaths, ticketsInHistory } from './fileTickets';
+import { ReviewManager } from './review';
+import { collectRevisionDiffs } from './ticketStats';
+import { compareTickets, showTicketComparison } from './ticketCompare';
+import { outputChannel } from './outputChannel';
+import { DEFAULT_PROCESS_LIMITS, ProcessLimits, isCancellation } from './process';
+import { withCancellableProgress } from './cancellableProgress';
+import { WorkingCopy, WorkingCopyManager, workingCopyLabel } from './workingCopies';
 
 export function activate(context: vscode.ExtensionContext) {
+    cacheDirectory = vscode.Uri.joinPath(context.globalStorageUri, 'revisions');
+    workingCopies = new WorkingCopyManager(context.workspaceState, createWorkingCopyClient);
+    context.subscriptions.push(ticketIndex);
+
     // Log that we're activating
     outputChannel.appendLine('Ticket Changesets extension is activating...');
     outputChannel.show();
 
-    let disposable = vscode.commands.registerCommand('ticket-changesets-viewer.showChanges', async () => {
+    const history = new TicketHistory(context.workspaceState);
+    const navigator = new ChangeListNavigator();
+    const tracker = new TicketTracker(context.secrets);
+    const treeProvider = new TicketTreeProvider(history, async (tickets) => {
+        const client = await createVcsClient();
+        return client && findTicketChangesets(client, tickets);
+    }, tracker);
+    updateTrackerContext(tracker);
+    const links = new TicketLinkProvider(async (ticket) => {
+        const client = await createVcsClient(false);
+        return client && findTicketChangesets(client, [ticket]);
+    }, tracker);
+    const blame = new TicketBlameController(filePath => workingCopies.clientFor(filePath));
+    const reviews = new ReviewManager(context.workspaceState);
+
+    let disposable = vscode.commands.registerCommand('ticket-changesets-viewer.showChanges', async (requestedTickets?: string[]) => {
         outputChannel.appendLine('Command "Show Ticket Changesets" was triggered');
         try {
-            // First, get the SVN working directory
-            const workingDir = await getSvnWorkingDir();
-            if (!workingDir) {
-                vscode.window.showErrorMessage('Please open a folder that is an SVN working copy');
+            // First, get the working copies to search
+            const selection = await selectedWorkingCopies();
+            if (selection.length === 0) {
                 return;
             }
-            outputChannel.appendLine(`Using SVN working directory: ${workingDir}`);
-
-            // Get the ticket ID from the user
-            const ticketId = await vscode.window.showInputBox({
-                prompt: 'Enter ticket ID (e.g., 52438)',
-                placeHolder: '52438',
-                validateInput: (value) => {
-                    return /^\d+$/.test(value) ? null : 'Please enter a valid ticket ID (numbers only)';
-                }
-            });
+            outputChannel.appendLine(`Using working copies: ${selection.map(workingCopy => workingCopy.path).join(', ')}`);
 
-            if (!ticketId) {
+            // Get the ticket IDs from the user, unless they were passed in (e.g. from the sidebar)
+            const tickets = Array.isArray(requestedTickets) ? requestedTickets : await promptForTickets();
+            if (!tickets) {
                 outputChannel.appendLine('No ticket ID entered, cancelling...');
                 return;
             }
 
-            outputChannel.appendLine(`Searching for changesets related to ticket #${ticketId}`);
+            await history.add(tickets);
+            const ticketLabel = tickets.map(formatTicket).join(', ');
+            outputChannel.appendLine(`Searching for changesets related to ${ticketLabel}`);
 
             // Show progress indicator
-            await vscode.window.withProgress({
-                location: vscode.ProgressLocation.Notification,
-                title: "Fetching changesets",
-                cancellable: false
-            }, async (progress) => {
-                progress.report({ message: "Getting SVN log entries..." });
-
-                // Get SVN path from settings
-                const config = vscode.workspace.getConfiguration('ticketChangesetsViewer');
-                const svnPath = config.get<string>('svnPath') || 'svn';
-                outputChannel.appendLine(`Using SVN path: ${svnPath}`);
-
-                // Use the -search option to filter logs for the ticket ID
-                outputChannel.appendLine(`Searching for commits containing #${ticketId}...`);
+            await withCancellableProgress('Fetching changesets', async (progress) => {
+                // Use the -search option to narrow down the log, then match the ticket patterns
+                outputChannel.appendLine(`Searching for commits referencing ${ticketLabel}...`);
                 
                 try {
-                    // Use the -search option to filter logs for the ticket ID
-                    const { stdout: logOutput } = await execAsync(
-                        `${svnPath} log -v --search "#${ticketId}"`,
-                        { 
-                            cwd: workingDir,
-                            maxBuffer: 1024 * 1024 * 10 // 10MB buffer
-                        }
-                    );
-                    
-                    const changesets = parseSvnLog(logOutput, ticketId);
-                    outputChannel.appendLine(`Found ${changesets.length} changesets for ticket #${ticketId}`);
+                    const found = (await searchWorkingCopies(selection, tickets, progress)).filter(search => search.result.changesets.length > 0);
+                    const changesetCount = found.reduce((count, search) => count + search.result.changesets.length, 0);
+                    outputChannel.appendLine(`Found ${changesetCount} changesets for ${ticketLabel}`);
 
-                    if (changesets.length === 0) {
-                        vscode.window.showInformationMessage(`No changesets found for ticket #${ticketId}`);
+                    if (found.length === 0) {
+                        vscode.window.showInformationMessage(`No changesets found for ${ticketLabel}`);
                         return;
                     }
 
-                    // Create a summary view of all changesets
-                    let summaryContent = `# Changesets for Ticket #${ticketId}\n\n`;
-                    summaryContent += `Found ${changesets.length} changesets associated with this ticket.\n\n`;
-                    
-                    // Sort changesets by revision number (newest first)
-                    changesets.sort((a, b) => parseInt(b.revision) - parseInt(a.revision));
-                    
-                    for (const changeset of changesets) {
-                        summaryContent += `## Revision ${changeset.revision}\n\n`;
-                        summaryContent += `**Author:** ${changeset.author}\n\n`;
-                        summaryContent += `**Date:** ${changeset.date}\n\n`;
-                        summaryContent += `**Message:**\n\`\`\`\n${changeset.message}\n\`\`\`\n\n`;
-                        summaryContent += `**Changed Files:**\n\`\`\`\n${changeset.files.join('\n')}\n\`\`\`\n\n`;
-                        summaryContent += `---\n\n`;
+                    // Create a summary view of all changesets, grouped by working copy (if several were searched) and ticket
+                    let summaryContent = `# Changesets for ${ticketLabel}\n\n`;
+                    summaryContent += `Found ${changesetCount} changesets associated with ${tickets.length > 1 ? 'these tickets' : 'this ticket'}`;
+                    summaryContent += selection.length > 1 ? ` in ${found.length} of ${selection.length} working copies.\n\n` : '.\n\n';
+                    for (const search of found) {
+                        if (selection.length > 1) {
+                            summaryContent += `## Working Copy ${search.workingCopyLabel}\n\n`;
+                        }
+                        summaryContent += formatChangesetSummary(search.result, selection.length > 1 ? 3 : 2);
                     }
                     
                     // Create a summary document
@@ -117,299 +109,14 @@ export function activate(context: vscode.ExtensionContext) {
                         preview: false
                     });
                     
-                    // Create a webview panel to display changesets with diffs
-                    const panel = vscode.window.createWebviewPanel(
-                        'ticketChangesets',
-                        `Ticket #${ticketId} Changesets`,
-                        vscode.ViewColumn.One,
-                        {
-                            enableScripts: true,
-                            retainContextWhenHidden: true
-                        }
-                    );
-                    
-                    // Generate HTML content for the webview
-                    panel.webview.html = await generateWebviewContent(changesets, workingDir, svnPath, ticketId);
-                    
-                    // Handle messages from the webview
-                    panel.webview.onDidReceiveMessage(async (message) => {
-                        if (message.command === 'loadDiff') {
-                            try {
-                                const revision = message.revision;
-                                outputChannel.appendLine(`Loading diff for revision ${revision}...`);
-                                
-                                // Get the diff for this revision
-                                const { stdout: diffOutput } = await execAsync(
-                                    `${svnPath} diff -c ${revision}`,
-                                    { 
-                                        cwd: workingDir,
-                                        maxBuffer: 1024 * 1024 * 10 // 10MB buffer for diffs
-                                    }
-                                );
-                                
-                                // Send the diff back to the webview
-                                panel.webview.postMessage({
-                                    command: 'diffLoaded',
-                                    diff: diffOutput,
-                                    index: message.index
-                                });
-                                
-                                outputChannel.appendLine(`Sent diff for revision ${revision} back to webview`);
-                            } catch (error) {
-                                const errorMessage = error instanceof Error ? error.message : String(error);
-                                outputChannel.appendLine(`Error loading diff: ${errorMessage}`);
-                                
-                                panel.webview.postMessage({
-                                    command: 'diffLoaded',
-                                    diff: `Error loading diff: ${errorMessage}`,
-                                    index: message.index
-                                });
-                            }
-                        } 
-                        else if (message.command === 'openInDiffEditor') {
-                            try {
-                                const revision = message.revision;
-                                outputChannel.appendLine(`Opening diff for revision ${revision} in VS Code diff editor...`);
-                                
-                                // Get SVN info first
-                                const svnInfo = await getSvnInfo(workingDir, svnPath);
-                                
-                                // Get the list of files changed in this revision
-                                const { stdout: fileListOutput } = await execAsync(
-                                    `${svnPath} log -v -c ${revision}`,
-                                    { 
-                                        cwd: workingDir,
-                                        maxBuffer: 1024 * 1024 * 10
-                                    }
-                                );
-                                
-                                // Parse the files from the log output
-                                const changedFiles = extractChangedFilesFromLog(fileListOutput);
-                                outputChannel.appendLine(`Found ${changedFiles.length} changed files in revision ${revision}`);
-                                
-                                if (changedFiles.length === 0) {
-                                    vscode.window.showWarningMessage(`No changed files found in revision ${revision}`);
-                                    return;
-                                }
-                                
-                                // If more than one file was changed, let the user select which one to view
-                                let selectedFile = changedFiles[0];
-                                if (changedFiles.length > 1) {
-                                    const selectedFileName = await vscode.window.showQuickPick(changedFiles, {
-                                        placeHolder: 'Select a file to view diff',
-                                        title: `Select file from revision ${revision}`
-                                    });
-                                    
-                                    if (!selectedFileName) {
-                                        return; // User cancelled
-                                    }
-                                    
-                                    selectedFile = selectedFileName;
-                                }
-                                
-                                // Create temp files for the diff view
-                                const prevRevision = parseInt(revision) - 1;
-                                const fileNameOnly = path.basename(selectedFile);
-                                
-                                // Create temp files
-                                const oldVersionPath = path.join(os.tmpdir(), `r${prevRevision}_${fileNameOnly}`);
-                                const newVersionPath = path.join(os.tmpdir(), `r${revision}_${fileNameOnly}`);
-                                
-                                // Get previous version of the file
-                                try {
-                                    let adjustedFilePath = adjustFilePath(selectedFile, svnInfo);
-                                    outputChannel.appendLine(`Working with file: ${selectedFile}`);
-                                    outputChannel.appendLine(`Adjusted to: ${adjustedFilePath}`);
-                                    
-                                    const { stdout: oldContent } = await execAsync(
-                                        `${svnPath} cat -r ${prevRevision} "${adjustedFilePath}"`,
-                                        { 
-                                            cwd: workingDir,
-                                            maxBuffer: 1024 * 1024 * 10
-                                        }
-                                    );
-                                    
-                                    fs.writeFileSync(oldVersionPath, oldContent);
-                                    outputChannel.appendLine(`Created temp file for r${prevRevision}: ${oldVersionPath}`);
-                                } catch (error) {
-                                    outputChannel.appendLine(`Error getting r${prevRevision} of file: ${error}`);
-                                    fs.writeFileSync(oldVersionPath, ''); // Empty file if can't get previous version
-                                }
-                                
-                                // Get new version of the file
-                                try {
-                                    let adjustedFilePath = adjustFilePath(selectedFile, svnInfo);
-                                    
-                                    const { stdout: newContent } = await execAsync(
-                                        `${svnPath} cat -r ${revision} "${adjustedFilePath}"`,
-                                        { 
-                                            cwd: workingDir,
-                                            maxBuffer: 1024 * 1024 * 10
-                                        }
-                                    );
-                                    
-                                    fs.writeFileSync(newVersionPath, newContent);
-                                    outputChannel.appendLine(`Created temp file for r${revision}: ${newVersionPath}`);
-                                } catch (error) {
-                                    outputChannel.appendLine(`Error getting r${revision} of file: ${error}`);
-                                    vscode.window.showErrorMessage(`Error getting revision ${revision} of file: ${error}`);
-                                    return;
-                                }
-                                
-                                // Open diff in VS Code editor
-                                const oldUri = vscode.Uri.file(oldVersionPath);
-                                const newUri = vscode.Uri.file(newVersionPath);
-                                
-                                const title = `${path.basename(selectedFile)} (r${prevRevision} → r${revision})`;
-                                await vscode.commands.executeCommand('vscode.diff', 
-                                    oldUri, 
-                                    newUri, 
-                                    title
-                                );
-                                
-                                outputChannel.appendLine(`Opened diff view for ${selectedFile} between r${prevRevision} and r${revision}`);
-                                
-                            } catch (error) {
-                                const errorMessage = error instanceof Error ? error.message : String(error);
-                                outputChannel.appendLine(`Error opening diff in editor: ${errorMessage}`);
-                                vscode.window.showErrorMessage(`Error opening diff: ${errorMessage}`);
-                            }
-                        }
-                        else if (message.command === 'showUnifiedDiff') {
-                            try {
-                                outputChannel.appendLine(`Creating unified diff for ticket #${ticketId}...`);
-                                
-                                // Collect all unique files changed across all revisions for this ticket
-                                const allChangedFiles = new Set<string>();
-                                for (const changeset of changesets) {
-                                    // Extract file paths from the changeset files array
-                                    changeset.files.forEach(file => {
-                                        // Extract just the path part
-                                        const fileMatch = file.match(/\s*([AMD])\s+\/?(.+)/);
-                                        if (fileMatch) {
-                                            const filePath = fileMatch[2];  // path without leading slash
-                                            allChangedFiles.add(filePath);
-                                        } else {
-                                            allChangedFiles.add(file);
-                                        }
-                                    });
-                                }
-                                
-                                const uniqueFiles = Array.from(allChangedFiles);
-                                outputChannel.appendLine(`Found ${uniqueFiles.length} unique files changed across all revisions`);
-                                
-                                if (uniqueFiles.length === 0) {
-                                    vscode.window.showWarningMessage(`No files found across revisions for ticket #${ticketId}`);
-                                    return;
-                                }
-                                
-                                // If more than one file was changed, let the user select which one to view
-                                let selectedFile: string;
-                                if (uniqueFiles.length > 1) {
-                                    const selectedFileName = await vscode.window.showQuickPick(uniqueFiles, {
-                                        placeHolder: 'Select a file to view unified diff',
-                                        title: `Select file for unified diff across ticket #${ticketId}`
-                                    });
-                                    
-                                    if (!selectedFileName) {
-                                        return; // User cancelled
-                                    }
-                                    
-                                    selectedFile = selectedFileName;
-                                } else {
-                                    selectedFile = uniqueFiles[0];
-                                }
-                                
-                                // Find the lowest and highest revision for this file
-                                const revisionsWithFile = changesets
-                                    .filter(changeset => 
-                                        changeset.files.some(file => 
-                                            file.includes(selectedFile)
-                                        )
-                                    )
-                                    .map(changeset => parseInt(changeset.revision))
-                                    .sort((a, b) => a - b);
-                                
-                                if (revisionsWithFile.length === 0) {
-                                    vscode.window.showWarningMessage(`Could not find revisions for ${selectedFile}`);
-                                    return;
-                                }
-                                
-                                const lowestRevision = revisionsWithFile[0] - 1; // One before the first change
-                                const highestRevision = revisionsWithFile[revisionsWithFile.length - 1];
-                                
-                                outputChannel.appendLine(`Creating unified diff for ${selectedFile} from r${lowestRevision} to r${highestRevision}`);
-                                
-                                // Get SVN info
-                                const svnInfo = await getSvnInfo(workingDir, svnPath);
-                                
-                                // Prepare the file path
-                                let adjustedFilePath = adjustFilePath(selectedFile, svnInfo);
-                                
-                                // Create temp files for the diff view
-                                const fileNameOnly = path.basename(adjustedFilePath);
-                                const oldVersionPath = path.join(os.tmpdir(), `r${lowestRevision}_${fileNameOnly}`);
-                                const newVersionPath = path.join(os.tmpdir(), `r${highestRevision}_${fileNameOnly}`);
-                                
-                                // Get the earliest version of the file
-                                try {
-                                    // For added files, the earliest version might not exist
-                                    try {
-                                        const { stdout: oldContent } = await execAsync(
-                                            `${svnPath} cat -r ${lowestRevision} "${adjustedFilePath}"`,
-                                            { 
-                                                cwd: workingDir,
-                                                maxBuffer: 1024 * 1024 * 10
-                                            }
-                                        );
-                                        
-                                        fs.writeFileSync(oldVersionPath, oldContent);
-                                        outputChannel.appendLine(`Created temp file for r${lowestRevision}: ${oldVersionPath}`);
-                                    } catch (error) {
-                                        outputChannel.appendLine(`Error getting r${lowestRevision} of file (likely new file): ${error}`);
-                                        fs.writeFileSync(oldVersionPath, ''); // Empty file if can't get earliest version
-                                    }
-                                    
-                                    // Get the latest version of the file
-                                    const { stdout: newContent } = await execAsync(
-                                        `${svnPath} cat -r ${highestRevision} "${adjustedFilePath}"`,
-                                        { 
-                                            cwd: workingDir,
-                                            maxBuffer: 1024 * 1024 * 10
-                                        }
-                                    );
-                                    
-                                    fs.writeFileSync(newVersionPath, newContent);
-                                    outputChannel.appendLine(`Created temp file for r${highestRevision}: ${newVersionPath}`);
-                                    
-                                    // Open diff in VS Code editor
-                                    const oldUri = vscode.Uri.file(oldVersionPath);
-                                    const newUri = vscode.Uri.file(newVersionPath);
-                                    
-                                    const title = `${fileNameOnly} (Unified Diff r${lowestRevision} → r${highestRevision})`;
-                                    await vscode.commands.executeCommand('vscode.diff', 
-                                        oldUri, 
-                                        newUri, 
-                                        title
-                                    );
-                                    
-                                    outputChannel.appendLine(`Opened unified diff view for ${adjustedFilePath}`);
-                                    
-                                } catch (error) {
-                                    const errorMessage = error instanceof Error ? error.message : String(error);
-                                    outputChannel.appendLine(`Error creating unified diff: ${errorMessage}`);
-                                    vscode.window.showErrorMessage(`Error creating unified diff: ${errorMessage}`);
-                                }
-                                
-                            } catch (error) {
-                                const errorMessage = error instanceof Error ? error.message : String(error);
-                                outputChannel.appendLine(`Error creating unified diff: ${errorMessage}`);
-                                vscode.window.showErrorMessage(`Error creating unified diff: ${errorMessage}`);
-                            }
-                        }
-                    });
+                    for (const search of found) {
+                        await showTicketPanel(context.extensionUri, search.client, search.result, search.ticketLabel, navigator, tracker, reviews);
+                    }
                     
                 } catch (error) {
+                    if (isCancellation(error)) {
+                        throw error;
+                    }
                     const errorMessage = error instanceof Error ? error.message : String(error);
                     outputChannel.appendLine(`Error searching for commits: ${errorMessage}. These changes might not be available on this branch`);
                     vscode.window.showErrorMessage(`Error searching for commits: ${errorMessage}`);
@@ -424,451 +131,708 @@ export function activate(context: vscode.ExtensionContext) {
     });
 
     context.subscriptions.push(disposable);
-    outputChannel.appendLine('Ticket Changesets extension is now active!');
-    vscode.window.showInformationMessage('Ticket Changesets extension is now active!');
-}
 
-async function getSvnWorkingDir(): Promise<string | undefined> {
-    // First try to use the workspace folder
-    if (vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 0) {
-        const workspaceFolder = vscode.workspace.workspaceFolders[0].uri.fsPath;
+    context.subscriptions.push(vscode.commands.registerCommand('ticket-changesets-viewer.showFileTickets', async (uri?: vscode.Uri) => {
+        outputChannel.appendLine('Command "Show Tickets Touching This File" was triggered');
         try {
-            // Check if this is an SVN working copy
-            await execAsync('svn info', { cwd: workspaceFolder });
-            return workspaceFolder;
+            const target = uri instanceof vscode.Uri ? uri : vscode.window.activeTextEditor?.document.uri;
+            if (!target || target.scheme !== 'file') {
+                vscode.window.showWarningMessage('Select a file or folder in the working copy');
+                return;
+            }
+            await showFileTickets(target, async (ticket, search) => {
+                await history.add([ticket]);
+                await showTicketPanel(context.extensionUri, search.client, search.result, search.ticketLabel, navigator, tracker, reviews);
+            });
         } catch (error) {
-            outputChannel.appendLine(`Workspace folder is not an SVN working copy: ${error}`);
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            outputChannel.appendLine(`Error listing the tickets of the file: ${errorMessage}`);
+            vscode.window.showErrorMessage(`Error listing the tickets of the file: ${errorMessage}`);
         }
-    }
+    }));
 
-    // If no workspace folder or not an SVN working copy, ask the user
-    const result = await vscode.window.showOpenDialog({
-        canSelectFiles: false,
-        canSelectFolders: true,
-        canSelectMany: false,
-        openLabel: 'Select SVN Working Copy',
-        title: 'Select SVN Working Copy Directory'
-    });
+    context.subscriptions.push(vscode.commands.registerCommand('ticket-changesets-viewer.revertTicket', async (target?: string[] | TicketNode) => {
+        outputChannel.appendLine('Command "Revert Ticket from Working Copy" was triggered');
+        try {
+            const search = await searchForCommand(target);
+            if (!search) {
+                return;
+            }
+            if (!(search.client instanceof SvnClient)) {
+                vscode.window.showWarningMessage('Reverting tickets needs an SVN working copy');
+                return;
+            }
+            await revertTicketFromWorkingCopy(search.client, search.result, search.ticketLabel);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            outputChannel.appendLine(`Error reverting ticket: ${errorMessage}`);
+            vscode.window.showErrorMessage(`Error reverting ticket: ${errorMessage}`);
+        }
+    }));
 
-    if (result && result.length > 0) {
-        const selectedPath = result[0].fsPath;
+    context.subscriptions.push(vscode.commands.registerCommand('ticket-changesets-viewer.compareTickets', async (requestedTickets?: string[]) => {
+        outputChannel.appendLine('Command "Compare Tickets" was triggered');
         try {
-            // Verify this is an SVN working copy
-            await execAsync('svn info', { cwd: selectedPath });
-            return selectedPath;
+            await compareTicketChanges(Array.isArray(requestedTickets) ? requestedTickets : undefined);
         } catch (error) {
-            outputChannel.appendLine(`Selected folder is not an SVN working copy: ${error}`);
-            vscode.window.showErrorMessage('Selected folder is not an SVN working copy');
-            return undefined;
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            outputChannel.appendLine(`Error comparing tickets: ${errorMessage}`);
+            vscode.window.showErrorMessage(`Error comparing tickets: ${errorMessage}`);
         }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('ticket-changesets-viewer.exportTicket', async (target?: string[] | TicketNode) => {
+        outputChannel.appendLine('Command "Export Ticket Review Bundle" was triggered');
+        try {
+            const search = await searchForCommand(target);
+            if (search) {
+                await exportReviewBundle(search.client, search.result, search.ticketLabel);
+            }
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            outputChannel.appendLine(`Error exporting review bundle: ${errorMessage}`);
+            vscode.window.showErrorMessage(`Error exporting review bundle: ${errorMessage}`);
+        }
+    }));
+
+    context.subscriptions.push(
+        vscode.window.registerTreeDataProvider('ticketChangesetsViewer.tickets', treeProvider),
+        vscode.window.registerFileDecorationProvider(new ChangedPathDecorationProvider()),
+        vscode.workspace.registerTextDocumentContentProvider(SVN_REVISION_SCHEME, new SvnRevisionContentProvider(resolveWorkingCopyClient)),
+        vscode.window.registerWebviewPanelSerializer(TICKET_PANEL_VIEW_TYPE, new TicketPanelSerializer(context.extensionUri, resolveWorkingCopyClient, navigator, tracker, reviews)),
+        tracker,
+        vscode.languages.registerDocumentLinkProvider({ scheme: '*' }, links),
+        vscode.languages.registerHoverProvider({ scheme: '*' }, links),
+        blame,
+        reviews,
+        vscode.commands.registerCommand('ticket-changesets-viewer.addReviewComment', (reply: vscode.CommentReply) => reviews.addComment(reply)),
+        vscode.commands.registerCommand('ticket-changesets-viewer.deleteReviewComment', (comment: vscode.Comment) => reviews.deleteComment(comment)),
+        vscode.commands.registerCommand('ticket-changesets-viewer.toggleFileReviewed', async (uri?: vscode.Uri) => {
+            const target = uri instanceof vscode.Uri ? uri : vscode.window.activeTextEditor?.document.uri;
+            if (target) {
+                await reviews.toggleReviewed(target);
+            }
+        }),
+        vscode.commands.registerTextEditorCommand('ticket-changesets-viewer.toggleTicketBlame', async (editor) => {
+            outputChannel.appendLine('Command "Toggle Ticket Annotations" was triggered');
+            try {
+                await blame.toggle(editor);
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                outputChannel.appendLine(`Error annotating the file with tickets: ${errorMessage}`);
+                vscode.window.showErrorMessage(`Error annotating the file with tickets: ${errorMessage}`);
+            }
+        }),
+        vscode.commands.registerCommand('ticket-changesets-viewer.refreshTickets', () => {
+            links.clear();
+            treeProvider.refresh();
+        }),
+        vscode.commands.registerCommand('ticket-changesets-viewer.selectWorkingCopies', async () => {
+            outputChannel.appendLine('Command "Select Working Copies" was triggered');
+            try {
+                const selection = await workingCopies.select();
+                if (!selection) {
+                    return; // User cancelled
+                }
+                // The index, links and sidebar follow the first selected working copy
+                updateTicketIndex(false);
+                links.clear();
+                treeProvider.refresh();
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                outputChannel.appendLine(`Error selecting working copies: ${errorMessage}`);
+                vscode.window.showErrorMessage(`Error selecting working copies: ${errorMessage}`);
+            }
+        }),
+        vscode.commands.registerCommand('ticket-changesets-viewer.clearTicketHistory', () => history.clear()),
+        vscode.commands.registerCommand('ticket-changesets-viewer.openTicket', (node: TicketNode) =>
+            vscode.commands.executeCommand('ticket-changesets-viewer.showChanges', [node.ticket])
+        ),
+        vscode.commands.registerCommand('ticket-changesets-viewer.pinTicket', (node: TicketNode) => history.pin(node.ticket)),
+        vscode.commands.registerCommand('ticket-changesets-viewer.unpinTicket', (node: TicketNode) => history.unpin(node.ticket)),
+        vscode.commands.registerCommand('ticket-changesets-viewer.removeTicket', (node: TicketNode) => history.remove(node.ticket)),
+        vscode.commands.registerCommand('ticket-changesets-viewer.openChangedFile', async (changeset: Changeset, changedPath: ChangedPath) => {
+            try {
+                await openRevisionDiff(changeset, changedPath);
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                outputChannel.appendLine(`Error opening diff in editor: ${errorMessage}`);
+                vscode.window.showErrorMessage(`Error opening diff: ${errorMessage}`);
+            }
+        }),
+        vscode.commands.registerCommand('ticket-changesets-viewer.openRevisionChanges', (node: RevisionNode) =>
+            navigator.open(formatRevision(node.changeset), revisionFileChanges(node.changeset))
+        ),
+        vscode.commands.registerCommand('ticket-changesets-viewer.openTicketChanges', async (node: TicketNode) => {
+            const changesets = await treeProvider.getChangesets(node.ticket);
+            await navigator.open(formatTicket(node.ticket), ticketFileChanges(changesets));
+        }),
+        vscode.commands.registerCommand('ticket-changesets-viewer.clearCache', async () => {
+            workingCopies.resetClients();
+            try {
+                await vscode.workspace.fs.delete(cacheDirectory, { recursive: true, useTrash: false });
+            } catch (error) {
+                // Nothing cached yet
+                outputChannel.appendLine(`Could not delete the revision cache: ${error}`);
+            }
+            ticketIndex = resetTicketIndex(context);
+            links.clear();
+            treeProvider.refresh();
+            outputChannel.appendLine('Cleared the revision cache');
+            vscode.window.showInformationMessage('Cleared the revision cache');
+        }),
+        vscode.commands.registerCommand('ticket-changesets-viewer.updateTicketIndex', () => updateTicketIndex(true)),
+        vscode.commands.registerCommand('ticket-changesets-viewer.queryTicketIndex', async () => {
+            outputChannel.appendLine('Command "Query Ticket Index" was triggered');
+            try {
+                await queryTicketIndex();
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                outputChannel.appendLine(`Error querying the ticket index: ${errorMessage}`);
+                vscode.window.showErrorMessage(`Error querying the ticket index: ${errorMessage}`);
+            }
+        }),
+        vscode.workspace.onDidChangeWorkspaceFolders(() => {
+            workingCopies.reset();
+            updateTicketIndex(false);
+        }),
+        vscode.workspace.onDidChangeConfiguration(event => {
+            // The executables also decide which folders are detected as working copies
+            if (event.affectsConfiguration('ticketChangesetsViewer.svnPath') || event.affectsConfiguration('ticketChangesetsViewer.gitPath')) {
+                workingCopies.reset();
+            }
+            if (event.affectsConfiguration('ticketChangesetsViewer.commandTimeout') || event.affectsConfiguration('ticketChangesetsViewer.maxOutputSize')) {
+                workingCopies.resetClients();
+            }
+            if (event.affectsConfiguration('ticketChangesetsViewer.ticketPatterns') ||
+                event.affectsConfiguration('ticketChangesetsViewer.searchLocations')) {
+                updateTicketIndex(false);
+            }
+            if (event.affectsConfiguration('ticketChangesetsViewer.trackerType') ||
+                event.affectsConfiguration('ticketChangesetsViewer.trackerUrl')) {
+                tracker.reset();
+                updateTrackerContext(tracker);
+            }
+        }),
+        vscode.commands.registerCommand('ticket-changesets-viewer.setTrackerToken', async () => {
+            const token = await vscode.window.showInputBox({
+                prompt: 'Enter the ticket tracker token (API key, personal access token or user:password); leave empty to remove it',
+                password: true,
+                ignoreFocusOut: true
+            });
+            if (token === undefined) {
+                return; // User cancelled
+            }
+            await tracker.setToken(token);
+            outputChannel.appendLine(token ? 'Stored the ticket tracker token' : 'Removed the ticket tracker token');
+        }),
+        vscode.commands.registerCommand('ticket-changesets-viewer.openTicketInTracker', async (target?: TicketNode | string) => {
+            const ticket = target instanceof TicketNode ? target.ticket : target;
+            const url = ticket && tracker.ticketUrl(ticket);
+            if (!url) {
+                vscode.window.showWarningMessage('Configure ticketChangesetsViewer.trackerType and trackerUrl to open tickets in the tracker');
+                return;
+            }
+            await vscode.env.openExternal(vscode.Uri.parse(url));
+        }),
+        vscode.commands.registerCommand('ticket-changesets-viewer.nextChangedFile', () => navigator.next()),
+        vscode.commands.registerCommand('ticket-changesets-viewer.previousChangedFile', () => navigator.previous()),
+        vscode.commands.registerCommand('ticket-changesets-viewer.showChangedFiles', () => navigator.pick())
+    );
+
+    outputChannel.appendLine('Ticket Changesets extension is now active!');
+    vscode.window.showInformationMessage('Ticket Changesets extension is now active!');
+
+    if (vscode.workspace.getConfiguration('ticketChangesetsViewer').get<boolean>('indexOnStartup', true)) {
+        updateTicketIndex(false);
     }
+}
 
-    return undefined;
+/** Shows the tracker commands only when a tracker is configured. */
+function updateTrackerContext(tracker: TicketTracker): void {
+    vscode.commands.executeCommand('setContext', 'ticketChangesetsViewer.trackerConfigured', tracker.configured);
 }
 
-function parseSvnLog(logOutput: string, ticketId: string): Changeset[] {
-    const changesets: Changeset[] = [];
-    const lines = logOutput.split('\n');
-    let currentChangeset: Partial<Changeset> = {};
-    let inMessage = false;
-    let messageLines: string[] = [];
-
-    for (let i = 0; i < lines.length; i++) {
-        const line = lines[i];
-
-        // Start of a new changeset
-        if (line.startsWith('------------------------------------------------------------------------')) {
-            if (currentChangeset.revision && messageLines.length > 0) {
-                // Join message lines and check if it contains the ticket ID
-                currentChangeset.message = messageLines.join('\n');
-                if (currentChangeset.message.includes(`#${ticketId}`)) {
-                    changesets.push(currentChangeset as Changeset);
-                }
-            }
-            currentChangeset = {};
-            inMessage = false;
-            messageLines = [];
-            continue;
-        }
+/** Where `CachedSvnClient` keeps repository data, one directory per repository UUID. */
+let cacheDirectory: vscode.Uri;
+
+/** The working copies of the workspace, the ones selected for searches and their clients. */
+let workingCopies: WorkingCopyManager;
+
+/** Tickets of the searched history, for instant and offline searches and autocomplete. */
+let ticketIndex = new TicketIndex();
 
-        // Parse revision line
-        if (line.startsWith('r')) {
-            const match = line.match(/r(\d+)\s+\|\s+(\w+)\s+\|\s+([^|]+)/);
-            if (match) {
-                currentChangeset.revision = match[1];
-                currentChangeset.author = match[2];
-                currentChangeset.date = match[3].trim();
-                currentChangeset.files = [];
+/** The index build in progress, so only one runs at a time. */
+let indexUpdate: Thenable<void> | undefined;
+
+/** A ticket search in one working copy, labelled with the working copy if several were searched. */
+interface TicketSearch {
+    client: VcsProvider;
+    result: TicketSearchResult;
+    ticketLabel: string;
+    workingCopyLabel: string;
+}
+
+/**
+ * Creates the client of a working copy: a caching SVN client using the configured
+ * `svnPath`, or a Git client using `gitPath` for Git and `git svn` clones. Clients
+ * are reused until the workspace, either path or the command limits change.
+ */
+function createWorkingCopyClient(workingCopy: WorkingCopy): VcsProvider {
+    const config = vscode.workspace.getConfiguration('ticketChangesetsViewer');
+    if (workingCopy.kind === 'git') {
+        outputChannel.appendLine(`Using ${workingCopy.gitSvn ? 'git svn clone' : 'Git clone'} ${workingCopy.path}`);
+        return new GitClient(config.get<string>('gitPath') || 'git', workingCopy.path, workingCopy.gitSvn, processLimits(config));
+    }
+    outputChannel.appendLine(`Using SVN working copy ${workingCopy.path}`);
+    return new CachedSvnClient(config.get<string>('svnPath') || 'svn', workingCopy.path, cacheDirectory.fsPath, processLimits(config));
+}
+
+/**
+ * Returns the working copies selected for searches, asking for them the first time
+ * if there are several (or for a folder if there are none).
+ * Unless `interactive`, nothing is asked for and no error is shown.
+ */
+async function selectedWorkingCopies(interactive = true): Promise<WorkingCopy[]> {
+    const selection = await workingCopies.selected(interactive);
+    if (selection.length === 0 && interactive) {
+        vscode.window.showErrorMessage('Please open a folder that is an SVN working copy or a Git clone');
+    }
+    return selection;
+}
+
+/**
+ * Returns the client of the primary working copy, the first one selected, which
+ * the sidebar, ticket links and the ticket index work on.
+ * Unless `interactive`, no folder is asked for and no error is shown.
+ */
+async function createVcsClient(interactive = true): Promise<VcsProvider | undefined> {
+    const [workingCopy] = await selectedWorkingCopies(interactive);
+    return workingCopy && workingCopies.client(workingCopy);
+}
+
+/** Returns the client of the working copy at `workingCopyPath`, or the primary client if none is given. */
+async function resolveWorkingCopyClient(workingCopyPath?: string): Promise<VcsProvider | undefined> {
+    return workingCopyPath ? workingCopies.clientAt(workingCopyPath) : createVcsClient(false);
+}
+
+/**
+ * Searches each of `selection` for the tickets. When several are searched, a
+ * working copy that fails is reported and skipped, unless all of them fail.
+ */
+async function searchWorkingCopies(
+    selection: WorkingCopy[],
+    tickets: string[],
+    progress?: vscode.Progress<{ message?: string }>
+): Promise<TicketSearch[]> {
+    const ticketLabel = tickets.map(formatTicket).join(', ');
+    const searches: TicketSearch[] = [];
+    let firstError: unknown;
+    for (const workingCopy of selection) {
+        const label = workingCopyLabel(workingCopy);
+        const client = workingCopies.client(workingCopy);
+        progress?.report({ message: selection.length > 1 ? `Searching ${label}...` : 'Getting log entries...' });
+        outputChannel.appendLine(`Using ${client instanceof GitClient ? `Git path: ${client.gitPath}` : client instanceof SvnClient ? `SVN path: ${client.svnPath}` : client.kind} in ${client.cwd}`);
+        try {
+            const result = await findTicketChangesets(client, tickets);
+            outputChannel.appendLine(`Found ${result.changesets.length} changesets for ${ticketLabel} in ${label}`);
+            searches.push({ client, result, ticketLabel: selection.length > 1 ? `${ticketLabel} in ${label}` : ticketLabel, workingCopyLabel: label });
+        } catch (error) {
+            if (selection.length === 1 || isCancellation(error)) {
+                throw error;
             }
-            continue;
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            outputChannel.appendLine(`Error searching ${label}: ${errorMessage}`);
+            vscode.window.showWarningMessage(`Could not search ${label}: ${errorMessage}`);
+            firstError = firstError ?? error;
         }
+    }
+    if (searches.length === 0 && firstError) {
+        throw firstError;
+    }
+    return searches;
+}
 
-        // Parse changed files
-        if (line.startsWith('Changed paths:')) {
-            inMessage = false;
-            continue;
+/**
+ * Returns the search that found changesets, asking which one if several working
+ * copies have some. Shows a message and returns `undefined` if none has.
+ */
+async function pickTicketSearch(searches: TicketSearch[], ticketLabel: string): Promise<TicketSearch | undefined> {
+    const found = searches.filter(search => search.result.changesets.length > 0);
+    if (found.length <= 1) {
+        if (found.length === 0) {
+            vscode.window.showInformationMessage(`No changesets found for ${ticketLabel}`);
         }
+        return found[0];
+    }
+    const choice = await vscode.window.showQuickPick(found.map(search => ({
+        label: search.workingCopyLabel,
+        description: `${search.result.changesets.length} changesets`,
+        detail: search.client.cwd,
+        search
+    })), { placeHolder: `${ticketLabel} has changesets in several working copies; choose one` });
+    return choice?.search;
+}
 
-        if (line.startsWith('   ')) {
-            const fileMatch = line.match(/\s*([A-Z])\s+(.+)/);
-            if (fileMatch) {
-                currentChangeset.files?.push(fileMatch[2]);
+/** Formats the changesets of a search as Markdown, grouped by ticket, with tickets at heading `level`. */
+function formatChangesetSummary(result: TicketSearchResult, level: number): string {
+    const grouped = result.tickets.length > 1;
+    const heading = (depth: number) => '#'.repeat(depth);
+    let summaryContent = '';
+    for (const [ticket, ticketChangesets] of result.changesetsByTicket) {
+        if (grouped) {
+            summaryContent += `${heading(level)} Ticket ${formatTicket(ticket)}\n\n`;
+        }
+        if (ticketChangesets.length === 0) {
+            summaryContent += `No changesets found.\n\n`;
+        }
+        for (const changeset of ticketChangesets) {
+            summaryContent += `${heading(grouped ? level + 1 : level)} ${formatRevisionTitle(changeset)}\n\n`;
+            summaryContent += `**Author:** ${changeset.author}\n\n`;
+            summaryContent += `**Date:** ${changeset.date}\n\n`;
+            const branch = result.branches.get(changeset.revision);
+            if (branch) {
+                summaryContent += `**Branch:** ${branch} (${formatMergeStatus(result.mergeStatus.get(changeset.revision))})\n\n`;
             }
-            continue;
+            summaryContent += `**Message:**\n\`\`\`\n${changeset.message}\n\`\`\`\n\n`;
+            summaryContent += `**Changed Files:**\n\`\`\`\n${changeset.paths.map(formatChangedPath).join('\n')}\n\`\`\`\n\n`;
+            summaryContent += `---\n\n`;
         }
+    }
+    return summaryContent;
+}
 
-        // Parse commit message
-        if (line.trim() === '') {
-            inMessage = true;
-            continue;
-        }
+/** Reads the timeout and output limit of SVN and Git commands, given in seconds and megabytes. */
+function processLimits(config: vscode.WorkspaceConfiguration): ProcessLimits {
+    const timeout = config.get<number>('commandTimeout');
+    const maxOutputSize = config.get<number>('maxOutputSize');
+    return {
+        timeout: timeout === undefined ? DEFAULT_PROCESS_LIMITS.timeout : Math.max(timeout, 0) * 1000,
+        maxBuffer: maxOutputSize === undefined ? DEFAULT_PROCESS_LIMITS.maxBuffer : Math.max(maxOutputSize, 0) * 1024 * 1024
+    };
+}
 
-        if (inMessage) {
-            messageLines.push(line.trim());
-        }
+/**
+ * Searches the configured locations (or the working copy) for the tickets and
+ * determines which of the found revisions are on the checked-out branch.
+ */
+async function findTicketChangesets(client: VcsProvider, tickets: string[]): Promise<TicketSearchResult> {
+    const config = vscode.workspace.getConfiguration('ticketChangesetsViewer');
+    const patterns = getTicketPatterns(config);
+    const configuredLocations = config.get<string[]>('searchLocations') ?? [];
+    const indexed = ticketIndex.isReadyFor(indexSignature(client, config));
+    if (indexed) {
+        outputChannel.appendLine(`Searching the ticket index (${ticketIndex.revisionCount} revisions)`);
+        // Pick up revisions committed since, for the next search
+        updateTicketIndex(false);
+    }
+    // Search locations are SVN repository paths; Git clones search the history of HEAD
+    if (configuredLocations.length === 0 || !(client instanceof SvnClient)) {
+        return indexed ? ticketIndex.search(tickets, patterns) : searchTickets(client, tickets, patterns);
     }
 
-    // Add the last changeset if it matches
-    if (currentChangeset.revision && messageLines.length > 0) {
-        currentChangeset.message = messageLines.join('\n');
-        if (currentChangeset.message.includes(`#${ticketId}`)) {
-            changesets.push(currentChangeset as Changeset);
-        }
+    let result: TicketSearchResult;
+    if (indexed) {
+        result = ticketIndex.search(tickets, patterns);
+    } else {
+        const locations = await resolveSearchLocations(client, configuredLocations);
+        outputChannel.appendLine(`Searching locations: ${locations.join(', ')}`);
+        result = await searchTickets(client, tickets, patterns, locations);
+    }
+
+    const currentBranch = workingCopyLocation(await client.info());
+    result.mergeStatus = await getMergeStatus(client, result.branches, currentBranch, (branch, error) => {
+        outputChannel.appendLine(`Could not read mergeinfo from ${branch}: ${error}`);
+    });
+    return result;
+}
+
+/**
+ * Resolves the tickets a command was invoked for (sidebar node, argument or input
+ * box) and searches their changesets. Returns `undefined` if cancelled or nothing was found.
+ */
+async function searchForCommand(target?: string[] | TicketNode): Promise<TicketSearch | undefined> {
+    const selection = await selectedWorkingCopies();
+    if (selection.length === 0) {
+        return undefined;
+    }
+
+    const tickets = target instanceof TicketNode ? [target.ticket] : Array.isArray(target) ? target : await promptForTickets();
+    if (!tickets) {
+        return undefined;
     }
+    const ticketLabel = tickets.map(formatTicket).join(', ');
 
-    return changesets;
+    const searches = await withCancellableProgress(`Fetching changesets for ${ticketLabel}`, progress => searchWorkingCopies(selection, tickets, progress));
+    return searches && pickTicketSearch(searches, ticketLabel);
 }
 
-function extractChangedFilesFromLog(logOutput: string): string[] {
-    const changedFiles: string[] = [];
-    const lines = logOutput.split('\n');
-    let inChangedPaths = false;
-    
-    outputChannel.appendLine(`Parsing log output for changed files:\n${logOutput}`);
-    
-    for (let i = 0; i < lines.length; i++) {
-        const line = lines[i].trim();
-        
-        if (line.startsWith('Changed paths:')) {
-            inChangedPaths = true;
-            continue;
+/**
+ * Asks for one or more ticket IDs, suggesting tickets from the index for the one
+ * being typed. Returns `undefined` if the user cancelled.
+ */
+async function promptForTickets(): Promise<string[] | undefined> {
+    const quickPick = vscode.window.createQuickPick<vscode.QuickPickItem & { value: string }>();
+    quickPick.title = 'Enter one or more ticket IDs (e.g., 52438, 52440 or PROJ-1234)';
+    quickPick.placeholder = '52438';
+
+    const updateItems = () => {
+        const value = quickPick.value;
+        if (!value.trim()) {
+            quickPick.items = [];
+            return;
         }
-        
-        if (inChangedPaths) {
-            // If we hit a separator line or empty line, we're done with changed paths
-            if (line.startsWith('---') || line === '') {
-                inChangedPaths = false;
-                continue;
+        // Suggestions complete the last ticket of the input
+        const partial = /[^\s,;]*$/.exec(value)?.[0] ?? '';
+        const typed = value.slice(0, value.length - partial.length);
+        const suggestions = partial ? ticketIndex.suggest(partial) : [];
+        quickPick.items = [
+            { label: value, description: validateTicketInput(value) ?? 'Search', value, alwaysShow: true },
+            ...suggestions
+                .map(summary => ({
+                    label: `${typed}${formatTicket(summary.ticket)}`,
+                    description: `${summary.revisions.length} revision${summary.revisions.length === 1 ? '' : 's'}, latest ${formatRevision(summary.latest)} by ${summary.latest.author}`,
+                    detail: summary.latest.message.split('\n')[0],
+                    value: `${typed}${formatTicket(summary.ticket)}`,
+                    alwaysShow: true
+                }))
+                .filter(item => item.value !== value)
+        ];
+    };
+
+    return new Promise(resolve => {
+        quickPick.onDidChangeValue(updateItems);
+        quickPick.onDidAccept(() => {
+            const value = quickPick.selectedItems[0]?.value ?? quickPick.value;
+            if (validateTicketInput(value)) {
+                return; // The first item shows why the input is invalid
             }
-            
-            // Skip lines that don't start with whitespace followed by a letter (A/M/D)
-            if (!line.match(/^\s*[AMD]/)) {
-                continue;
+            resolve(parseTicketInput(value));
+            quickPick.hide();
+        });
+        quickPick.onDidHide(() => {
+            resolve(undefined);
+            quickPick.dispose();
+        });
+        quickPick.show();
+    });
+}
+
+/** Identifies what the ticket index is built from: working copy, locations and patterns. */
+function indexSignature(client: VcsProvider, config: vscode.WorkspaceConfiguration): string {
+    return JSON.stringify([
+        client.cwd,
+        config.get<string[]>('searchLocations') ?? [],
+        config.get<string[]>('ticketPatterns') ?? DEFAULT_TICKET_PATTERNS
+    ]);
+}
+
+function resetTicketIndex(context: vscode.ExtensionContext): TicketIndex {
+    ticketIndex.dispose();
+    const index = new TicketIndex();
+    context.subscriptions.push(index);
+    return index;
+}
+
+/**
+ * Builds the ticket index in the background, or brings it up to date. With the
+ * revision cache, and in Git clones, only revisions committed since the last update are fetched.
+ * Unless `interactive`, failures are only logged (e.g. when working offline).
+ */
+function updateTicketIndex(interactive: boolean): Thenable<void> {
+    if (indexUpdate) {
+        return indexUpdate;
+    }
+    const update = vscode.window.withProgress({
+        location: vscode.ProgressLocation.Window,
+        title: 'Indexing tickets'
+    }, async (progress) => {
+        try {
+            const client = await createVcsClient(interactive);
+            if (!client) {
+                return;
             }
-            
-            // Various formats of changed path lines:
-            // "   M /trunk/path/to/file.cs"
-            // "M /trunk/path/to/file.cs" 
-            // "M trunk/path/to/file.cs"
-            const fileMatch = line.match(/\s*([AMD])\s+\/?(.+)/);
-            if (fileMatch) {
-                const changeType = fileMatch[1]; // A, M, or D
-                const filePath = fileMatch[2];  // path without leading slash
-                
-                outputChannel.appendLine(`Found changed file: ${changeType} ${filePath}`);
-                changedFiles.push(filePath);
+            const config = vscode.workspace.getConfiguration('ticketChangesetsViewer');
+            const configuredLocations = config.get<string[]>('searchLocations') ?? [];
+            const locations = configuredLocations.length > 0 && client instanceof SvnClient ? await resolveSearchLocations(client, configuredLocations) : undefined;
+            const index = ticketIndex;
+            await index.build(client, getTicketPatterns(config), locations, indexSignature(client, config), progress);
+            outputChannel.appendLine(`Indexed ${index.ticketCount} tickets in ${index.revisionCount} revisions`);
+            if (interactive) {
+                vscode.window.showInformationMessage(`Indexed ${index.ticketCount} tickets in ${index.revisionCount} revisions`);
+            }
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            outputChannel.appendLine(`Could not update the ticket index: ${errorMessage}`);
+            if (interactive) {
+                vscode.window.showErrorMessage(`Could not update the ticket index: ${errorMessage}`);
             }
         }
-    }
-    
-    outputChannel.appendLine(`Extracted ${changedFiles.length} changed files: ${changedFiles.join(', ')}`);
-    return changedFiles;
+    }).then(() => {
+        indexUpdate = undefined;
+    });
+    indexUpdate = update;
+    return update;
 }
 
-async function generateWebviewContent(
-    changesets: Changeset[], 
-    workingDir: string, 
-    svnPath: string, 
-    ticketId: string
-): Promise<string> {
-    // Create the HTML structure
-    let html = `
-        <!DOCTYPE html>
-        <html lang="en">
-        <head>
-            <meta charset="UTF-8">
-            <meta name="viewport" content="width=device-width, initial-scale=1.0">
-            <title>Ticket #${ticketId} Changesets</title>
-            <style>
-                body {
-                    font-family: var(--vscode-font-family);
-                    color: var(--vscode-foreground);
-                    background-color: var(--vscode-editor-background);
-                    padding: 20px;
-                }
-                .changeset {
-                    margin-bottom: 30px;
-                    border: 1px solid var(--vscode-panel-border);
-                    border-radius: 5px;
-                    padding: 15px;
-                }
-                .changeset-header {
-                    margin-bottom: 15px;
-                }
-                .changeset-title {
-                    font-size: 1.2em;
-                    font-weight: bold;
-                    margin-bottom: 5px;
-                }
-                .changeset-meta {
-                    font-size: 0.9em;
-                    color: var(--vscode-descriptionForeground);
-                    margin-bottom: 10px;
-                }
-                .changeset-message {
-                    background-color: var(--vscode-textBlockQuote-background);
-                    padding: 10px;
-                    border-radius: 3px;
-                    margin-bottom: 15px;
-                    white-space: pre-wrap;
-                }
-                .changeset-files {
-                    margin-bottom: 15px;
-                    font-family: var(--vscode-editor-font-family);
-                    font-size: var(--vscode-editor-font-size);
-                }
-                .diff {
-                    background-color: var(--vscode-diffEditor-diagonalFill);
-                    border-radius: 3px;
-                    padding: 10px;
-                    overflow: auto;
-                    font-family: var(--vscode-editor-font-family);
-                    font-size: var(--vscode-editor-font-size);
-                    white-space: pre;
-                    max-height: 500px;
-                }
-                .diff-toggle {
-                    margin-bottom: 10px;
-                    cursor: pointer;
-                    color: var(--vscode-button-foreground);
-                    background-color: var(--vscode-button-background);
-                    padding: 5px 10px;
-                    border-radius: 3px;
-                    border: none;
-                    display: inline-block;
-                    margin-right: 10px;
-                }
-                .diff-toggle:hover {
-                    background-color: var(--vscode-button-hoverBackground);
-                }
-                .diff-container {
-                    display: none;
-                }
-                .diff-container.active {
-                    display: block;
-                }
-                .file {
-                    margin-bottom: 5px;
-                }
-                .add {
-                    color: var(--vscode-gitDecoration-addedResourceForeground);
-                }
-                .delete {
-                    color: var(--vscode-gitDecoration-deletedResourceForeground);
-                }
-                .modify {
-                    color: var(--vscode-gitDecoration-modifiedResourceForeground);
-                }
-                .button-container {
-                    margin-bottom: 10px;
-                }
-                .top-actions {
-                    margin-bottom: 20px;
-                }
-            </style>
-        </head>
-        <body>
-            <h1>Changesets for Ticket #${ticketId}</h1>
-            <p>Found ${changesets.length} changesets associated with this ticket.</p>
-            
-            <div class="top-actions">
-                <button class="diff-toggle" onclick="showUnifiedDiff()">View Unified Diff (All Changes)</button>
-            </div>
-            
-            <div id="changesets">
-    `;
-
-    // Sort changesets by revision number (newest first)
-    changesets.sort((a, b) => parseInt(b.revision) - parseInt(a.revision));
-
-    // Add each changeset to the HTML
-    for (const [index, changeset] of changesets.entries()) {
-        html += `
-            <div class="changeset">
-                <div class="changeset-header">
-                    <div class="changeset-title">Revision ${changeset.revision}</div>
-                    <div class="changeset-meta">
-                        <div>Author: ${changeset.author}</div>
-                        <div>Date: ${changeset.date}</div>
-                    </div>
-                </div>
-                <div class="changeset-message">${changeset.message}</div>
-                <div class="changeset-files">
-                    <div>Changed files:</div>
-        `;
-
-        // Add file list with formatting based on change type
-        for (const file of changeset.files) {
-            const changeType = file.charAt(0);
-            let cssClass = '';
-            if (changeType === 'A') cssClass = 'add';
-            else if (changeType === 'D') cssClass = 'delete';
-            else if (changeType === 'M') cssClass = 'modify';
-            
-            html += `<div class="file ${cssClass}">${file}</div>`;
-        }
+/**
+ * Asks for criteria such as `author:alice since:2024-01-01 path:/trunk/src`, lists
+ * the indexed tickets with matching revisions and opens the chosen one.
+ */
+async function queryTicketIndex(): Promise<void> {
+    const client = await createVcsClient();
+    if (!client) {
+        return;
+    }
+    if (!ticketIndex.isReadyFor(indexSignature(client, vscode.workspace.getConfiguration('ticketChangesetsViewer')))) {
+        await updateTicketIndex(true);
+    }
 
-        html += `
-                </div>
-                <div class="button-container">
-                    <button class="diff-toggle" id="button-${index}" onclick="toggleDiff('${changeset.revision}', ${index})">Show Diff</button>
-                    <button class="diff-toggle" onclick="openInDiffEditor('${changeset.revision}')">Open in Diff Editor</button>
-                </div>
-                <div id="diff-${index}" class="diff-container">
-                    <div class="diff">Loading diff...</div>
-                </div>
-            </div>
-        `;
+    const input = await vscode.window.showInputBox({
+        prompt: 'Query the ticket index by ticket, author:, since:, until: and path: (dates as YYYY-MM-DD)',
+        placeHolder: 'author:alice since:2024-01-01 path:/trunk/src'
+    });
+    if (input === undefined) {
+        return; // User cancelled
     }
 
-    // Close the HTML structure and add JavaScript for interactivity
-    html += `
-            </div>
-            <script>
-                const vscode = acquireVsCodeApi();
-                
-                function toggleDiff(revision, index) {
-                    const diffContainer = document.getElementById('diff-' + index);
-                    const button = document.getElementById('button-' + index);
-                    
-                    if (diffContainer.classList.contains('active')) {
-                        diffContainer.classList.remove('active');
-                        button.textContent = 'Show Diff';
-                    } else {
-                        diffContainer.classList.add('active');
-                        button.textContent = 'Hide Diff';
-                        
-                        // Only load diff if it hasn't been loaded yet
-                        const diffContent = diffContainer.querySelector('.diff');
-                        if (diffContent.textContent === 'Loading diff...') {
-                            console.log('Sending loadDiff message for revision ' + revision);
-                            vscode.postMessage({
-                                command: 'loadDiff',
-                                revision: revision,
-                                index: index
-                            });
-                        }
-                    }
-                }
-                
-                function openInDiffEditor(revision) {
-                    console.log('Opening revision ' + revision + ' in VS Code diff editor');
-                    vscode.postMessage({
-                        command: 'openInDiffEditor',
-                        revision: revision
-                    });
-                }
-                
-                function showUnifiedDiff() {
-                    console.log('Creating unified diff across all revisions');
-                    vscode.postMessage({
-                        command: 'showUnifiedDiff'
-                    });
-                }
-                
-                window.addEventListener('message', event => {
-                    const message = event.data;
-                    console.log('Received message:', message);
-                    
-                    if (message.command === 'diffLoaded') {
-                        const diffContainer = document.getElementById('diff-' + message.index);
-                        const diffContent = diffContainer.querySelector('.diff');
-                        diffContent.textContent = message.diff;
-                        
-                        // Apply syntax highlighting (basic)
-                        diffContent.innerHTML = diffContent.textContent
-                            .replace(/^\\+.*$/gm, '<span style="color: var(--vscode-gitDecoration-addedResourceForeground);">$&</span>')
-                            .replace(/^-.*$/gm, '<span style="color: var(--vscode-gitDecoration-deletedResourceForeground);">$&</span>')
-                            .replace(/^@@.*@@/gm, '<span style="color: var(--vscode-editorInfo-foreground);">$&</span>');
-                    }
-                });
-            </script>
-        </body>
-        </html>
-    `;
+    const changesets = ticketIndex.query(parseIndexQuery(input));
+    const summaries = ticketIndex.ticketsOf(changesets);
+    outputChannel.appendLine(`Ticket index query '${input}' matched ${changesets.length} revisions of ${summaries.length} tickets`);
+    if (summaries.length === 0) {
+        vscode.window.showInformationMessage(`No indexed tickets match '${input}'`);
+        return;
+    }
 
-    return html;
+    const choice = await vscode.window.showQuickPick(summaries.map(summary => {
+        const revisions = changesets.filter(changeset => summary.revisions.includes(changeset.revision));
+        return {
+            label: formatTicket(summary.ticket),
+            description: `${revisions.length} matching revision${revisions.length === 1 ? '' : 's'}: ${revisions.map(formatRevision).join(', ')}`,
+            detail: summary.latest.message.split('\n')[0],
+            ticket: summary.ticket
+        };
+    }), { placeHolder: `${summaries.length} tickets match '${input}'`, matchOnDescription: true, matchOnDetail: true });
+    if (choice) {
+        await vscode.commands.executeCommand('ticket-changesets-viewer.showChanges', [choice.ticket]);
+    }
 }
 
-async function getSvnInfo(workingDir: string, svnPath: string): Promise<SvnInfo> {
-    try {
-        const { stdout } = await execAsync(`${svnPath} info --xml`, { cwd: workingDir });
-        
-        // Parse XML output
-        const repoRootMatch = stdout.match(/<root>([^<]+)<\/root>/);
-        const wcPathMatch = stdout.match(/<wcroot-abspath>([^<]+)<\/wcroot-abspath>/);
-        const urlMatch = stdout.match(/<url>([^<]+)<\/url>/);
-        
-        if (!repoRootMatch || !wcPathMatch || !urlMatch) {
-            throw new Error('Could not parse SVN info output');
-        }
-        
-        const repositoryRoot = repoRootMatch[1];
-        const workingCopyPath = wcPathMatch[1];
-        const url = urlMatch[1];
-        
-        // Calculate the relative prefix by comparing the URL with the repository root
-        const relativePrefix = url.substring(repositoryRoot.length).replace(/^\/+/, '');
-        
-        outputChannel.appendLine(`Repository root: ${repositoryRoot}`);
-        outputChannel.appendLine(`Working copy path: ${workingCopyPath}`);
-        outputChannel.appendLine(`URL: ${url}`);
-        outputChannel.appendLine(`Relative prefix: ${relativePrefix}`);
-        
-        return { repositoryRoot, workingCopyPath, relativePrefix };
-    } catch (error) {
-        outputChannel.appendLine(`Error getting SVN info: ${error}`);
-        throw error;
+/**
+ * Lists the tickets referenced in the log of a file or directory and shows the
+ * chosen one's changesets, restricted to what they changed at or below it
+ * (under any name it had, following renames).
+ */
+async function showFileTickets(
+    uri: vscode.Uri,
+    show: (ticket: string, search: { client: VcsProvider; result: TicketSearchResult; ticketLabel: string }) => Promise<void>
+): Promise<void> {
+    const client = await workingCopies.clientFor(uri.fsPath);
+    if (!client) {
+        vscode.window.showWarningMessage(`${uri.fsPath} is not in an SVN working copy or Git clone of the workspace`);
+        return;
     }
+    const name = path.basename(uri.fsPath);
+    const patterns = getTicketPatterns(vscode.workspace.getConfiguration('ticketChangesetsViewer'));
+
+    const history = await withCancellableProgress(`Fetching the history of ${name}`, async () => {
+        const repositoryPath = await client.repositoryPath(uri.fsPath);
+        return { repositoryPath, log: await client.log({ target: await client.pegUrl(repositoryPath, 'HEAD') }) };
+    });
+    if (!history) {
+        return;
+    }
+    const { repositoryPath, log } = history;
+    const summaries = ticketsInHistory(log, patterns);
+    outputChannel.appendLine(`Found ${summaries.length} tickets in ${log.length} revisions of ${repositoryPath}`);
+    if (summaries.length === 0) {
+        vscode.window.showInformationMessage(`No tickets found in the history of ${name}`);
+        return;
+    }
+
+    const choice = await vscode.window.showQuickPick(summaries.map(summary => ({
+        label: formatTicket(summary.ticket),
+        description: `${summary.revisions.length} revision${summary.revisions.length === 1 ? '' : 's'}, latest ${summary.latest.date.substring(0, 10)} by ${summary.latest.author}`,
+        detail: summary.latest.message.split('\n')[0],
+        ticket: summary.ticket
+    })), { placeHolder: `${summaries.length} tickets changed ${name}`, matchOnDescription: true, matchOnDetail: true });
+    if (!choice) {
+        return;
+    }
+
+    const ticketLabel = `${formatTicket(choice.ticket)} in ${name}`;
+    const result = await withCancellableProgress(`Fetching changesets for ${formatTicket(choice.ticket)}`, () => findTicketChangesets(client, [choice.ticket]));
+    if (!result) {
+        return;
+    }
+    const filtered = filterResultToPaths(result, historyPaths(log, repositoryPath));
+    outputChannel.appendLine(`${filtered.changesets.length} of ${result.changesets.length} changesets of ${formatTicket(choice.ticket)} changed ${repositoryPath}`);
+    if (filtered.changesets.length === 0) {
+        vscode.window.showInformationMessage(`No changesets of ${formatTicket(choice.ticket)} found for ${name}`);
+        return;
+    }
+    await show(choice.ticket, { client, result: filtered, ticketLabel });
 }
 
-function adjustFilePath(filePath: string, svnInfo: SvnInfo): string {
-    // Remove leading slash if present
-    let adjustedPath = filePath.startsWith('/') ? filePath.substring(1) : filePath;
-    
-    // Get the repository structure prefix from the SVN info
-    const relativePrefix = svnInfo.relativePrefix;
-    outputChannel.appendLine(`Repository relative prefix: ${relativePrefix}`);
-    
-    // If the path starts with the exact relative prefix, remove it
-    if (relativePrefix && adjustedPath.startsWith(relativePrefix + '/')) {
-        adjustedPath = adjustedPath.substring(relativePrefix.length + 1);
-        outputChannel.appendLine(`Removed exact prefix: ${adjustedPath}`);
-    } else {
-        // If not an exact match, try to find and remove any repository structure prefix
-        // This handles cases where the file path includes trunk/, branches/, tags/, or custom paths
-        const pathParts = adjustedPath.split('/');
-        const workingCopyParts = relativePrefix.split('/');
-        
-        // If the first part matches any part of the working copy path, remove it
-        if (workingCopyParts.includes(pathParts[0])) {
-            adjustedPath = pathParts.slice(1).join('/');
-            outputChannel.appendLine(`Removed repository prefix '${pathParts[0]}': ${adjustedPath}`);
+/**
+ * Searches the changesets of two or more tickets and shows where they touch the
+ * same files and lines, flagging the pairs likely to conflict when merged separately.
+ * Only the revisions changing files shared with another ticket are diffed.
+ */
+async function compareTicketChanges(requestedTickets?: string[]): Promise<void> {
+    const selection = await selectedWorkingCopies();
+    if (selection.length === 0) {
+        return;
+    }
+    const tickets = requestedTickets ?? await promptForTickets();
+    if (!tickets) {
+        return;
+    }
+    if (tickets.length < 2) {
+        vscode.window.showWarningMessage('Enter at least two ticket IDs to compare');
+        return;
+    }
+    const ticketLabel = tickets.map(formatTicket).join(', ');
+
+    const searches = await withCancellableProgress(`Fetching changesets for ${ticketLabel}`, progress => searchWorkingCopies(selection, tickets, progress));
+    const search = searches && await pickTicketSearch(searches, ticketLabel);
+    if (!search) {
+        return;
+    }
+
+    const { client, result } = search;
+    const comparison = await withCancellableProgress(`Comparing ${search.ticketLabel}`, async progress => {
+        const ticketsByFile = new Map<string, Set<string>>();
+        for (const [ticket, changesets] of result.changesetsByTicket) {
+            for (const changedPath of changesets.flatMap(changeset => changeset.paths)) {
+                ticketsByFile.set(changedPath.path, (ticketsByFile.get(changedPath.path) ?? new Set()).add(ticket));
+            }
         }
+        const touchesSharedFile = result.changesets.filter(changeset =>
+            changeset.paths.some(changedPath => changedPath.kind !== 'dir' && (ticketsByFile.get(changedPath.path)?.size ?? 0) > 1));
+        outputChannel.appendLine(`${touchesSharedFile.length} of ${result.changesets.length} changesets for ${search.ticketLabel} change shared files`);
+
+        const diffs = await collectRevisionDiffs(client, touchesSharedFile, (done, total) => {
+            progress.report({ message: `Fetching diffs (${done}/${total})...` });
+        });
+        return compareTickets(result.changesetsByTicket, diffs);
+    });
+    if (!comparison) {
+        return;
     }
-    
-    outputChannel.appendLine(`Adjusted path from '${filePath}' to '${adjustedPath}'`);
-    return adjustedPath;
+
+    for (const pair of comparison.pairs) {
+        outputChannel.appendLine(`${pair.tickets.map(formatTicket).join(' and ')}: ${pair.risk} conflict risk, ${pair.sharedFiles.length} shared files, ${pair.overlaps.length} overlapping hunks`);
+    }
+    showTicketComparison(comparison);
+}
+
+function getTicketPatterns(config: vscode.WorkspaceConfiguration): RegExp[] {
+    const sources = config.get<string[]>('ticketPatterns') ?? DEFAULT_TICKET_PATTERNS;
+    return compileTicketPatterns(sources, (source, reason) => {
+        outputChannel.appendLine(`Ignoring invalid ticket pattern '${source}': ${reason}`);
+        vscode.window.showWarningMessage(`Ignoring invalid ticket pattern '${source}': ${reason}`);
+    });
 }
 
 export function deactivate() {} 
\ No newline at end of file
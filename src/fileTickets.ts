@@ -0,0 +1,77 @@
+import { ChangedPath, Changeset, isWithinPath } from './svn';
+import { TicketSearchResult, findTicketReferences } from './tickets';
+import { TicketSummary } from './ticketIndex';
+import { DiffFile } from './unifiedDiff';
+
+/** Returns the tickets referenced in the log of a file or directory, most recently changed first. */
+export function ticketsInHistory(changesets: Changeset[], patterns: RegExp[]): TicketSummary[] {
+    const byTicket = new Map<string, Changeset[]>();
+    for (const changeset of changesets) {
+        for (const ticket of findTicketReferences(changeset.message, patterns)) {
+            byTicket.set(ticket, [...byTicket.get(ticket) ?? [], changeset]);
+        }
+    }
+    return Array.from(byTicket, ([ticket, ticketChangesets]) => {
+        const sorted = ticketChangesets.sort((a, b) => b.revision - a.revision);
+        return { ticket, revisions: sorted.map(changeset => changeset.revision), latest: sorted[0] };
+    }).sort((a, b) => b.latest.revision - a.latest.revision);
+}
+
+/**
+ * Returns the repository paths a file or directory had in its log, starting with
+ * `repositoryPath`: following the log back from the newest entry, the source of
+ * every copy or rename onto one of the paths is added.
+ */
+export function historyPaths(changesets: Changeset[], repositoryPath: string): string[] {
+    const paths = [repositoryPath];
+    for (const changeset of [...changesets].sort((a, b) => b.revision - a.revision)) {
+        for (const changedPath of changeset.paths) {
+            if (!changedPath.copyFromPath) {
+                continue;
+            }
+            for (const known of [...paths]) {
+                // The copied node itself, or a directory containing it
+                if (isWithinPath(known, changedPath.path)) {
+                    const source = changedPath.copyFromPath + known.substring(changedPath.path.length);
+                    if (!paths.includes(source)) {
+                        paths.push(source);
+                    }
+                }
+            }
+        }
+    }
+    return paths;
+}
+
+/**
+ * Restricts a search result to `paths`: only changesets that changed something
+ * at or below one of them are kept, listing only those changed paths. The paths
+ * are kept in the result, so the panel's diffs cover just the file or directory.
+ */
+export function filterResultToPaths(result: TicketSearchResult, paths: string[]): TicketSearchResult {
+    const touches = (changedPath: ChangedPath) => paths.some(filterPath => isWithinPath(changedPath.path, filterPath));
+    const filtered = new Map<number, Changeset>();
+    for (const changeset of result.changesets) {
+        const changedPaths = changeset.paths.filter(touches);
+        if (changedPaths.length > 0) {
+            filtered.set(changeset.revision, { ...changeset, paths: changedPaths });
+        }
+    }
+
+    const changesetsByTicket = new Map<string, Changeset[]>();
+    for (const [ticket, changesets] of result.changesetsByTicket) {
+        changesetsByTicket.set(ticket, changesets.flatMap(changeset => filtered.get(changeset.revision) ?? []));
+    }
+    return { ...result, changesets: Array.from(filtered.values()), changesetsByTicket, paths };
+}
+
+/**
+ * Keeps the files of a diff of the whole repository (paths relative to its root,
+ * e.g. `trunk/src/main.c`) that are at or below one of the repository `paths`.
+ */
+export function filterDiffToPaths(files: DiffFile[], paths: string[]): DiffFile[] {
+    return files.filter(file => {
+        const repositoryPath = file.path.startsWith('/') ? file.path : `/${file.path}`;
+        return paths.some(filterPath => isWithinPath(repositoryPath, filterPath));
+    });
+}
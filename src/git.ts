@@ -0,0 +1,403 @@
+import * as path from 'path';
+import { BlameLine, ChangedPath, Changeset, LogOptions } from './svn';
+import { VcsProvider } from './vcs';
+import { DEFAULT_PROCESS_LIMITS, ProcessLimits, VcsErrorKind, runProcess } from './process';
+
+/** The tree of an empty repository, which root commits are diffed against. */
+const EMPTY_TREE = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+
+/** The commit `git blame` reports for lines that are not committed yet. */
+const UNCOMMITTED = /^0+$/;
+
+const FIELD_SEPARATOR = '\x00';
+const RECORD_SEPARATOR = '\x1e';
+/** Hash, parents, author, author date and message of a commit, followed by its `--name-status` lines. */
+const LOG_FORMAT = ['%H', '%P', '%an', '%aI', '%B', ''].join('%x00');
+
+/** The revision number of each commit, and the commit of each revision number. */
+interface CommitNumbers {
+    byCommit: Map<string, number>;
+    byRevision: Map<number, string>;
+}
+
+/** A file in a commit, as addressed by `pegUrl`. */
+interface GitAddress {
+    /** Repository path with a leading slash; `/` for the whole tree. */
+    path: string;
+    commit: string;
+    /** The revision number the address was pegged at, unless `HEAD`. */
+    revision?: number;
+}
+
+/**
+ * `VcsProvider` for Git clones, on the `git` command line client.
+ *
+ * Commits are given revision numbers so they fit the model shared with SVN. In a
+ * `git svn` clone a commit's number is the SVN revision in its `git-svn-id` line,
+ * and commits not yet sent to SVN are left out. In other clones commits are
+ * numbered in date order across all refs, parents before children, and commits
+ * committed or fetched later are numbered after them, so a commit keeps its
+ * number for the session. Across sessions the numbers may differ, so those
+ * changesets carry their commit hash (`Changeset.commit`), which identifies them.
+ */
+export class GitClient implements VcsProvider {
+    readonly kind = 'git' as const;
+    private numbers?: Promise<CommitNumbers>;
+    /** The numbers given so far, which are kept when commits are numbered again. */
+    private numbered?: CommitNumbers;
+
+    constructor(
+        readonly gitPath: string,
+        readonly cwd: string,
+        readonly gitSvn: boolean,
+        readonly limits: ProcessLimits = DEFAULT_PROCESS_LIMITS
+    ) {}
+
+    /**
+     * Searches with `git log --grep` (fixed strings, case-insensitive); a commit
+     * matches if any search term occurs in its message. Without a target the
+     * history of `HEAD` is logged, as `svn log` logs the checked-out branch.
+     */
+    async log(options: LogOptions = {}): Promise<Changeset[]> {
+        const numbers = await this.getNumbers();
+        const address = options.target ? await this.resolveAddress(options.target) : { path: '/', commit: 'HEAD' };
+        const range = options.revision ? parseRevisionRange(options.revision) : undefined;
+
+        const args: string[] = [];
+        if (options.search && options.search.length > 0) {
+            args.push('-i', '-F', ...options.search.map(term => `--grep=${term}`));
+        }
+        if (range && range.start === range.end) {
+            const commit = numbers.byRevision.get(range.start);
+            if (!commit) {
+                return [];
+            }
+            args.push('--no-walk', commit);
+        } else if (options.after) {
+            // A commit dropped since, e.g. by a rebase, is ignored rather than failing the log
+            args.push('--ignore-missing', `^${options.after}`, address.commit);
+        } else {
+            args.push(address.commit);
+        }
+        if (address.path !== '/') {
+            // Follow the file back through renames, as `svn log` on a URL does
+            args.push('--follow', '--', address.path.substring(1));
+        }
+
+        let changesets = await this.logCommits(args);
+        if (range) {
+            const [low, high] = [Math.min(range.start, range.end), Math.max(range.start, range.end)];
+            changesets = changesets.filter(changeset => changeset.revision >= low && changeset.revision <= high);
+            if (range.start < range.end) {
+                changesets.reverse();
+            }
+        }
+        return options.limit !== undefined ? changesets.slice(0, options.limit) : changesets;
+    }
+
+    async getChangeset(revision: number): Promise<Changeset | undefined> {
+        const [changeset] = await this.log({ revision: String(revision) });
+        return changeset;
+    }
+
+    /** Returns the changesets of the commits with the given hashes, leaving out ones that no longer exist. */
+    async getCommits(commits: string[]): Promise<Changeset[]> {
+        return commits.length > 0 ? this.logCommits(['--no-walk', '--ignore-missing', ...commits]) : [];
+    }
+
+    /** Returns the hash of the checked-out commit. */
+    async head(): Promise<string> {
+        return (await this.run(['rev-parse', '--verify', 'HEAD'])).trim();
+    }
+
+    async getRepositoryRoot(): Promise<string> {
+        return '/';
+    }
+
+    /** Returns `path@revision`, resolved to a commit by `log`, `diff` and `cat`. */
+    async pegUrl(repositoryPath: string, revision: number | string): Promise<string> {
+        return `${normalizePath(repositoryPath)}@${revision}`;
+    }
+
+    /** Returns the path of `localPath` relative to the clone's root, with a leading slash. */
+    async repositoryPath(localPath: string): Promise<string> {
+        return normalizePath(path.relative(this.cwd, localPath).split(path.sep).join('/'));
+    }
+
+    /** Returns the diff of the commit of `revision` against its first parent (`git diff`). */
+    async diff(revision: number, target?: string): Promise<string> {
+        const commit = await this.commitOf(revision);
+        const [, parent] = (await this.run(['rev-list', '--parents', '-n', '1', commit])).trim().split(' ');
+        const args = ['diff', '-M', parent ?? EMPTY_TREE, commit];
+        const filePath = target ? parseAddress(target).path : '/';
+        if (filePath !== '/') {
+            args.push('--', filePath.substring(1));
+        }
+        return this.run(args);
+    }
+
+    /**
+     * Returns the file at `target` as of `revision` (`git show COMMIT:PATH`). For an
+     * earlier revision than the target's, the commit is the newest first-parent
+     * ancestor at or before it, and a file renamed in between is found by its old path.
+     */
+    async cat(target: string, revision: number | string): Promise<string> {
+        const address = await this.resolveAddress(target);
+        const filePath = address.path.substring(1);
+        const operative = Number(revision);
+        if (isNaN(operative) || operative === address.revision) {
+            return this.run(['show', `${address.commit}:${filePath}`]);
+        }
+
+        const commit = await this.ancestorAt(address.commit, operative);
+        try {
+            return await this.run(['show', `${commit}:${filePath}`]);
+        } catch (error) {
+            const originalPath = await this.renameSource(commit, address.commit, filePath);
+            if (!originalPath) {
+                throw error;
+            }
+            return this.run(['show', `${commit}:${originalPath}`]);
+        }
+    }
+
+    /**
+     * Returns who last changed each line of the working file at `filePath`
+     * (`git blame --porcelain`). Lines of commits without a revision number, such
+     * as ones not yet sent to SVN, are reported like uncommitted lines.
+     */
+    async blame(filePath: string): Promise<BlameLine[]> {
+        const output = await this.run(['blame', '--porcelain', '--', filePath]);
+        let numbers = await this.getNumbers();
+        const commits = new Map<string, { author?: string; date?: string }>();
+        const lines: { commit: string; line: number }[] = [];
+        let current: { author?: string; date?: string } = {};
+        for (const line of output.split('\n')) {
+            const header = /^([0-9a-f]{40}) \d+ (\d+)/.exec(line);
+            if (header) {
+                current = commits.get(header[1]) ?? {};
+                commits.set(header[1], current);
+                lines.push({ commit: header[1], line: parseInt(header[2], 10) });
+            } else if (line.startsWith('author ')) {
+                current.author = line.substring('author '.length);
+            } else if (line.startsWith('author-time ')) {
+                current.date = new Date(parseInt(line.substring('author-time '.length), 10) * 1000).toISOString();
+            }
+        }
+
+        if (!this.gitSvn && lines.some(({ commit }) => !UNCOMMITTED.test(commit) && !numbers.byCommit.has(commit))) {
+            // Committed or fetched since the commits were numbered
+            this.numbers = undefined;
+            numbers = await this.getNumbers();
+        }
+        return lines.map(({ commit, line }) => {
+            const revision = numbers.byCommit.get(commit);
+            return revision === undefined ? { line } : { line, revision, ...commits.get(commit) };
+        });
+    }
+
+    /** Runs `git log` with `args` and returns the changesets of the logged commits. */
+    private async logCommits(args: string[]): Promise<Changeset[]> {
+        let numbers = await this.getNumbers();
+        const output = await this.run(['log', '-M', '--name-status', `--format=%x1e${LOG_FORMAT}`, ...args]);
+        if (!this.gitSvn && Array.from(output.matchAll(/\x1e([0-9a-f]+)\x00/g)).some(match => !numbers.byCommit.has(match[1]))) {
+            // Committed or fetched since the commits were numbered
+            this.numbers = undefined;
+            numbers = await this.getNumbers();
+        }
+        return this.parseLog(output, numbers);
+    }
+
+    private async resolveAddress(target: string): Promise<GitAddress> {
+        const { path: filePath, revision } = parseAddress(target);
+        if (revision === undefined || revision === 'HEAD') {
+            return { path: filePath, commit: 'HEAD' };
+        }
+        const number = parseInt(revision, 10);
+        return { path: filePath, commit: await this.commitOf(number), revision: number };
+    }
+
+    private async commitOf(revision: number): Promise<string> {
+        let commit = (await this.getNumbers()).byRevision.get(revision);
+        if (!commit) {
+            // Possibly committed or fetched since the commits were numbered
+            this.numbers = undefined;
+            commit = (await this.getNumbers()).byRevision.get(revision);
+        }
+        if (!commit) {
+            throw new Error(`Revision ${revision} was not found in the Git history`);
+        }
+        return commit;
+    }
+
+    /** Returns the newest commit on the first-parent history of `commit` numbered at or before `revision`. */
+    private async ancestorAt(commit: string, revision: number): Promise<string> {
+        const numbers = await this.getNumbers();
+        const ancestors = (await this.run(['rev-list', '--first-parent', commit])).split('\n');
+        const ancestor = ancestors.find(hash => (numbers.byCommit.get(hash) ?? Infinity) <= revision);
+        if (!ancestor) {
+            throw new Error(`No revision at or before ${revision} in the history of ${commit}`);
+        }
+        return ancestor;
+    }
+
+    /** Returns the path `filePath` had in `from`, if it was renamed between `from` and `to`. */
+    private async renameSource(from: string, to: string, filePath: string): Promise<string | undefined> {
+        const fields = (await this.run(['diff', '-M', '--name-status', '-z', from, to])).split('\0');
+        for (let i = 0; i < fields.length; i++) {
+            if (fields[i].startsWith('R') && fields[i + 2] === filePath) {
+                return fields[i + 1];
+            }
+        }
+        return undefined;
+    }
+
+    private getNumbers(): Promise<CommitNumbers> {
+        if (!this.numbers) {
+            this.numbers = this.numberCommits();
+            this.numbers.catch(() => {
+                this.numbers = undefined;
+            });
+        }
+        return this.numbers;
+    }
+
+    private async numberCommits(): Promise<CommitNumbers> {
+        const previous = this.gitSvn ? undefined : this.numbered;
+        const numbers: CommitNumbers = { byCommit: new Map(previous?.byCommit), byRevision: new Map(previous?.byRevision) };
+        const add = (commit: string, revision: number) => {
+            numbers.byCommit.set(commit, revision);
+            numbers.byRevision.set(revision, commit);
+        };
+
+        if (this.gitSvn) {
+            const output = await this.run(['log', '--all', `--format=%H %(trailers:key=git-svn-id,valueonly,separator=%x20)`]);
+            for (const line of output.split('\n')) {
+                const match = /^([0-9a-f]+) \S+@(\d+) /.exec(line);
+                if (match) {
+                    add(match[1], parseInt(match[2], 10));
+                }
+            }
+        } else {
+            // New commits are numbered after the ones numbered before, which keep their numbers
+            let next = numbers.byRevision.size + 1;
+            const output = await this.run(['rev-list', '--all', '--date-order', '--reverse']);
+            output.split('\n')
+                .filter(commit => commit.length > 0 && !numbers.byCommit.has(commit))
+                .forEach(commit => add(commit, next++));
+        }
+        this.numbered = numbers;
+        return numbers;
+    }
+
+    private parseLog(output: string, numbers: CommitNumbers): Changeset[] {
+        const changesets: Changeset[] = [];
+        for (const record of output.split(RECORD_SEPARATOR).filter(record => record.trim().length > 0)) {
+            const [commit, parents, author, date, body, nameStatus] = record.split(FIELD_SEPARATOR);
+            const svnId = /^git-svn-id: \S+@(\d+) /m.exec(body);
+            const revision = this.gitSvn ? svnId && parseInt(svnId[1], 10) : numbers.byCommit.get(commit);
+            if (revision === undefined || revision === null) {
+                continue; // Not sent to SVN yet
+            }
+            if (!numbers.byCommit.has(commit)) {
+                // Fetched from SVN since the commits were numbered
+                numbers.byCommit.set(commit, revision);
+                numbers.byRevision.set(revision, commit);
+            }
+            const parentRevision = numbers.byCommit.get(parents.split(' ')[0]);
+            changesets.push({
+                revision,
+                ...this.gitSvn ? {} : { commit },
+                author,
+                date: new Date(date).toISOString(),
+                message: body.replace(/\n*^git-svn-id: .*$/m, '').trimEnd(),
+                paths: parseNameStatus(nameStatus ?? '', this.gitSvn ? parentRevision ?? revision - 1 : undefined)
+            });
+        }
+        return changesets;
+    }
+
+    private run(args: string[]): Promise<string> {
+        return runProcess(this.gitPath, ['-c', 'core.quotePath=false', ...args], {
+            cwd: this.cwd,
+            limits: this.limits,
+            classify: classifyGitError
+        });
+    }
+}
+
+/** Recognizes the kind of failure from the messages of `git`, which has no error codes. */
+function classifyGitError(stderr: string): VcsErrorKind {
+    if (/not a git repository/i.test(stderr)) {
+        return 'notWorkingCopy';
+    }
+    if (/does not exist in|exists on disk, but not in|unknown revision or path|bad revision|no such path|invalid object name/i.test(stderr)) {
+        return 'pathNotFound';
+    }
+    if (/authentication failed|could not read (username|password)|permission denied \(publickey/i.test(stderr)) {
+        return 'authRequired';
+    }
+    if (/could not resolve host|connection (refused|timed out)|unable to access|could not read from remote/i.test(stderr)) {
+        return 'network';
+    }
+    return 'failed';
+}
+
+/**
+ * Converts `--name-status` lines into changed paths the way SVN reports them: a
+ * rename is an add with history plus a delete of the old path, a copy an add with history.
+ * The history is the parent commit, given as `parentRevision` where its number is stable.
+ */
+function parseNameStatus(text: string, parentRevision?: number): ChangedPath[] {
+    const paths: ChangedPath[] = [];
+    for (const line of text.split('\n').filter(line => line.length > 0)) {
+        const [status, first, second] = line.split('\t');
+        const changedPath = (filePath: string, action: ChangedPath['action']): ChangedPath => ({
+            path: normalizePath(filePath),
+            action,
+            kind: 'file',
+            textModified: action !== 'D',
+            propertiesModified: false
+        });
+
+        switch (status[0]) {
+            case 'A':
+                paths.push(changedPath(first, 'A'));
+                break;
+            case 'D':
+                paths.push(changedPath(first, 'D'));
+                break;
+            case 'R':
+            case 'C':
+                paths.push({
+                    ...changedPath(second, 'A'),
+                    copyFromPath: normalizePath(first),
+                    ...parentRevision !== undefined ? { copyFromRevision: parentRevision } : {}
+                });
+                if (status[0] === 'R') {
+                    paths.push(changedPath(first, 'D'));
+                }
+                break;
+            default:
+                paths.push(changedPath(first, 'M'));
+        }
+    }
+    return paths;
+}
+
+/** Parses an SVN-style revision or range such as `1234`, `100:200` or `HEAD:1`. */
+function parseRevisionRange(revision: string): { start: number; end: number } {
+    const [start, end = start] = revision.split(':').map(part => part === 'HEAD' ? Infinity : parseInt(part, 10));
+    return { start, end };
+}
+
+function parseAddress(target: string): { path: string; revision?: string } {
+    const separator = target.lastIndexOf('@');
+    return separator < 0
+        ? { path: normalizePath(target) }
+        : { path: normalizePath(target.substring(0, separator)), revision: target.substring(separator + 1) };
+}
+
+function normalizePath(filePath: string): string {
+    return filePath.startsWith('/') ? filePath : `/${filePath}`;
+}
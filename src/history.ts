@@ -0,0 +1,75 @@
+import * as vscode from 'vscode';
+
+interface TicketHistoryState {
+    pinned: string[];
+    recent: string[];
+}
+
+const STATE_KEY = 'ticketChangesetsViewer.history';
+const MAX_RECENT_TICKETS = 20;
+
+/**
+ * Recently searched and pinned tickets, persisted per workspace.
+ * Pinned tickets are never evicted; recent tickets are capped and most recent first.
+ */
+export class TicketHistory {
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    readonly onDidChange = this.changeEmitter.event;
+
+    constructor(private readonly memento: vscode.Memento) {}
+
+    get pinned(): string[] {
+        return this.state.pinned;
+    }
+
+    get recent(): string[] {
+        return this.state.recent.filter(ticket => !this.state.pinned.includes(ticket));
+    }
+
+    isPinned(ticket: string): boolean {
+        return this.state.pinned.includes(ticket);
+    }
+
+    async add(tickets: string[]): Promise<void> {
+        const { pinned, recent } = this.state;
+        const updated = [...tickets, ...recent.filter(ticket => !tickets.includes(ticket))];
+        await this.update({ pinned, recent: updated.slice(0, MAX_RECENT_TICKETS) });
+    }
+
+    async pin(ticket: string): Promise<void> {
+        const { pinned, recent } = this.state;
+        if (!pinned.includes(ticket)) {
+            await this.update({ pinned: [...pinned, ticket], recent });
+        }
+    }
+
+    async unpin(ticket: string): Promise<void> {
+        const { pinned, recent } = this.state;
+        await this.update({
+            pinned: pinned.filter(t => t !== ticket),
+            recent: [ticket, ...recent.filter(t => t !== ticket)].slice(0, MAX_RECENT_TICKETS)
+        });
+    }
+
+    async remove(ticket: string): Promise<void> {
+        const { pinned, recent } = this.state;
+        await this.update({
+            pinned: pinned.filter(t => t !== ticket),
+            recent: recent.filter(t => t !== ticket)
+        });
+    }
+
+    /** Forgets all recent tickets. Pinned tickets are kept. */
+    async clear(): Promise<void> {
+        await this.update({ pinned: this.state.pinned, recent: [] });
+    }
+
+    private get state(): TicketHistoryState {
+        return this.memento.get<TicketHistoryState>(STATE_KEY, { pinned: [], recent: [] });
+    }
+
+    private async update(state: TicketHistoryState): Promise<void> {
+        await this.memento.update(STATE_KEY, state);
+        this.changeEmitter.fire();
+    }
+}
@@ -0,0 +1,365 @@
+import * as vscode from 'vscode';
+import { Changeset, SvnClient, encodeRepositoryPath } from './svn';
+import { TicketSearchResult } from './tickets';
+import { inferBranch, workingCopyLocation } from './branches';
+import { outputChannel } from './outputChannel';
+import { withCancellableProgress } from './cancellableProgress';
+
+/** One path reported by `svn merge`, e.g. `C    src/main.c` or `Skipped 'doc'`. */
+export interface MergeNotification {
+    path: string;
+    /** The status columns (content, properties, tree conflict), or `Skipped`. */
+    status: string;
+    conflicted: boolean;
+    skipped: boolean;
+}
+
+/** A single revision to merge: positive to cherry-pick, negative to reverse-merge. */
+export interface MergeStep {
+    changeset: Changeset;
+    /** Repository path of the branch the revision was committed on. */
+    source: string;
+    revision: number;
+}
+
+export interface MergeOutcome {
+    step: MergeStep;
+    notifications: MergeNotification[];
+    /** Set if `svn merge` failed, in which case the following steps were not run. */
+    error?: string;
+}
+
+/** Parses the notification lines of `svn merge` output, ignoring headers and the conflict summary. */
+export function parseMergeOutput(output: string): MergeNotification[] {
+    const notifications: MergeNotification[] = [];
+    for (const line of output.split(/\r?\n/)) {
+        const skipped = /^Skipped[^']*'(.+)'/.exec(line);
+        if (skipped) {
+            notifications.push({ path: skipped[1], status: 'Skipped', conflicted: false, skipped: true });
+            continue;
+        }
+        const match = /^([ ADUCGERB]{4}) (.+)$/.exec(line);
+        if (match && match[1].trim().length > 0) {
+            notifications.push({ path: match[2], status: match[1], conflicted: match[1].includes('C'), skipped: false });
+        }
+    }
+    return notifications;
+}
+
+/** Returns the distinct paths of `notifications` that matched `predicate`, sorted. */
+function pathsWhere(notifications: MergeNotification[], predicate: (notification: MergeNotification) => boolean): string[] {
+    return Array.from(new Set(notifications.filter(predicate).map(notification => notification.path))).sort();
+}
+
+/**
+ * Dry-runs the steps, grouping consecutive steps from the same source into one
+ * `svn merge --dry-run -c` so later revisions see the effect of earlier ones.
+ */
+export async function dryRunMerge(client: SvnClient, steps: MergeStep[]): Promise<MergeNotification[]> {
+    const repositoryRoot = await client.getRepositoryRoot();
+    const notifications: MergeNotification[] = [];
+    let start = 0;
+    while (start < steps.length) {
+        let end = start + 1;
+        while (end < steps.length && steps[end].source === steps[start].source) {
+            end++;
+        }
+        const sourceUrl = `${repositoryRoot}${encodeRepositoryPath(steps[start].source)}`;
+        const revisions = steps.slice(start, end).map(step => step.revision);
+        notifications.push(...parseMergeOutput(await client.merge(sourceUrl, revisions, { dryRun: true })));
+        start = end;
+    }
+    return notifications;
+}
+
+/** Runs the steps one by one, stopping at the first step `svn merge` refuses. */
+export async function applyMerge(
+    client: SvnClient,
+    steps: MergeStep[],
+    progress?: vscode.Progress<{ message?: string; increment?: number }>
+): Promise<MergeOutcome[]> {
+    const repositoryRoot = await client.getRepositoryRoot();
+    const outcomes: MergeOutcome[] = [];
+    for (const step of steps) {
+        progress?.report({ message: `r${Math.abs(step.revision)}`, increment: 100 / steps.length });
+        try {
+            const output = await client.merge(`${repositoryRoot}${encodeRepositoryPath(step.source)}`, [step.revision]);
+            outputChannel.appendLine(output.trimEnd());
+            outcomes.push({ step, notifications: parseMergeOutput(output) });
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            outputChannel.appendLine(`Error merging -c ${step.revision}: ${errorMessage}`);
+            outcomes.push({ step, notifications: [], error: errorMessage });
+            break;
+        }
+    }
+    return outcomes;
+}
+
+/**
+ * Offers to undo a merge by reverting every path it touched, plus the mergeinfo
+ * recorded on the working copy root. Files the merge added stay on disk unversioned.
+ */
+export async function offerMergeRevert(client: SvnClient, outcomes: MergeOutcome[], message: string, conflicted: boolean): Promise<void> {
+    const choice = conflicted
+        ? await vscode.window.showWarningMessage(message, 'Undo Merge', 'Show Details')
+        : await vscode.window.showInformationMessage(message, 'Undo Merge', 'Show Details');
+    if (choice === 'Show Details') {
+        outputChannel.show();
+        return;
+    }
+    if (choice !== 'Undo Merge') {
+        return;
+    }
+
+    const paths = pathsWhere(outcomes.flatMap(outcome => outcome.notifications), notification => !notification.skipped)
+        .filter(changedPath => changedPath !== '.');
+    const confirmation = await vscode.window.showWarningMessage(
+        `Revert ${paths.length} merged paths in the working copy? Local changes to them are lost.`,
+        { modal: true },
+        'Revert'
+    );
+    if (confirmation !== 'Revert') {
+        return;
+    }
+
+    try {
+        await client.revert(['.']);
+        if (paths.length > 0) {
+            await client.revert(paths, 'infinity');
+        }
+        outputChannel.appendLine(`Reverted ${paths.length} merged paths`);
+        vscode.window.showInformationMessage(`Reverted ${paths.length} merged paths`);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        outputChannel.appendLine(`Error reverting merge: ${errorMessage}`);
+        vscode.window.showErrorMessage(`Error reverting merge: ${errorMessage}`);
+    }
+}
+
+/** Asks before touching a working copy that already has local changes. */
+export async function confirmLocalChanges(client: SvnClient): Promise<boolean> {
+    const localChanges = await client.status();
+    if (localChanges.length === 0) {
+        return true;
+    }
+    const choice = await vscode.window.showWarningMessage(
+        `The working copy has ${localChanges.length} locally changed paths. Merged changes will be mixed with them.`,
+        { modal: true },
+        'Continue'
+    );
+    return choice === 'Continue';
+}
+
+interface MergeCandidates {
+    steps: MergeStep[];
+    alreadyMerged: Changeset[];
+    unknownSource: Changeset[];
+}
+
+/**
+ * Splits the ticket's revisions (oldest first) into those still to merge and those
+ * already on the checked-out branch, committed there or recorded in its mergeinfo.
+ */
+async function findMergeCandidates(client: SvnClient, result: TicketSearchResult): Promise<MergeCandidates> {
+    const currentBranch = workingCopyLocation(await client.info());
+    const repositoryRoot = await client.getRepositoryRoot();
+    const mergedBySource = new Map<string, Set<number>>();
+    const candidates: MergeCandidates = { steps: [], alreadyMerged: [], unknownSource: [] };
+
+    for (const changeset of [...result.changesets].sort((a, b) => a.revision - b.revision)) {
+        const source = result.branches.get(changeset.revision) ?? inferBranch(changeset);
+        if (!source) {
+            candidates.unknownSource.push(changeset);
+            continue;
+        }
+
+        const status = result.mergeStatus.get(changeset.revision);
+        let merged = status === 'committed' || status === 'merged' || source === currentBranch;
+        if (!merged && status !== 'notMerged') {
+            let mergedRevisions = mergedBySource.get(source);
+            if (!mergedRevisions) {
+                try {
+                    mergedRevisions = await client.mergedRevisions(`${repositoryRoot}${encodeRepositoryPath(source)}`, client.cwd);
+                } catch (error) {
+                    outputChannel.appendLine(`Could not read mergeinfo from ${source}: ${error}`);
+                    mergedRevisions = new Set();
+                }
+                mergedBySource.set(source, mergedRevisions);
+            }
+            merged = mergedRevisions.has(changeset.revision);
+        }
+
+        if (merged) {
+            candidates.alreadyMerged.push(changeset);
+        } else {
+            candidates.steps.push({ changeset, source, revision: changeset.revision });
+        }
+    }
+    return candidates;
+}
+
+/**
+ * Cherry-picks the ticket's revisions into the working copy: lets the user pick
+ * the revisions (all, oldest first, by default), dry-runs them to predict
+ * conflicts, merges them and offers to revert the result.
+ */
+export async function mergeTicketIntoWorkingCopy(client: SvnClient, result: TicketSearchResult, ticketLabel: string): Promise<void> {
+    if (!await confirmLocalChanges(client)) {
+        return;
+    }
+
+    const candidates = await findMergeCandidates(client, result);
+    for (const changeset of candidates.alreadyMerged) {
+        outputChannel.appendLine(`Skipping r${changeset.revision}: already on this branch`);
+    }
+    for (const changeset of candidates.unknownSource) {
+        outputChannel.appendLine(`Skipping r${changeset.revision}: could not determine the branch it was committed on`);
+    }
+    if (candidates.steps.length === 0) {
+        vscode.window.showInformationMessage(`All revisions of ${ticketLabel} are already merged into this branch`);
+        return;
+    }
+
+    const picked = await vscode.window.showQuickPick(candidates.steps.map(step => ({
+        label: `r${step.revision}`,
+        description: `${step.source} · ${step.changeset.author}`,
+        detail: step.changeset.message.split('\n')[0],
+        picked: true,
+        step
+    })), {
+        canPickMany: true,
+        title: `Merge ${ticketLabel} into working copy`,
+        placeHolder: candidates.alreadyMerged.length > 0
+            ? `Select revisions to merge (${candidates.alreadyMerged.length} already merged are skipped)`
+            : 'Select revisions to merge'
+    });
+    if (!picked || picked.length === 0) {
+        return; // User cancelled
+    }
+    const steps = picked.map(item => item.step).sort((a, b) => a.revision - b.revision);
+    const revisionList = steps.map(step => `r${step.revision}`).join(', ');
+
+    const predicted = await withCancellableProgress(`Dry-running merge of ${revisionList}`, () => dryRunMerge(client, steps));
+    if (!predicted) {
+        return;
+    }
+    const predictedConflicts = pathsWhere(predicted, notification => notification.conflicted);
+    const changedPaths = pathsWhere(predicted, notification => !notification.skipped);
+    outputChannel.appendLine(`Dry run of ${revisionList}: ${changedPaths.length} paths change, ${predictedConflicts.length} conflicts predicted`);
+    predictedConflicts.forEach(conflict => outputChannel.appendLine(`  Predicted conflict: ${conflict}`));
+
+    const proceed = await vscode.window.showWarningMessage(
+        `Merge ${revisionList} of ${ticketLabel} into the working copy?`,
+        {
+            modal: true,
+            detail: predictedConflicts.length > 0
+                ? `${changedPaths.length} paths change. Predicted conflicts in:\n${predictedConflicts.join('\n')}`
+                : `${changedPaths.length} paths change. No conflicts predicted.`
+        },
+        'Merge'
+    );
+    if (proceed !== 'Merge') {
+        return;
+    }
+
+    const outcomes = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: `Merging ${ticketLabel}`,
+        cancellable: false
+    }, (progress) => applyMerge(client, steps, progress));
+
+    const conflicted = outcomes.filter(outcome => outcome.notifications.some(notification => notification.conflicted));
+    const failed = outcomes.find(outcome => outcome.error);
+    const conflicts = pathsWhere(outcomes.flatMap(outcome => outcome.notifications), notification => notification.conflicted);
+    let summary = `Merged ${outcomes.length - (failed ? 1 : 0)} of ${steps.length} revisions of ${ticketLabel}`;
+    if (conflicts.length > 0) {
+        summary += `; conflicts in ${conflicts.join(', ')} (r${conflicted.map(outcome => outcome.step.revision).join(', r')})`;
+    }
+    if (failed) {
+        summary += `; stopped at r${failed.step.revision}: ${failed.error}`;
+    }
+    outputChannel.appendLine(summary);
+
+    await offerMergeRevert(client, outcomes, summary, conflicts.length > 0 || failed !== undefined);
+}
+
+/**
+ * Backs the ticket out of the working copy by reverse-merging all its revisions
+ * (`svn merge -c -N`), newest first. The affected files are previewed with a dry
+ * run, and the result lists which revisions reverted cleanly and which conflicted,
+ * so it can be committed as one backout.
+ */
+export async function revertTicketFromWorkingCopy(client: SvnClient, result: TicketSearchResult, ticketLabel: string): Promise<void> {
+    if (!await confirmLocalChanges(client)) {
+        return;
+    }
+
+    const currentBranch = workingCopyLocation(await client.info());
+    const steps: MergeStep[] = [];
+    for (const changeset of [...result.changesets].sort((a, b) => b.revision - a.revision)) {
+        if (result.mergeStatus.get(changeset.revision) === 'notMerged') {
+            outputChannel.appendLine(`Skipping r${changeset.revision}: not on this branch`);
+            continue;
+        }
+        const source = result.branches.get(changeset.revision) ?? inferBranch(changeset) ?? currentBranch;
+        steps.push({ changeset, source, revision: -changeset.revision });
+    }
+    if (steps.length === 0) {
+        vscode.window.showInformationMessage(`No revisions of ${ticketLabel} are on this branch`);
+        return;
+    }
+    const revisionList = steps.map(step => `r${step.changeset.revision}`).join(', ');
+
+    const predicted = await withCancellableProgress(`Previewing revert of ${revisionList}`, () => dryRunMerge(client, steps));
+    if (!predicted) {
+        return;
+    }
+    const affectedPaths = pathsWhere(predicted, notification => !notification.skipped);
+    const predictedConflicts = pathsWhere(predicted, notification => notification.conflicted);
+    outputChannel.appendLine(`Reverting ${revisionList} affects ${affectedPaths.length} paths:`);
+    predicted.forEach(notification => outputChannel.appendLine(`  ${notification.status} ${notification.path}`));
+
+    const shownPaths = affectedPaths.slice(0, 20).join('\n');
+    const morePaths = affectedPaths.length > 20 ? `\n… and ${affectedPaths.length - 20} more` : '';
+    const proceed = await vscode.window.showWarningMessage(
+        `Reverse-merge ${revisionList} of ${ticketLabel} from the working copy?`,
+        {
+            modal: true,
+            detail: `Affected paths:\n${shownPaths}${morePaths}`
+                + (predictedConflicts.length > 0 ? `\n\nPredicted conflicts in:\n${predictedConflicts.join('\n')}` : '')
+        },
+        'Revert Ticket'
+    );
+    if (proceed !== 'Revert Ticket') {
+        return;
+    }
+
+    const outcomes = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: `Reverting ${ticketLabel}`,
+        cancellable: false
+    }, (progress) => applyMerge(client, steps, progress));
+
+    const clean: number[] = [];
+    const conflicted: number[] = [];
+    for (const outcome of outcomes.filter(outcome => !outcome.error)) {
+        const revision = outcome.step.changeset.revision;
+        (outcome.notifications.some(notification => notification.conflicted) ? conflicted : clean).push(revision);
+    }
+    const failed = outcomes.find(outcome => outcome.error);
+
+    let summary = `Reverted ${ticketLabel}`;
+    summary += clean.length > 0 ? `: cleanly r${clean.join(', r')}` : ': no revision cleanly';
+    if (conflicted.length > 0) {
+        summary += `; with conflicts r${conflicted.join(', r')}`;
+    }
+    if (failed) {
+        summary += `; stopped at r${failed.step.changeset.revision}: ${failed.error}`;
+    } else if (conflicted.length === 0) {
+        summary += '. Commit the working copy to complete the backout';
+    }
+    outputChannel.appendLine(summary);
+
+    await offerMergeRevert(client, outcomes, summary, conflicted.length > 0 || failed !== undefined);
+}
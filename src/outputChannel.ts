@@ -0,0 +1,4 @@
+import * as vscode from 'vscode';
+
+// Create an output channel for logging
+export const outputChannel = vscode.window.createOutputChannel('Ticket Changesets');
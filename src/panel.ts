@@ -0,0 +1,762 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { Changeset, SvnClient, formatChangedPath, formatRevision, formatRevisionTitle } from './svn';
+import { GitClient } from './git';
+import { VcsProvider } from './vcs';
+import { TicketSearchResult, formatTicket } from './tickets';
+import { MergeStatus, formatMergeStatus } from './branches';
+import { openRevisionDiff, openUnifiedDiff, revisionFileChanges, showNetTicketDiff, ticketFileChanges } from './diffs';
+import { findForeignRevisions } from './ticketDiff';
+import { ChangeListNavigator } from './changeList';
+import { mergeTicketIntoWorkingCopy } from './merge';
+import { exportReviewBundle } from './reviewBundle';
+import { parseUnifiedDiff } from './unifiedDiff';
+import { DIFF_STYLES, renderDiff } from './diffRenderer';
+import { STATISTICS_STYLES, collectRevisionDiffs, computeTicketStatistics, renderTicketStatistics } from './ticketStats';
+import { escapeHtml } from './html';
+import { TicketInfo, TicketTracker } from './tracker';
+import { configuredTicketPatterns, linkTicketReferences } from './ticketLinks';
+import { ReviewManager, TicketReview, exportReviewReport, reviewFileKey, reviewFiles } from './review';
+import { filterDiffToPaths } from './fileTickets';
+import { ExtensionMessage, WebviewMessage, WebviewState } from './webview/protocol';
+import { outputChannel } from './outputChannel';
+
+export const TICKET_PANEL_VIEW_TYPE = 'ticketChangesets';
+
+/** What a panel shows, embedded in the page so it survives a reload via the webview state. */
+interface PanelData {
+    ticketLabel: string;
+    /** Path of the working copy searched, so the panel is restored with its client. */
+    workingCopy: string;
+    changesets: Changeset[];
+    changesetsByTicket: [string, number[]][];
+    branches: [number, string][];
+    mergeStatus: [number, MergeStatus][];
+    /** Repository paths the panel is restricted to, if any. */
+    paths?: string[];
+}
+
+/** Opens a webview panel listing the changesets of a ticket search, with inline and editor diffs. */
+export async function showTicketPanel(
+    extensionUri: vscode.Uri,
+    client: VcsProvider,
+    result: TicketSearchResult,
+    ticketLabel: string,
+    navigator: ChangeListNavigator,
+    tracker: TicketTracker,
+    reviews: ReviewManager
+): Promise<vscode.WebviewPanel> {
+    // Create a webview panel to display changesets with diffs
+    const panel = vscode.window.createWebviewPanel(
+        TICKET_PANEL_VIEW_TYPE,
+        `${ticketLabel} Changesets`,
+        vscode.ViewColumn.One,
+        {
+            ...webviewOptions(extensionUri),
+            retainContextWhenHidden: true
+        }
+    );
+    initializeTicketPanel(panel, extensionUri, client, result, ticketLabel, navigator, tracker, reviews);
+    return panel;
+}
+
+/** Restores ticket panels after a reload from the data kept in their webview state. */
+export class TicketPanelSerializer implements vscode.WebviewPanelSerializer {
+    constructor(
+        private readonly extensionUri: vscode.Uri,
+        private readonly resolveClient: (workingCopy?: string) => Promise<VcsProvider | undefined>,
+        private readonly navigator: ChangeListNavigator,
+        private readonly tracker: TicketTracker,
+        private readonly reviews: ReviewManager
+    ) {}
+
+    async deserializeWebviewPanel(panel: vscode.WebviewPanel, state: WebviewState | undefined): Promise<void> {
+        const data = state?.panel as PanelData | undefined;
+        const client = data && await this.resolveClient(data.workingCopy);
+        if (!data || !client) {
+            panel.dispose();
+            return;
+        }
+        outputChannel.appendLine(`Restoring changesets panel for ${data.ticketLabel}`);
+        panel.webview.options = webviewOptions(this.extensionUri);
+        const restored = client instanceof GitClient ? await renumberCommits(client, data) : data;
+        initializeTicketPanel(panel, this.extensionUri, client, fromPanelData(restored), restored.ticketLabel, this.navigator, this.tracker, this.reviews);
+    }
+}
+
+/**
+ * Gives the changesets of a restored panel the revision numbers their commits have
+ * in this session, as a Git clone's numbers only hold for a session. Commits that
+ * no longer exist, e.g. after a rebase, are left out.
+ */
+async function renumberCommits(client: GitClient, data: PanelData): Promise<PanelData> {
+    const commits = data.changesets.flatMap(changeset => changeset.commit ? [changeset.commit] : []);
+    const current = new Map((await client.getCommits(commits)).map(changeset => [changeset.commit, changeset]));
+    const revisions = new Map<number, number>();
+    const changesets = data.changesets.flatMap(changeset => {
+        const found = changeset.commit ? current.get(changeset.commit) : changeset;
+        if (!found) {
+            return [];
+        }
+        revisions.set(changeset.revision, found.revision);
+        // Keep the changed paths, which may be restricted to the panel's paths
+        return [{ ...changeset, revision: found.revision }];
+    });
+    const renumber = <T>(entries: [number, T][]): [number, T][] => entries.flatMap(([revision, value]) => {
+        const renumbered = revisions.get(revision);
+        return renumbered !== undefined ? [[renumbered, value] as [number, T]] : [];
+    });
+    return {
+        ...data,
+        changesets,
+        changesetsByTicket: data.changesetsByTicket.map(([ticket, ticketRevisions]) => [
+            ticket,
+            ticketRevisions.flatMap(revision => revisions.has(revision) ? [revisions.get(revision) as number] : [])
+        ]),
+        branches: renumber(data.branches),
+        mergeStatus: renumber(data.mergeStatus)
+    };
+}
+
+function webviewOptions(extensionUri: vscode.Uri): vscode.WebviewOptions {
+    return {
+        enableScripts: true,
+        localResourceRoots: [vscode.Uri.joinPath(extensionUri, 'out', 'webview')]
+    };
+}
+
+function toPanelData(result: TicketSearchResult, ticketLabel: string, workingCopy: string): PanelData {
+    return {
+        ticketLabel,
+        workingCopy,
+        changesets: result.changesets,
+        changesetsByTicket: Array.from(result.changesetsByTicket, ([ticket, changesets]) => [ticket, changesets.map(changeset => changeset.revision)]),
+        branches: Array.from(result.branches),
+        mergeStatus: Array.from(result.mergeStatus),
+        paths: result.paths
+    };
+}
+
+function fromPanelData(data: PanelData): TicketSearchResult {
+    const byRevision = new Map(data.changesets.map(changeset => [changeset.revision, changeset]));
+    const changesetsByTicket = new Map(data.changesetsByTicket.map(([ticket, revisions]) => [
+        ticket,
+        revisions.map(revision => byRevision.get(revision)).filter((changeset): changeset is Changeset => changeset !== undefined)
+    ]));
+    return {
+        tickets: Array.from(changesetsByTicket.keys()),
+        changesets: data.changesets,
+        changesetsByTicket,
+        branches: new Map(data.branches),
+        mergeStatus: new Map(data.mergeStatus),
+        paths: data.paths
+    };
+}
+
+function initializeTicketPanel(
+    panel: vscode.WebviewPanel,
+    extensionUri: vscode.Uri,
+    client: VcsProvider,
+    result: TicketSearchResult,
+    ticketLabel: string,
+    navigator: ChangeListNavigator,
+    tracker: TicketTracker,
+    reviews: ReviewManager
+): void {
+    const changesets = result.changesets;
+    let review: TicketReview | undefined;
+    let reviewSubscription: vscode.Disposable | undefined;
+    panel.onDidDispose(() => {
+        reviewSubscription?.dispose();
+        if (review) {
+            reviews.release();
+        }
+    });
+    const panelFiles = new Set(reviewFiles(changesets).map(file => reviewFileKey(file, file.path)));
+    const postReview = (current: TicketReview) => postMessage(panel, {
+        command: 'reviewUpdated',
+        reviewed: current.reviewed,
+        comments: current.comments.filter(comment => panelFiles.has(reviewFileKey(comment, comment.path))).length
+    });
+
+    // Generate HTML content for the webview
+    panel.webview.html = generateWebviewContent(panel.webview, extensionUri, result, ticketLabel, client instanceof SvnClient, client.cwd);
+
+    // Fill in the tickets' details once the tracker has answered
+    if (tracker.configured) {
+        Promise.all(result.tickets.map(ticket => tracker.getInfo(ticket))).then(infos => {
+            const found = infos.filter((info): info is TicketInfo => info !== undefined);
+            if (found.length > 0) {
+                postMessage(panel, { command: 'ticketInfoLoaded', html: renderTicketInfo(found) });
+            }
+        }).catch(error => {
+            outputChannel.appendLine(`Could not show the ticket details: ${error instanceof Error ? error.message : String(error)}`);
+        });
+    }
+    
+    // Handle messages from the webview
+    panel.webview.onDidReceiveMessage(async (message: WebviewMessage) => {
+        if (message.command === 'loadDiff') {
+            try {
+                const revision = message.revision;
+                outputChannel.appendLine(`Loading diff for revision ${revision}...`);
+                
+                // Get the diff for this revision across the whole repository, so changes
+                // committed outside the checked-out branch are included
+                const diffOutput = await client.diff(revision, await client.getRepositoryRoot());
+                const files = parseUnifiedDiff(diffOutput);
+                
+                // Send the rendered (and escaped) diff back to the webview, restricted like the changesets
+                postMessage(panel, {
+                    command: 'diffLoaded',
+                    html: renderDiff(result.paths ? filterDiffToPaths(files, result.paths) : files, { idPrefix: `r${revision}` }),
+                    index: message.index
+                });
+                
+                outputChannel.appendLine(`Sent diff for revision ${revision} back to webview`);
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                outputChannel.appendLine(`Error loading diff: ${errorMessage}`);
+                
+                postMessage(panel, {
+                    command: 'diffLoaded',
+                    html: `<div class="diff-note">${escapeHtml(`Error loading diff: ${errorMessage}`)}</div>`,
+                    index: message.index
+                });
+            }
+        } 
+        else if (message.command === 'openInDiffEditor') {
+            try {
+                const revision = message.revision;
+                outputChannel.appendLine(`Opening diff for revision ${revision} in VS Code diff editor...`);
+                
+                // Get the list of files changed in this revision, as listed in the panel
+                const changeset = changesets.find(c => c.revision === revision) ?? await client.getChangeset(revision);
+                if (!changeset) {
+                    vscode.window.showWarningMessage(`Revision ${revision} not found`);
+                    return;
+                }
+                const changedPaths = changeset.paths.filter(changedPath => changedPath.kind !== 'dir');
+                const changedFiles = changedPaths.map(changedPath => changedPath.path);
+                outputChannel.appendLine(`Found ${changedFiles.length} changed files in ${formatRevision(changeset)}`);
+                
+                if (changedFiles.length === 0) {
+                    vscode.window.showWarningMessage(`No changed files found in ${formatRevision(changeset)}`);
+                    return;
+                }
+                
+                // If more than one file was changed, let the user select which one to view
+                let selectedFile = changedFiles[0];
+                if (changedFiles.length > 1) {
+                    const selectedFileName = await vscode.window.showQuickPick(changedFiles, {
+                        placeHolder: 'Select a file to view diff',
+                        title: `Select file from ${formatRevision(changeset)}`
+                    });
+                    
+                    if (!selectedFileName) {
+                        return; // User cancelled
+                    }
+                    
+                    selectedFile = selectedFileName;
+                }
+                
+                const selectedPath = changedPaths.find(changedPath => changedPath.path === selectedFile);
+                if (selectedPath) {
+                    await openRevisionDiff(changeset, selectedPath, client.cwd);
+                }
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                outputChannel.appendLine(`Error opening diff in editor: ${errorMessage}`);
+                vscode.window.showErrorMessage(`Error opening diff: ${errorMessage}`);
+            }
+        }
+        else if (message.command === 'openAllChanges') {
+            try {
+                const revision = message.revision;
+                const changeset = changesets.find(c => c.revision === revision) ?? await client.getChangeset(revision);
+                if (!changeset) {
+                    vscode.window.showWarningMessage(`Revision ${revision} not found`);
+                    return;
+                }
+                await navigator.open(formatRevision(changeset), revisionFileChanges(changeset, client.cwd));
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                outputChannel.appendLine(`Error opening changes: ${errorMessage}`);
+                vscode.window.showErrorMessage(`Error opening changes: ${errorMessage}`);
+            }
+        }
+        else if (message.command === 'openAllTicketChanges') {
+            try {
+                await navigator.open(ticketLabel, ticketFileChanges(changesets, client.cwd));
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                outputChannel.appendLine(`Error opening changes: ${errorMessage}`);
+                vscode.window.showErrorMessage(`Error opening changes: ${errorMessage}`);
+            }
+        }
+        else if (message.command === 'showNetTicketDiff') {
+            try {
+                await showNetTicketDiff(client, changesets, ticketLabel);
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                outputChannel.appendLine(`Error creating net ticket diff: ${errorMessage}`);
+                vscode.window.showErrorMessage(`Error creating net ticket diff: ${errorMessage}`);
+            }
+        }
+        else if (message.command === 'mergeTicket') {
+            try {
+                if (!(client instanceof SvnClient)) {
+                    vscode.window.showWarningMessage('Merging tickets needs an SVN working copy');
+                    return;
+                }
+                await mergeTicketIntoWorkingCopy(client, result, ticketLabel);
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                outputChannel.appendLine(`Error merging ticket: ${errorMessage}`);
+                vscode.window.showErrorMessage(`Error merging ticket: ${errorMessage}`);
+            }
+        }
+        else if (message.command === 'loadStatistics') {
+            try {
+                const diffs = await vscode.window.withProgress({
+                    location: vscode.ProgressLocation.Window,
+                    title: `Computing statistics for ${ticketLabel}`
+                }, progress => collectRevisionDiffs(client, changesets, (done, total) => {
+                    progress.report({ message: `${done}/${total} revisions` });
+                }));
+                const statistics = computeTicketStatistics(changesets, diffs);
+                outputChannel.appendLine(`Computed statistics for ${ticketLabel}: ${statistics.files.length} files, +${statistics.additions} −${statistics.deletions} lines`);
+                postMessage(panel, { command: 'statisticsLoaded', html: renderTicketStatistics(statistics) });
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                outputChannel.appendLine(`Error computing statistics: ${errorMessage}`);
+                postMessage(panel, {
+                    command: 'statisticsLoaded',
+                    html: `<div class="diff-note">${escapeHtml(`Error computing statistics: ${errorMessage}`)}</div>`
+                });
+            }
+        }
+        else if (message.command === 'startReview') {
+            try {
+                if (!review) {
+                    const opened = await reviews.open(result.tickets, changesets, client, result.paths);
+                    review = opened.review;
+                    const current = review;
+                    reviewSubscription = review.onDidChange(() => postReview(current));
+                    if (opened.invalidated) {
+                        vscode.window.showInformationMessage(`New revisions were committed for ${ticketLabel}, so its review starts over`);
+                    }
+                }
+                postReview(review);
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                outputChannel.appendLine(`Error starting the review: ${errorMessage}`);
+                vscode.window.showErrorMessage(`Error starting the review: ${errorMessage}`);
+            }
+        }
+        else if (message.command === 'setReviewed') {
+            try {
+                await review?.setReviewed(message.revision, message.path, message.reviewed);
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                outputChannel.appendLine(`Error saving the review: ${errorMessage}`);
+                vscode.window.showErrorMessage(`Error saving the review: ${errorMessage}`);
+            }
+        }
+        else if (message.command === 'exportReview') {
+            try {
+                if (review) {
+                    await exportReviewReport(ticketLabel, review, reviewFiles(changesets));
+                }
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                outputChannel.appendLine(`Error exporting the review report: ${errorMessage}`);
+                vscode.window.showErrorMessage(`Error exporting the review report: ${errorMessage}`);
+            }
+        }
+        else if (message.command === 'openTicket') {
+            await vscode.commands.executeCommand('ticket-changesets-viewer.showChanges', [message.ticket]);
+        }
+        else if (message.command === 'openInTracker') {
+            const url = tracker.ticketUrl(message.ticket);
+            if (url) {
+                await vscode.env.openExternal(vscode.Uri.parse(url));
+            }
+        }
+        else if (message.command === 'exportTicket') {
+            try {
+                await exportReviewBundle(client, result, ticketLabel);
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                outputChannel.appendLine(`Error exporting review bundle: ${errorMessage}`);
+                vscode.window.showErrorMessage(`Error exporting review bundle: ${errorMessage}`);
+            }
+        }
+        else if (message.command === 'showUnifiedDiff') {
+            try {
+                outputChannel.appendLine(`Creating unified diff for ${ticketLabel}...`);
+                
+                // Collect all unique files changed across all revisions for this ticket
+                const allChangedFiles = new Set<string>();
+                for (const changeset of changesets) {
+                    changeset.paths
+                        .filter(changedPath => changedPath.kind !== 'dir')
+                        .forEach(changedPath => allChangedFiles.add(changedPath.path));
+                }
+                
+                const uniqueFiles = Array.from(allChangedFiles);
+                outputChannel.appendLine(`Found ${uniqueFiles.length} unique files changed across all revisions`);
+                
+                if (uniqueFiles.length === 0) {
+                    vscode.window.showWarningMessage(`No files found across revisions for ${ticketLabel}`);
+                    return;
+                }
+                
+                // If more than one file was changed, let the user select which one to view
+                let selectedFile: string;
+                if (uniqueFiles.length > 1) {
+                    const selectedFileName = await vscode.window.showQuickPick(uniqueFiles, {
+                        placeHolder: 'Select a file to view unified diff',
+                        title: `Select file for unified diff across ${ticketLabel}`
+                    });
+                    
+                    if (!selectedFileName) {
+                        return; // User cancelled
+                    }
+                    
+                    selectedFile = selectedFileName;
+                } else {
+                    selectedFile = uniqueFiles[0];
+                }
+                
+                await openUnifiedDiff(changesets, selectedFile, client.cwd);
+
+                // The unified diff spans everything between the first and last change, so warn
+                // when revisions of other tickets touched the file in that window
+                const foreignRevisions = await findForeignRevisions(client, changesets, selectedFile);
+                if (foreignRevisions.length > 0) {
+                    const revisionList = foreignRevisions.map(formatRevision).join(', ');
+                    outputChannel.appendLine(`Unified diff for ${selectedFile} includes foreign revisions: ${revisionList}`);
+                    const choice = await vscode.window.showWarningMessage(
+                        `The unified diff of ${selectedFile} also contains changes from revisions outside ${ticketLabel}: ${revisionList}`,
+                        'Show Net Ticket Diff'
+                    );
+                    if (choice) {
+                        await showNetTicketDiff(client, changesets, ticketLabel);
+                    }
+                }
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                outputChannel.appendLine(`Error creating unified diff: ${errorMessage}`);
+                vscode.window.showErrorMessage(`Error creating unified diff: ${errorMessage}`);
+            }
+        }
+    });
+}
+
+function postMessage(panel: vscode.WebviewPanel, message: ExtensionMessage): void {
+    panel.webview.postMessage(message);
+}
+
+/** Renders the tracker's details of each ticket for the panel header, with everything escaped. */
+function renderTicketInfo(infos: TicketInfo[]): string {
+    return infos.map(info => {
+        const meta = [
+            info.status && `Status: ${escapeHtml(info.status)}`,
+            info.assignee && `Assignee: ${escapeHtml(info.assignee)}`
+        ].filter(part => part).join(' · ');
+        return `
+            <div class="ticket-info">
+                <div class="ticket-info-title">
+                    ${escapeHtml(formatTicket(info.ticket))}: ${escapeHtml(info.title)}
+                    <a href="#" data-command="openInTracker" data-ticket="${escapeHtml(info.ticket)}">Open in Tracker</a>
+                </div>
+                ${meta ? `<div class="changeset-meta">${meta}</div>` : ''}
+                ${info.description ? `<details><summary>Description</summary><div class="changeset-message">${escapeHtml(info.description)}</div></details>` : ''}
+            </div>`;
+    }).join('');
+}
+
+function generateWebviewContent(
+    webview: vscode.Webview,
+    extensionUri: vscode.Uri,
+    result: TicketSearchResult, 
+    ticketLabel: string,
+    canMerge: boolean,
+    workingCopy: string
+): string {
+    const { changesetsByTicket, branches, mergeStatus } = result;
+    const changesetCount = result.changesets.length;
+    const grouped = changesetsByTicket.size > 1;
+    const patterns = configuredTicketPatterns();
+    const nonce = crypto.randomBytes(16).toString('base64');
+    const scriptUri = webview.asWebviewUri(vscode.Uri.joinPath(extensionUri, 'out', 'webview', 'main.js'));
+    // Escape '<' so commit messages cannot close the data block
+    const panelData = JSON.stringify(toPanelData(result, ticketLabel, workingCopy)).replace(/</g, '\\u003c');
+
+    // Create the HTML structure
+    let html = `
+        <!DOCTYPE html>
+        <html lang="en">
+        <head>
+            <meta charset="UTF-8">
+            <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>${escapeHtml(ticketLabel)} Changesets</title>
+            <style nonce="${nonce}">
+                body {
+                    font-family: var(--vscode-font-family);
+                    color: var(--vscode-foreground);
+                    background-color: var(--vscode-editor-background);
+                    padding: 20px;
+                }
+                .changeset {
+                    margin-bottom: 30px;
+                    border: 1px solid var(--vscode-panel-border);
+                    border-radius: 5px;
+                    padding: 15px;
+                }
+                .changeset-header {
+                    margin-bottom: 15px;
+                }
+                .changeset-title {
+                    font-size: 1.2em;
+                    font-weight: bold;
+                    margin-bottom: 5px;
+                }
+                .changeset-meta {
+                    font-size: 0.9em;
+                    color: var(--vscode-descriptionForeground);
+                    margin-bottom: 10px;
+                }
+                .changeset-message {
+                    background-color: var(--vscode-textBlockQuote-background);
+                    padding: 10px;
+                    border-radius: 3px;
+                    margin-bottom: 15px;
+                    white-space: pre-wrap;
+                }
+                .changeset-message .ticket-link {
+                    color: var(--vscode-textLink-foreground);
+                }
+                .review-only, .review-checkbox {
+                    display: none;
+                }
+                body.review-mode .review-only {
+                    display: inline-block;
+                }
+                body.review-mode .review-checkbox {
+                    display: inline;
+                    margin: 0 6px 0 0;
+                    vertical-align: middle;
+                }
+                #review-progress {
+                    margin-left: 10px;
+                    color: var(--vscode-descriptionForeground);
+                }
+                .changeset-files {
+                    margin-bottom: 15px;
+                    font-family: var(--vscode-editor-font-family);
+                    font-size: var(--vscode-editor-font-size);
+                }
+                .diff {
+                    border-radius: 3px;
+                    padding: 10px;
+                    overflow: auto;
+                    max-height: 800px;
+                }
+                .diff-toggle {
+                    margin-bottom: 10px;
+                    cursor: pointer;
+                    color: var(--vscode-button-foreground);
+                    background-color: var(--vscode-button-background);
+                    padding: 5px 10px;
+                    border-radius: 3px;
+                    border: none;
+                    display: inline-block;
+                    margin-right: 10px;
+                }
+                .diff-toggle:hover {
+                    background-color: var(--vscode-button-hoverBackground);
+                }
+                .diff-container {
+                    display: none;
+                }
+                .diff-container.active {
+                    display: block;
+                }
+                .file {
+                    margin-bottom: 5px;
+                }
+                .add {
+                    color: var(--vscode-gitDecoration-addedResourceForeground);
+                }
+                .delete {
+                    color: var(--vscode-gitDecoration-deletedResourceForeground);
+                }
+                .merge-status {
+                    padding: 1px 6px;
+                    border-radius: 3px;
+                    background-color: var(--vscode-badge-background);
+                    color: var(--vscode-badge-foreground);
+                }
+                .merge-status.notMerged {
+                    background-color: var(--vscode-inputValidation-errorBackground);
+                }
+                .modify {
+                    color: var(--vscode-gitDecoration-modifiedResourceForeground);
+                }
+                .button-container {
+                    margin-bottom: 10px;
+                }
+                .top-actions {
+                    margin-bottom: 20px;
+                }
+                .ticket-group {
+                    margin-bottom: 40px;
+                }
+                .ticket-info {
+                    margin-bottom: 15px;
+                }
+                .ticket-info-title {
+                    font-size: 1.1em;
+                    font-weight: bold;
+                    margin-bottom: 5px;
+                }
+                .ticket-info-title a {
+                    font-size: 0.8em;
+                    font-weight: normal;
+                    margin-left: 10px;
+                    color: var(--vscode-textLink-foreground);
+                }
+                .tabs {
+                    display: flex;
+                    gap: 4px;
+                    margin-bottom: 15px;
+                    border-bottom: 1px solid var(--vscode-panel-border);
+                }
+                .tab {
+                    background: none;
+                    border: none;
+                    border-bottom: 2px solid transparent;
+                    padding: 6px 12px;
+                    color: var(--vscode-foreground);
+                    cursor: pointer;
+                }
+                .tab.active {
+                    border-bottom-color: var(--vscode-focusBorder);
+                }
+                .tab-content {
+                    display: none;
+                }
+                .tab-content.active {
+                    display: block;
+                }
+                ${DIFF_STYLES}
+                ${STATISTICS_STYLES}
+            </style>
+        </head>
+        <body>
+            <h1>Changesets for ${escapeHtml(ticketLabel)}</h1>
+            <div id="ticket-info"></div>
+            <p>Found ${changesetCount} changesets associated with ${grouped ? 'these tickets' : 'this ticket'}.</p>
+
+            <div class="tabs">
+                <button class="tab active" data-command="showTab" data-tab="changesets">Changesets</button>
+                <button class="tab" data-command="showTab" data-tab="statistics">Statistics</button>
+            </div>
+
+            <div id="tab-statistics" class="tab-content">
+                <div id="statistics" class="diff-note">Loading statistics...</div>
+            </div>
+
+            <div id="tab-changesets" class="tab-content active">
+            <div class="top-actions">
+                <button class="diff-toggle" data-command="showUnifiedDiff">View Unified Diff (All Changes)</button>
+                <button class="diff-toggle" data-command="showNetTicketDiff">View Net Ticket Diff</button>
+                <button class="diff-toggle" data-command="openAllTicketChanges">Open All Changed Files</button>
+                ${canMerge ? '<button class="diff-toggle" data-command="mergeTicket">Merge Ticket into Working Copy</button>' : ''}
+                <button class="diff-toggle" data-command="exportTicket">Export Review Bundle</button>
+                <button class="diff-toggle" id="diff-mode-button" data-command="toggleDiffMode">Inline Diffs</button>
+                <button class="diff-toggle" id="review-mode-button" data-command="toggleReviewMode">Review Mode</button>
+                <button class="diff-toggle review-only" data-command="exportReview">Export Review Report</button>
+                <span id="review-progress" class="review-only"></span>
+            </div>
+            
+            <div id="changesets">
+    `;
+
+    // Add each ticket's changesets to the HTML, newest first
+    let index = 0;
+    for (const [ticket, changesets] of changesetsByTicket) {
+        if (grouped) {
+            html += `
+            <div class="ticket-group">
+                <h2>Ticket ${escapeHtml(formatTicket(ticket))}</h2>
+                ${changesets.length === 0 ? '<p>No changesets found.</p>' : ''}
+            `;
+        }
+
+        for (const changeset of changesets) {
+            const branch = branches.get(changeset.revision);
+            const status = mergeStatus.get(changeset.revision);
+            html += `
+                <div class="changeset">
+                    <div class="changeset-header">
+                        <div class="changeset-title">${formatRevisionTitle(changeset)}</div>
+                        <div class="changeset-meta">
+                            <div>Author: ${escapeHtml(changeset.author)}</div>
+                            <div>Date: ${escapeHtml(changeset.date)}</div>
+                            ${branch ? `<div>Branch: ${escapeHtml(branch)} <span class="merge-status ${status ?? 'unknown'}">${formatMergeStatus(status)}</span></div>` : ''}
+                        </div>
+                    </div>
+                    <div class="changeset-message">${linkTicketReferences(changeset.message, patterns, result.tickets)}</div>
+                    <div class="changeset-files">
+                        <div>Changed files:</div>
+            `;
+
+            // Add file list with formatting based on change type
+            for (const changedPath of changeset.paths) {
+                const changeType = changedPath.action;
+                let cssClass = '';
+                if (changeType === 'A') cssClass = 'add';
+                else if (changeType === 'D') cssClass = 'delete';
+                else if (changeType === 'M' || changeType === 'R') cssClass = 'modify';
+            
+                const reviewCheckbox = changedPath.kind === 'dir' ? '' :
+                    `<input type="checkbox" class="review-checkbox" title="Reviewed" data-revision="${changeset.revision}" data-path="${escapeHtml(changedPath.path)}" data-review-file="${escapeHtml(reviewFileKey(changeset, changedPath.path))}">`;
+                html += `<div class="file ${cssClass}">${reviewCheckbox}${escapeHtml(formatChangedPath(changedPath))}</div>`;
+            }
+
+            html += `
+                    </div>
+                    <div class="button-container">
+                        <button class="diff-toggle" id="button-${index}" data-command="toggleDiff" data-revision="${changeset.revision}" data-index="${index}">Show Diff</button>
+                        <button class="diff-toggle" data-command="openInDiffEditor" data-revision="${changeset.revision}">Open in Diff Editor</button>
+                        <button class="diff-toggle" data-command="openAllChanges" data-revision="${changeset.revision}">Open All Changes</button>
+                    </div>
+                    <div id="diff-${index}" class="diff-container">
+                        <div class="diff">Loading diff...</div>
+                    </div>
+                </div>
+            `;
+            index++;
+        }
+
+        if (grouped) {
+            html += `</div>`;
+        }
+    }
+
+    // Close the HTML structure; the script (src/webview/main.ts) handles interaction
+    html += `
+            </div>
+            </div>
+            <script type="application/json" id="panel-data">${panelData}</script>
+            <script type="module" nonce="${nonce}" src="${scriptUri}"></script>
+        </body>
+        </html>
+    `;
+
+    return html;
+}
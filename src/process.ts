@@ -0,0 +1,202 @@
+import { spawn } from 'child_process';
+import { AsyncLocalStorage } from 'async_hooks';
+import { StringDecoder } from 'string_decoder';
+
+/** How a `svn` or `git` command failed, recognized from its exit and error output. */
+export type VcsErrorKind =
+    | 'notWorkingCopy'
+    | 'authRequired'
+    | 'pathNotFound'
+    | 'network'
+    | 'timeout'
+    | 'outputTooLarge'
+    | 'cancelled'
+    | 'failed';
+
+/** A failed `svn` or `git` command. `message` includes the command's error output. */
+export class VcsError extends Error {
+    constructor(
+        message: string,
+        readonly kind: VcsErrorKind,
+        readonly command: string,
+        readonly stderr = '',
+        readonly exitCode?: number
+    ) {
+        super(message);
+        this.name = 'VcsError';
+    }
+}
+
+/** Whether `error` is a command stopped because the user cancelled it. */
+export function isCancellation(error: unknown): boolean {
+    return error instanceof VcsError && error.kind === 'cancelled';
+}
+
+/** The part of `vscode.CancellationToken` the runner needs, so clients do not depend on VS Code. */
+export interface CancellationToken {
+    readonly isCancellationRequested: boolean;
+    onCancellationRequested(listener: () => void): { dispose(): void };
+}
+
+export interface ProcessLimits {
+    /** Milliseconds a command may go without any output before it is stopped; 0 for no limit. */
+    timeout: number;
+    /** Bytes of output collected before the command is stopped; 0 for no limit. Streamed output is not collected. */
+    maxBuffer: number;
+}
+
+export const DEFAULT_PROCESS_LIMITS: ProcessLimits = {
+    timeout: 120 * 1000,
+    maxBuffer: 100 * 1024 * 1024
+};
+
+export interface RunOptions {
+    cwd: string;
+    limits: ProcessLimits;
+    /** Receives stdout as it arrives; it is then not collected, and the command resolves to an empty string. */
+    onStdout?: (text: string) => void;
+    /** Recognizes the kind of failure from the error output of a command that exited with an error. */
+    classify?: (stderr: string) => VcsErrorKind;
+}
+
+/** Start of the message of a command that exited with an error, by kind. */
+const FAILURE_SUMMARIES: Record<VcsErrorKind, string> = {
+    notWorkingCopy: 'Not a working copy',
+    authRequired: 'Authorization required (credentials are not cached)',
+    pathNotFound: 'Path not found at the revision',
+    network: 'Could not reach the repository',
+    timeout: 'Timed out',
+    outputTooLarge: 'Output too large',
+    cancelled: 'Cancelled',
+    failed: 'Command failed'
+};
+
+/** Error output kept for the error message; the rest is dropped. */
+const MAX_STDERR = 64 * 1024;
+
+const cancellation = new AsyncLocalStorage<CancellationToken>();
+
+/**
+ * Runs `task` so that every command it starts, directly or through a client,
+ * is stopped once `token` is cancelled, e.g. by the Cancel button of a progress
+ * notification. Commands started after that fail right away, and the task fails
+ * as cancelled even if it caught those failures.
+ */
+export async function withCancellation<T>(token: CancellationToken, task: () => Thenable<T>): Promise<T> {
+    const result = await cancellation.run(token, () => Promise.resolve(task()));
+    if (token.isCancellationRequested) {
+        throw new VcsError('Cancelled', 'cancelled', '');
+    }
+    return result;
+}
+
+/**
+ * Runs `command` with `args` passed as they are, without a shell, so paths and
+ * patterns need no quoting. Stdout is decoded as UTF-8 and either streamed to
+ * `onStdout` or collected up to the buffer limit. The command is killed when it
+ * is cancelled, times out or exceeds the limit, and fails with a `VcsError`.
+ */
+export function runProcess(command: string, args: string[], options: RunOptions): Promise<string> {
+    const commandLine = [command, ...args].join(' ');
+    const token = cancellation.getStore();
+    if (token?.isCancellationRequested) {
+        return Promise.reject(new VcsError(`Cancelled: ${commandLine}`, 'cancelled', commandLine));
+    }
+
+    return new Promise((resolve, reject) => {
+        const { limits, onStdout } = options;
+        const child = spawn(command, args, { cwd: options.cwd, stdio: ['ignore', 'pipe', 'pipe'], windowsHide: true });
+        const decoder = new StringDecoder('utf8');
+        const stdout: Buffer[] = [];
+        const stderr: Buffer[] = [];
+        let stdoutSize = 0;
+        let stderrSize = 0;
+        let failure: Error | undefined;
+        let settled = false;
+        let timer: NodeJS.Timeout | undefined;
+
+        const stop = (error: Error) => {
+            if (!failure) {
+                failure = error;
+                child.kill();
+            }
+        };
+        const cancelled = token?.onCancellationRequested(() => stop(new VcsError(`Cancelled: ${commandLine}`, 'cancelled', commandLine)));
+        const finish = (error: Error | undefined, output = '') => {
+            if (settled) {
+                return;
+            }
+            settled = true;
+            clearTimeout(timer);
+            cancelled?.dispose();
+            if (error) {
+                reject(error);
+            } else {
+                resolve(output);
+            }
+        };
+        const restartTimer = () => {
+            if (limits.timeout > 0) {
+                clearTimeout(timer);
+                timer = setTimeout(() => stop(new VcsError(
+                    `${commandLine} did not respond within ${limits.timeout / 1000}s and was stopped`, 'timeout', commandLine
+                )), limits.timeout);
+            }
+        };
+        restartTimer();
+
+        child.stdout.on('data', (chunk: Buffer) => {
+            restartTimer();
+            if (failure) {
+                return;
+            }
+            if (onStdout) {
+                try {
+                    onStdout(decoder.write(chunk));
+                } catch (error) {
+                    stop(error instanceof Error ? error : new Error(String(error)));
+                }
+                return;
+            }
+            stdoutSize += chunk.length;
+            if (limits.maxBuffer > 0 && stdoutSize > limits.maxBuffer) {
+                stop(new VcsError(
+                    `The output of ${commandLine} exceeds ${Math.round(limits.maxBuffer / (1024 * 1024))} MB`, 'outputTooLarge', commandLine
+                ));
+                return;
+            }
+            stdout.push(chunk);
+        });
+        child.stderr.on('data', (chunk: Buffer) => {
+            restartTimer();
+            if (stderrSize < MAX_STDERR) {
+                stderr.push(chunk);
+                stderrSize += chunk.length;
+            }
+        });
+
+        child.on('error', error => finish(new VcsError(`Could not run ${command}: ${error.message}`, 'failed', commandLine)));
+        child.on('close', code => {
+            if (failure) {
+                finish(failure);
+                return;
+            }
+            const errorOutput = Buffer.concat(stderr).toString('utf8').trim();
+            if (code !== 0) {
+                const kind = options.classify?.(errorOutput) ?? 'failed';
+                finish(new VcsError(`${FAILURE_SUMMARIES[kind]}: ${commandLine}\n${errorOutput}`, kind, commandLine, errorOutput, code ?? undefined));
+                return;
+            }
+            if (!onStdout) {
+                finish(undefined, Buffer.concat(stdout).toString('utf8'));
+                return;
+            }
+            try {
+                onStdout(decoder.end());
+                finish(undefined);
+            } catch (error) {
+                finish(error instanceof Error ? error : new Error(String(error)));
+            }
+        });
+    });
+}
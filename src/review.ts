@@ -0,0 +1,437 @@
+import * as vscode from 'vscode';
+import * as os from 'os';
+import { Changeset, RevisionRef, formatRevision, revisionKey } from './svn';
+import { SVN_REVISION_SCHEME } from './revisionProvider';
+import { VcsProvider } from './vcs';
+import { outputChannel } from './outputChannel';
+
+/** A line comment made during a review, on a file as of a revision. */
+export interface ReviewComment {
+    /** Repository path of the file. */
+    path: string;
+    revision: number;
+    /** The commit in a Git clone, which identifies the revision across sessions. */
+    commit?: string;
+    /** Zero-based line number. */
+    line: number;
+    body: string;
+    author: string;
+    /** ISO 8601 timestamp. */
+    created: string;
+}
+
+/** A file changed in a revision, which is reviewed as a unit. */
+export interface ReviewFile {
+    revision: number;
+    commit?: string;
+    path: string;
+}
+
+interface ReviewState {
+    /**
+     * The revisions under review (`revisionKey`); the review starts over when newer
+     * revisions were committed since. Reviews stored by earlier versions list revision numbers.
+     */
+    revisions: (string | number)[];
+    /** Keys (`reviewFileKey`) of the files marked as reviewed. */
+    reviewed: string[];
+    comments: ReviewComment[];
+}
+
+const STATE_KEY_PREFIX = 'ticketChangesetsViewer.review.';
+const COMMENT_CONTROLLER_ID = 'ticketChangesetsViewer.review';
+
+/** Identifies a file of a revision in a review, e.g. `r1234:/trunk/src/main.c`, or by commit hash in a Git clone. */
+export function reviewFileKey(ref: RevisionRef, filePath: string): string {
+    return `${ref.commit ?? `r${ref.revision}`}:${filePath}`;
+}
+
+/** Returns the files to review in `changesets`: every changed file (not directory) of every revision. */
+export function reviewFiles(changesets: Changeset[]): ReviewFile[] {
+    return changesets.flatMap(changeset => changeset.paths
+        .filter(changedPath => changedPath.kind !== 'dir')
+        .map(changedPath => ({ revision: changeset.revision, commit: changeset.commit, path: changedPath.path })));
+}
+
+/**
+ * The review of a set of tickets, persisted per workspace: which files are
+ * reviewed and the line comments made on them.
+ */
+export class TicketReview {
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    readonly onDidChange = this.changeEmitter.event;
+    /** Keys of the files of all panels the review was opened for. */
+    private readonly files = new Set<string>();
+    /** The working copies of the panels the review was opened for. */
+    private readonly workingCopies = new Set<string>();
+    /** The commits of the revisions under review in a Git clone, whose numbers only hold for the session. */
+    private readonly commits = new Map<number, string>();
+
+    constructor(
+        private readonly memento: vscode.Memento,
+        private readonly stateKey: string,
+        readonly tickets: string[],
+        private state: ReviewState
+    ) {}
+
+    get comments(): ReviewComment[] {
+        return this.state.comments;
+    }
+
+    get reviewed(): string[] {
+        return this.state.reviewed;
+    }
+
+    /** The keys (`revisionKey`) of the revisions under review. */
+    get revisions(): string[] {
+        return this.state.revisions.map(String);
+    }
+
+    /** Returns the commit of a revision under review in a Git clone. */
+    commitOf(revision: number): string | undefined {
+        return this.commits.get(revision);
+    }
+
+    /** Whether the file is part of the review, so it can be commented on. */
+    includes(revision: number, filePath: string): boolean {
+        return this.files.has(this.fileKey(revision, filePath));
+    }
+
+    /** Whether the review was opened for a panel of `workingCopy`. */
+    covers(workingCopy: string): boolean {
+        return this.workingCopies.has(workingCopy);
+    }
+
+    isReviewed(revision: number, filePath: string): boolean {
+        return this.state.reviewed.includes(this.fileKey(revision, filePath));
+    }
+
+    async setReviewed(revision: number, filePath: string, reviewed: boolean): Promise<void> {
+        const key = this.fileKey(revision, filePath);
+        const others = this.state.reviewed.filter(reviewedKey => reviewedKey !== key);
+        await this.update({ ...this.state, reviewed: reviewed ? [...others, key] : others });
+    }
+
+    async addComment(comment: ReviewComment): Promise<void> {
+        await this.update({ ...this.state, comments: [...this.state.comments, comment] });
+    }
+
+    async removeComment(comment: ReviewComment): Promise<void> {
+        await this.update({ ...this.state, comments: this.state.comments.filter(existing => existing !== comment) });
+    }
+
+    /** Returns the comments on the file as of `revision`, matched by commit in a Git clone. */
+    commentsOn(revision: number, filePath: string): ReviewComment[] {
+        const commit = this.commits.get(revision);
+        return this.state.comments.filter(comment => comment.path === filePath
+            && (comment.commit !== undefined ? comment.commit === commit : comment.revision === revision));
+    }
+
+    /** Adds the files of `changesets` in `workingCopy` to the review. */
+    addFiles(changesets: Changeset[], workingCopy: string): void {
+        this.workingCopies.add(workingCopy);
+        for (const changeset of changesets) {
+            if (changeset.commit) {
+                this.commits.set(changeset.revision, changeset.commit);
+            }
+        }
+        reviewFiles(changesets).forEach(file => this.files.add(reviewFileKey(file, file.path)));
+    }
+
+    /** Starts the review over for `revisions` (`revisionKey`), dropping reviewed files and comments. */
+    async reset(revisions: string[]): Promise<void> {
+        await this.update({ revisions, reviewed: [], comments: [] });
+    }
+
+    /** Adds `revisions` (`revisionKey`) to the review, keeping reviewed files and comments. */
+    async addRevisions(revisions: string[]): Promise<void> {
+        await this.update({ ...this.state, revisions: Array.from(new Set([...this.revisions, ...revisions])) });
+    }
+
+    private fileKey(revision: number, filePath: string): string {
+        return reviewFileKey({ revision, commit: this.commits.get(revision) }, filePath);
+    }
+
+    private async update(state: ReviewState): Promise<void> {
+        this.state = state;
+        await this.memento.update(this.stateKey, state);
+        this.changeEmitter.fire();
+    }
+
+    dispose(): void {
+        this.changeEmitter.dispose();
+    }
+}
+
+/** A review comment as shown in a comment thread of a diff editor. */
+class ReviewThreadComment implements vscode.Comment {
+    readonly mode = vscode.CommentMode.Preview;
+    readonly contextValue = 'reviewComment';
+    readonly body: string;
+    readonly author: vscode.CommentAuthorInformation;
+    readonly timestamp: Date;
+
+    constructor(readonly stored: ReviewComment, readonly review: TicketReview, readonly thread: vscode.CommentThread) {
+        this.body = stored.body;
+        this.author = { name: stored.author };
+        this.timestamp = new Date(stored.created);
+    }
+}
+
+/**
+ * Keeps the reviews started from ticket panels and lets reviewers comment on
+ * the revision documents (`svn-rev:`) of the files under review through the
+ * Comments API. Comments are stored with their review and shown again whenever
+ * the file is opened in a diff editor.
+ */
+export class ReviewManager implements vscode.Disposable {
+    private readonly reviews = new Map<string, TicketReview>();
+    private readonly controller = vscode.comments.createCommentController(COMMENT_CONTROLLER_ID, 'Ticket Review');
+    /** Comment threads shown per document URI. */
+    private readonly threads = new Map<string, vscode.CommentThread[]>();
+    private readonly disposables: vscode.Disposable[] = [];
+    /** Panels with a review open, which enables the review commands. */
+    private openPanels = 0;
+
+    constructor(private readonly memento: vscode.Memento) {
+        this.controller.commentingRangeProvider = {
+            provideCommentingRanges: document => this.reviewOf(document.uri)
+                ? [new vscode.Range(0, 0, Math.max(document.lineCount - 1, 0), 0)]
+                : []
+        };
+        this.disposables.push(
+            this.controller,
+            vscode.workspace.onDidOpenTextDocument(document => this.showThreads(document.uri))
+        );
+    }
+
+    /**
+     * Starts or resumes the review of `tickets` for a panel of `client` showing
+     * `changesets`, restricted to `paths` if the panel is. Reviews are kept per
+     * repository, tickets and paths. A stored review is resumed unless revisions
+     * newer than its newest were committed since, in which case it starts over and
+     * `invalidated` tells whether anything was lost. Older revisions the review
+     * did not list yet, e.g. from a wider search, are added to it.
+     */
+    async open(tickets: string[], changesets: Changeset[], client: VcsProvider, paths?: string[]): Promise<{ review: TicketReview; invalidated: boolean }> {
+        // Git clones have no repository URL, and their commits are identified by hash anyway
+        const repository = client.kind === 'svn' ? await client.getRepositoryRoot() : client.cwd;
+        const scope = [repository, [...tickets].sort().join(','), ...paths ? [[...paths].sort().join(',')] : []];
+        const review = this.getReview(STATE_KEY_PREFIX + scope.join('|'), tickets);
+        const stored = new Set(review.revisions);
+        const unlisted = changesets.filter(changeset => !stored.has(revisionKey(changeset)));
+        // SVN revisions are keyed by number; Git commits are placed by their number in this session
+        const newest = Math.max(
+            ...review.revisions.filter(key => /^\d+$/.test(key)).map(Number),
+            ...changesets.filter(changeset => stored.has(revisionKey(changeset))).map(changeset => changeset.revision)
+        );
+        const added = stored.size > 0 ? unlisted.filter(changeset => changeset.revision > newest) : [];
+        let invalidated = false;
+        if (added.length > 0) {
+            invalidated = review.reviewed.length > 0 || review.comments.length > 0;
+            if (invalidated) {
+                outputChannel.appendLine(`Starting the review of ${tickets.join(', ')} over: new revisions ${added.map(formatRevision).join(', ')}`);
+            }
+            await review.reset(Array.from(new Set([...review.revisions, ...changesets.map(revisionKey)])));
+        } else if (unlisted.length > 0) {
+            await review.addRevisions(unlisted.map(revisionKey));
+        }
+        review.addFiles(changesets, client.cwd);
+        this.openPanels++;
+        vscode.commands.executeCommand('setContext', 'ticketChangesetsViewer.reviewActive', true);
+
+        // Show the review's comments in diff editors that are already open
+        vscode.workspace.textDocuments.forEach(document => this.showThreads(document.uri));
+        return { review, invalidated };
+    }
+
+    /** Tells that a panel's review was closed; review commands are disabled once no panel has one open. */
+    release(): void {
+        this.openPanels = Math.max(this.openPanels - 1, 0);
+        if (this.openPanels === 0) {
+            vscode.commands.executeCommand('setContext', 'ticketChangesetsViewer.reviewActive', false);
+        }
+    }
+
+    private getReview(stateKey: string, tickets: string[]): TicketReview {
+        let review = this.reviews.get(stateKey);
+        if (!review) {
+            const stored = this.memento.get<ReviewState>(stateKey, { revisions: [], reviewed: [], comments: [] });
+            const created = new TicketReview(this.memento, stateKey, tickets, stored);
+            created.onDidChange(() => this.refreshThreads(created));
+            this.reviews.set(stateKey, created);
+            review = created;
+        }
+        return review;
+    }
+
+    /** Marks the file of a revision document as reviewed, or as not reviewed if it was. */
+    async toggleReviewed(uri: vscode.Uri): Promise<void> {
+        const target = this.reviewOf(uri);
+        if (!target) {
+            vscode.window.showWarningMessage('This file is not part of an open ticket review');
+            return;
+        }
+        const reviewed = !target.review.isReviewed(target.revision, target.path);
+        await target.review.setReviewed(target.revision, target.path, reviewed);
+        vscode.window.setStatusBarMessage(`${target.path} ${formatRevision(target)} marked as ${reviewed ? 'reviewed' : 'not reviewed'}`, 3000);
+    }
+
+    /** Adds the text of a comment reply to its thread, creating the thread's first comment if it is new. */
+    async addComment(reply: vscode.CommentReply): Promise<void> {
+        const thread = reply.thread;
+        const target = this.reviewOf(thread.uri);
+        if (!target || !thread.range) {
+            thread.dispose();
+            return;
+        }
+        const comment: ReviewComment = {
+            path: target.path,
+            revision: target.revision,
+            ...target.commit ? { commit: target.commit } : {},
+            line: thread.range.start.line,
+            body: reply.text,
+            author: reviewerName(),
+            created: new Date().toISOString()
+        };
+        this.trackThread(thread);
+        // Shown at once; the thread is kept when the review refreshes its threads
+        thread.comments = [...thread.comments, new ReviewThreadComment(comment, target.review, thread)];
+        await target.review.addComment(comment);
+    }
+
+    async deleteComment(comment: vscode.Comment): Promise<void> {
+        if (comment instanceof ReviewThreadComment) {
+            await comment.review.removeComment(comment.stored);
+        }
+    }
+
+    /** Returns the review, revision and path of a revision document of a file under review. */
+    private reviewOf(uri: vscode.Uri): { review: TicketReview; revision: number; commit?: string; path: string } | undefined {
+        if (uri.scheme !== SVN_REVISION_SCHEME) {
+            return undefined;
+        }
+        const query = new URLSearchParams(uri.query);
+        const revision = parseInt(query.get('rev') ?? '', 10);
+        // Revision numbers of different working copies may collide
+        const workingCopy = query.get('wc');
+        const review = Array.from(this.reviews.values()).find(candidate => candidate.includes(revision, uri.path)
+            && (workingCopy === null || candidate.covers(workingCopy)));
+        return review && { review, revision, commit: review.commitOf(revision), path: uri.path };
+    }
+
+    /** Creates the comment threads of a revision document, one per commented line. */
+    private showThreads(uri: vscode.Uri): void {
+        const target = this.reviewOf(uri);
+        if (!target || this.threads.has(uri.toString())) {
+            return;
+        }
+        const byLine = new Map<number, ReviewComment[]>();
+        for (const comment of target.review.commentsOn(target.revision, target.path)) {
+            byLine.set(comment.line, [...byLine.get(comment.line) ?? [], comment]);
+        }
+        const threads = Array.from(byLine, ([line, comments]) => {
+            const thread = this.controller.createCommentThread(uri, new vscode.Range(line, 0, line, 0), []);
+            thread.comments = comments.map(comment => new ReviewThreadComment(comment, target.review, thread));
+            return thread;
+        });
+        this.threads.set(uri.toString(), threads);
+    }
+
+    private trackThread(thread: vscode.CommentThread): void {
+        const threads = this.threads.get(thread.uri.toString()) ?? [];
+        if (!threads.includes(thread)) {
+            this.threads.set(thread.uri.toString(), [...threads, thread]);
+        }
+    }
+
+    /** Brings the threads of a review's documents in line with its comments, e.g. after one was deleted. */
+    private refreshThreads(review: TicketReview): void {
+        for (const [uri, threads] of this.threads) {
+            for (const thread of threads) {
+                const remaining = thread.comments.filter(comment =>
+                    comment instanceof ReviewThreadComment && (comment.review !== review || review.comments.includes(comment.stored)));
+                if (remaining.length !== thread.comments.length) {
+                    thread.comments = remaining;
+                }
+            }
+            const kept = threads.filter(thread => {
+                if (thread.comments.length === 0) {
+                    thread.dispose();
+                    return false;
+                }
+                return true;
+            });
+            this.threads.set(uri, kept);
+        }
+    }
+
+    dispose(): void {
+        this.reviews.forEach(review => review.dispose());
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
+
+function reviewerName(): string {
+    try {
+        return os.userInfo().username;
+    } catch {
+        return 'Reviewer';
+    }
+}
+
+/** Formats a review as a Markdown report: progress, the files with their state, and the comments by file. */
+export function formatReviewReport(ticketLabel: string, review: TicketReview, files: ReviewFile[]): string {
+    const reviewedCount = files.filter(file => review.isReviewed(file.revision, file.path)).length;
+    const lines = [
+        `# Review of ${ticketLabel}`,
+        '',
+        `Reviewed ${reviewedCount} of ${files.length} files, ${review.comments.length} comment${review.comments.length === 1 ? '' : 's'}.`,
+        `Exported ${new Date().toISOString()}.`,
+        '',
+        '## Files',
+        ''
+    ];
+    for (const file of files) {
+        lines.push(`- [${review.isReviewed(file.revision, file.path) ? 'x' : ' '}] ${formatRevision(file)} \`${file.path}\``);
+    }
+
+    lines.push('', '## Comments', '');
+    if (review.comments.length === 0) {
+        lines.push('No comments.');
+    }
+    const sorted = [...review.comments].sort((a, b) =>
+        a.path.localeCompare(b.path) || a.revision - b.revision || a.line - b.line || a.created.localeCompare(b.created));
+    let heading = '';
+    for (const comment of sorted) {
+        const commentHeading = `### \`${comment.path}\` ${formatRevision(comment)}, line ${comment.line + 1}`;
+        if (commentHeading !== heading) {
+            lines.push(commentHeading, '');
+            heading = commentHeading;
+        }
+        lines.push(...comment.body.split('\n').map(line => `> ${line}`), '', `— ${comment.author}, ${comment.created.substring(0, 10)}`, '');
+    }
+    return lines.join('\n').trimEnd() + '\n';
+}
+
+/** Asks for a file name, then writes the Markdown review report. */
+export async function exportReviewReport(ticketLabel: string, review: TicketReview, files: ReviewFile[]): Promise<void> {
+    const baseName = `review-report-${review.tickets.join('-').replace(/[^\w.-]+/g, '_')}.md`;
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+    const target = await vscode.window.showSaveDialog({
+        defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder, baseName) : undefined,
+        filters: { Markdown: ['md'] },
+        title: `Export review report for ${ticketLabel}`
+    });
+    if (!target) {
+        return; // User cancelled
+    }
+
+    await vscode.workspace.fs.writeFile(target, Buffer.from(formatReviewReport(ticketLabel, review, files), 'utf8'));
+    outputChannel.appendLine(`Exported review report for ${ticketLabel} to ${target.fsPath}`);
+
+    const action = await vscode.window.showInformationMessage(`Exported review report to ${target.fsPath}`, 'Open');
+    if (action === 'Open') {
+        await vscode.window.showTextDocument(target);
+    }
+}
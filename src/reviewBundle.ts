@@ -0,0 +1,225 @@
+import * as vscode from 'vscode';
+import { Changeset, formatChangedPath, formatRevision, formatRevisionTitle } from './svn';
+import { VcsProvider } from './vcs';
+import { TicketSearchResult, formatTicket } from './tickets';
+import { formatMergeStatus, inferBranch } from './branches';
+import { parseUnifiedDiff } from './unifiedDiff';
+import { DIFF_STYLES, renderDiff } from './diffRenderer';
+import { escapeHtml } from './html';
+import { outputChannel } from './outputChannel';
+import { withCancellableProgress } from './cancellableProgress';
+
+export type ReviewBundleFormat = 'markdown' | 'html' | 'patch';
+
+/** The exported content: the search result plus the diff of every revision, keyed by revision. */
+export interface ReviewBundle {
+    ticketLabel: string;
+    result: TicketSearchResult;
+    diffs: Map<number, string>;
+}
+
+const FILE_EXTENSIONS: Record<ReviewBundleFormat, string> = {
+    markdown: 'md',
+    html: 'html',
+    patch: 'patch'
+};
+
+/**
+ * Fetches the diff of every revision in the result, relative to the branch it was
+ * committed on, so the paths in the combined patch match a working copy of that branch.
+ * (The statistics diff the whole repository instead, see `collectRevisionDiffs`.)
+ */
+export async function collectBranchDiffs(client: VcsProvider, result: TicketSearchResult): Promise<Map<number, string>> {
+    const diffs = new Map<number, string>();
+    for (const changeset of oldestFirst(result.changesets)) {
+        const branch = result.branches.get(changeset.revision) ?? inferBranch(changeset) ?? '/';
+        diffs.set(changeset.revision, await client.diff(changeset.revision, await client.pegUrl(branch, changeset.revision)));
+    }
+    return diffs;
+}
+
+export function formatReviewBundle(bundle: ReviewBundle, format: ReviewBundleFormat): string {
+    switch (format) {
+        case 'markdown': return formatMarkdownBundle(bundle);
+        case 'html': return formatHtmlBundle(bundle);
+        case 'patch': return formatPatchBundle(bundle);
+    }
+}
+
+function oldestFirst(changesets: Changeset[]): Changeset[] {
+    return [...changesets].sort((a, b) => a.revision - b.revision);
+}
+
+function firstLine(message: string): string {
+    return message.split('\n')[0];
+}
+
+function branchLabel(result: TicketSearchResult, changeset: Changeset): string | undefined {
+    const branch = result.branches.get(changeset.revision);
+    return branch && `${branch} (${formatMergeStatus(result.mergeStatus.get(changeset.revision))})`;
+}
+
+/** Returns a backtick fence longer than any backtick run in `content`. */
+function fenceFor(content: string): string {
+    const longest = Math.max(0, ...Array.from(content.matchAll(/`+/g), match => match[0].length));
+    return '`'.repeat(Math.max(3, longest + 1));
+}
+
+function markdownCell(text: string): string {
+    return text.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+/**
+ * Formats the bundle as Markdown: metadata, a revision table, then each revision
+ * with its message, changed paths and its diff in a collapsible section.
+ */
+export function formatMarkdownBundle({ ticketLabel, result, diffs }: ReviewBundle): string {
+    const changesets = oldestFirst(result.changesets);
+    const lines: string[] = [
+        `# Review bundle for ${ticketLabel}`,
+        '',
+        `Tickets: ${result.tickets.map(formatTicket).join(', ')}`,
+        '',
+        `Revisions: ${changesets.length}`,
+        '',
+        '| Revision | Author | Date | Branch | Message |',
+        '| --- | --- | --- | --- | --- |'
+    ];
+    for (const changeset of changesets) {
+        const branch = branchLabel(result, changeset) ?? '';
+        lines.push(`| ${formatRevision(changeset)} | ${markdownCell(changeset.author)} | ${changeset.date} | ${markdownCell(branch)} | ${markdownCell(firstLine(changeset.message))} |`);
+    }
+    lines.push('');
+
+    for (const changeset of changesets) {
+        const diff = (diffs.get(changeset.revision) ?? '').trimEnd();
+        const messageFence = fenceFor(changeset.message);
+        const diffFence = fenceFor(diff);
+        lines.push(`## ${formatRevisionTitle(changeset)}`, '');
+        lines.push(`**Author:** ${changeset.author}`, '');
+        lines.push(`**Date:** ${changeset.date}`, '');
+        const branch = branchLabel(result, changeset);
+        if (branch) {
+            lines.push(`**Branch:** ${branch}`, '');
+        }
+        lines.push('**Message:**', messageFence, changeset.message, messageFence, '');
+        lines.push('**Changed Files:**', '```', ...changeset.paths.map(formatChangedPath), '```', '');
+        lines.push('<details>', `<summary>Diff of ${formatRevision(changeset)}</summary>`, '');
+        lines.push(`${diffFence}diff`, diff, diffFence, '', '</details>', '');
+    }
+
+    return lines.join('\n');
+}
+
+/** Formats the bundle as a standalone HTML page, rendering the diffs as the changesets panel does. */
+export function formatHtmlBundle({ ticketLabel, result, diffs }: ReviewBundle): string {
+    const changesets = oldestFirst(result.changesets);
+    const rows = changesets.map(changeset => `
+                <tr>
+                    <td><a href="#${formatRevision(changeset)}">${formatRevision(changeset)}</a></td>
+                    <td>${escapeHtml(changeset.author)}</td>
+                    <td>${escapeHtml(changeset.date)}</td>
+                    <td>${escapeHtml(branchLabel(result, changeset) ?? '')}</td>
+                    <td>${escapeHtml(firstLine(changeset.message))}</td>
+                </tr>`).join('');
+    const sections = changesets.map(changeset => {
+        const branch = branchLabel(result, changeset);
+        return `
+        <section class="changeset" id="${formatRevision(changeset)}">
+            <h2>${formatRevisionTitle(changeset)}</h2>
+            <div class="changeset-meta">
+                <div>Author: ${escapeHtml(changeset.author)}</div>
+                <div>Date: ${escapeHtml(changeset.date)}</div>
+                ${branch ? `<div>Branch: ${escapeHtml(branch)}</div>` : ''}
+            </div>
+            <pre class="changeset-message">${escapeHtml(changeset.message)}</pre>
+            <pre class="changeset-files">${escapeHtml(changeset.paths.map(formatChangedPath).join('\n'))}</pre>
+            ${renderDiff(parseUnifiedDiff(diffs.get(changeset.revision) ?? ''), { idPrefix: formatRevision(changeset) })}
+        </section>`;
+    }).join('');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Review bundle for ${escapeHtml(ticketLabel)}</title>
+    <style>
+        body { font-family: var(--vscode-font-family, -apple-system, 'Segoe UI', sans-serif); margin: 20px; }
+        table.revisions { border-collapse: collapse; margin-bottom: 20px; }
+        table.revisions th, table.revisions td { border: 1px solid #80808059; padding: 4px 8px; text-align: left; }
+        .changeset { margin-bottom: 30px; }
+        .changeset-meta { color: #717171; margin-bottom: 10px; }
+        .changeset-message { padding: 10px; background-color: #80808026; white-space: pre-wrap; }
+        .changeset-files { font-family: monospace; }
+        ${DIFF_STYLES}
+    </style>
+</head>
+<body>
+    <h1>Review bundle for ${escapeHtml(ticketLabel)}</h1>
+    <p>Tickets: ${escapeHtml(result.tickets.map(formatTicket).join(', '))}</p>
+    <table class="revisions">
+        <thead>
+            <tr><th>Revision</th><th>Author</th><th>Date</th><th>Branch</th><th>Message</th></tr>
+        </thead>
+        <tbody>${rows}
+        </tbody>
+    </table>${sections}
+</body>
+</html>
+`;
+}
+
+/**
+ * Formats the bundle as one patch: the revisions' diffs oldest first, each behind
+ * a comment line. `svn patch` ignores the comments and applies the sections in
+ * order, so later revisions apply on top of earlier ones.
+ */
+export function formatPatchBundle({ ticketLabel, result, diffs }: ReviewBundle): string {
+    const lines: string[] = [`# Review bundle for ${ticketLabel}`];
+    for (const changeset of oldestFirst(result.changesets)) {
+        lines.push(`# ${formatRevision(changeset)} by ${changeset.author}: ${firstLine(changeset.message)}`);
+        const diff = (diffs.get(changeset.revision) ?? '').trimEnd();
+        if (diff) {
+            lines.push(diff);
+        }
+    }
+    return lines.join('\n') + '\n';
+}
+
+/** Asks for a format and file name, then writes the review bundle of the search result. */
+export async function exportReviewBundle(client: VcsProvider, result: TicketSearchResult, ticketLabel: string): Promise<void> {
+    const choice = await vscode.window.showQuickPick([
+        { label: 'Markdown', description: 'Metadata, revision list and collapsible diffs', format: 'markdown' as const },
+        { label: 'HTML', description: 'Standalone page with rendered diffs', format: 'html' as const },
+        { label: 'Patch', description: 'Combined diff, applicable with svn patch', format: 'patch' as const }
+    ], { placeHolder: `Export ${ticketLabel} as` });
+    if (!choice) {
+        return; // User cancelled
+    }
+
+    const baseName = `review-${result.tickets.join('-').replace(/[^\w.-]+/g, '_')}.${FILE_EXTENSIONS[choice.format]}`;
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+    const target = await vscode.window.showSaveDialog({
+        defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder, baseName) : undefined,
+        filters: { [choice.label]: [FILE_EXTENSIONS[choice.format]] },
+        title: `Export review bundle for ${ticketLabel}`
+    });
+    if (!target) {
+        return; // User cancelled
+    }
+
+    const diffs = await withCancellableProgress(`Collecting diffs for ${ticketLabel}`, () => collectBranchDiffs(client, result));
+    if (!diffs) {
+        return;
+    }
+
+    const content = formatReviewBundle({ ticketLabel, result, diffs }, choice.format);
+    await vscode.workspace.fs.writeFile(target, Buffer.from(content, 'utf8'));
+    outputChannel.appendLine(`Exported review bundle for ${ticketLabel} to ${target.fsPath}`);
+
+    const action = await vscode.window.showInformationMessage(`Exported review bundle to ${target.fsPath}`, 'Open');
+    if (action === 'Open') {
+        await vscode.window.showTextDocument(target);
+    }
+}
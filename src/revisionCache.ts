@@ -0,0 +1,130 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { Changeset } from './svn';
+
+/** The revisions in the history of one log target, as far as they have been fetched. */
+export interface HistoryRecord {
+    /** Highest revision the history has been fetched up to. */
+    head: number;
+    /** Revisions in the history, oldest first. */
+    revisions: number[];
+}
+
+export type CachedTextKind = 'diff' | 'cat';
+
+/**
+ * On-disk store of immutable data of one repository: log entries with their
+ * changed paths, the revision lists of searched histories, diffs and file contents.
+ *
+ * Log entries are appended to `log.jsonl` and kept in memory once loaded;
+ * diffs and contents are stored one file each, named by a hash of their key.
+ */
+export class RevisionCache {
+    private entries?: Promise<Map<number, Changeset>>;
+    private histories?: Promise<Record<string, HistoryRecord>>;
+
+    constructor(readonly directory: string) {}
+
+    async getChangeset(revision: number): Promise<Changeset | undefined> {
+        return (await this.loadEntries()).get(revision);
+    }
+
+    /** Stores log entries not cached yet. */
+    async addChangesets(changesets: Changeset[]): Promise<void> {
+        const entries = await this.loadEntries();
+        const added = changesets.filter(changeset => !entries.has(changeset.revision));
+        if (added.length === 0) {
+            return;
+        }
+        added.forEach(changeset => entries.set(changeset.revision, changeset));
+        await fs.promises.mkdir(this.directory, { recursive: true });
+        await fs.promises.appendFile(
+            path.join(this.directory, 'log.jsonl'),
+            added.map(changeset => JSON.stringify(changeset) + '\n').join('')
+        );
+    }
+
+    /** Returns all cached log entries, in no particular order. */
+    async allChangesets(): Promise<Changeset[]> {
+        return Array.from((await this.loadEntries()).values());
+    }
+
+    async getHistory(key: string): Promise<HistoryRecord | undefined> {
+        return (await this.loadHistories())[key];
+    }
+
+    async setHistory(key: string, record: HistoryRecord): Promise<void> {
+        const histories = await this.loadHistories();
+        histories[key] = record;
+        await this.writeJson('histories.json', histories);
+    }
+
+    async getText(kind: CachedTextKind, key: string): Promise<string | undefined> {
+        try {
+            return await fs.promises.readFile(this.textPath(kind, key), 'utf8');
+        } catch {
+            return undefined;
+        }
+    }
+
+    async setText(kind: CachedTextKind, key: string, content: string): Promise<void> {
+        const filePath = this.textPath(kind, key);
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.promises.writeFile(filePath, content, 'utf8');
+    }
+
+    private textPath(kind: CachedTextKind, key: string): string {
+        return path.join(this.directory, kind, crypto.createHash('sha1').update(key).digest('hex'));
+    }
+
+    private loadEntries(): Promise<Map<number, Changeset>> {
+        if (!this.entries) {
+            this.entries = this.readLines('log.jsonl').then(lines => {
+                const entries = new Map<number, Changeset>();
+                for (const line of lines) {
+                    try {
+                        const changeset = JSON.parse(line) as Changeset;
+                        entries.set(changeset.revision, changeset);
+                    } catch {
+                        // A line cut off by an interrupted write; the entry is fetched again
+                    }
+                }
+                return entries;
+            });
+        }
+        return this.entries;
+    }
+
+    private loadHistories(): Promise<Record<string, HistoryRecord>> {
+        if (!this.histories) {
+            this.histories = this.readJson<Record<string, HistoryRecord>>('histories.json').then(histories => histories ?? {});
+        }
+        return this.histories;
+    }
+
+    private async readLines(fileName: string): Promise<string[]> {
+        try {
+            const content = await fs.promises.readFile(path.join(this.directory, fileName), 'utf8');
+            return content.split('\n').filter(line => line.trim().length > 0);
+        } catch {
+            return [];
+        }
+    }
+
+    private async readJson<T>(fileName: string): Promise<T | undefined> {
+        try {
+            return JSON.parse(await fs.promises.readFile(path.join(this.directory, fileName), 'utf8')) as T;
+        } catch {
+            return undefined;
+        }
+    }
+
+    /** Writes through a temporary file, so a crash never leaves half a file behind. */
+    private async writeJson(fileName: string, value: unknown): Promise<void> {
+        await fs.promises.mkdir(this.directory, { recursive: true });
+        const filePath = path.join(this.directory, fileName);
+        await fs.promises.writeFile(`${filePath}.tmp`, JSON.stringify(value), 'utf8');
+        await fs.promises.rename(`${filePath}.tmp`, filePath);
+    }
+}
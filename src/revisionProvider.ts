@@ -0,0 +1,85 @@
+import * as vscode from 'vscode';
+import { VcsProvider } from './vcs';
+import { outputChannel } from './outputChannel';
+
+export const SVN_REVISION_SCHEME = 'svn-rev';
+
+export interface SvnRevisionUriOptions {
+    /**
+     * Peg revision at which `repositoryPath` identifies the node (defaults to the
+     * operative revision). With a later peg SVN follows the node's copy history
+     * back to the operative revision, so renamed and moved files resolve to
+     * their earlier location.
+     */
+    peg?: number;
+    /** Resolve to an empty document instead of failing when the node does not exist. */
+    allowMissing?: boolean;
+    /** Working copy whose repository the path is in; defaults to the primary working copy. */
+    workingCopy?: string;
+}
+
+/**
+ * Builds a read-only URI for the contents of a repository path at a revision,
+ * e.g. `svn-rev:/trunk/src/main.c?rev=1234`. The path is kept as the URI path so
+ * language detection and breadcrumbs work as for regular files. Contents are
+ * fetched by repository URL, independent of what is checked out.
+ */
+export function svnRevisionUri(repositoryPath: string, revision: number, options: SvnRevisionUriOptions = {}): vscode.Uri {
+    const query = new URLSearchParams({ rev: String(revision) });
+    if (options.peg !== undefined && options.peg !== revision) {
+        query.set('peg', String(options.peg));
+    }
+    if (options.allowMissing) {
+        query.set('allowMissing', 'true');
+    }
+    if (options.workingCopy) {
+        query.set('wc', options.workingCopy);
+    }
+    return vscode.Uri.from({
+        scheme: SVN_REVISION_SCHEME,
+        path: repositoryPath.startsWith('/') ? repositoryPath : `/${repositoryPath}`,
+        query: query.toString()
+    });
+}
+
+/** Builds a URI for the empty side of a diff, e.g. before a file was added or after it was deleted. */
+export function emptyRevisionUri(repositoryPath: string): vscode.Uri {
+    return vscode.Uri.from({
+        scheme: SVN_REVISION_SCHEME,
+        path: repositoryPath.startsWith('/') ? repositoryPath : `/${repositoryPath}`,
+        query: 'empty=true'
+    });
+}
+
+/** Serves `svn cat -r REV URL@PEG` output for `svn-rev:` URIs on demand. */
+export class SvnRevisionContentProvider implements vscode.TextDocumentContentProvider {
+    constructor(private readonly resolveClient: (workingCopy?: string) => Promise<VcsProvider | undefined>) {}
+
+    async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+        const query = new URLSearchParams(uri.query);
+        if (query.get('empty') === 'true') {
+            return '';
+        }
+
+        const revision = parseInt(query.get('rev') ?? '', 10);
+        if (isNaN(revision)) {
+            throw new Error(`Invalid SVN revision URI: ${uri.toString()}`);
+        }
+        const peg = query.has('peg') ? parseInt(query.get('peg') ?? '', 10) : revision;
+
+        const client = await this.resolveClient(query.get('wc') ?? undefined);
+        if (!client) {
+            throw new Error('No SVN working copy available');
+        }
+
+        try {
+            return await client.cat(await client.pegUrl(uri.path, peg), revision);
+        } catch (error) {
+            if (query.get('allowMissing') === 'true') {
+                outputChannel.appendLine(`Could not get r${revision} of ${uri.path}@${peg}, showing it as empty: ${error}`);
+                return '';
+            }
+            throw error;
+        }
+    }
+}
@@ -0,0 +1,486 @@
+import { XmlElement, parseXml, child, children, childText } from './xml';
+import { VcsProvider } from './vcs';
+import { DEFAULT_PROCESS_LIMITS, ProcessLimits, VcsErrorKind, runProcess } from './process';
+
+export type ChangeAction = 'A' | 'M' | 'D' | 'R';
+
+export type NodeKind = 'file' | 'dir' | 'none' | 'unknown';
+
+export interface ChangedPath {
+    /** Repository-relative path, always starting with a slash (e.g. `/trunk/src/main.c`). */
+    path: string;
+    action: ChangeAction;
+    kind: NodeKind;
+    copyFromPath?: string;
+    copyFromRevision?: number;
+    textModified: boolean;
+    propertiesModified: boolean;
+}
+
+export interface Changeset {
+    revision: number;
+    /**
+     * Hash of the commit in a Git clone (not a `git svn` one). Its revision number
+     * only holds for the session, so the hash identifies it and is shown instead.
+     */
+    commit?: string;
+    author: string;
+    /** ISO 8601 timestamp as reported by `svn log --xml`. */
+    date: string;
+    message: string;
+    paths: ChangedPath[];
+}
+
+export interface SvnInfo {
+    url: string;
+    repositoryRoot: string;
+    repositoryUuid: string;
+    workingCopyPath: string;
+    /** Path of `url` below `repositoryRoot`, without leading slash (e.g. `trunk`). */
+    relativePrefix: string;
+    revision: number;
+}
+
+export type DiffItemStatus = 'added' | 'modified' | 'deleted' | 'replaced' | 'none';
+
+export interface DiffSummaryEntry {
+    path: string;
+    item: DiffItemStatus;
+    kind: NodeKind;
+    propertiesModified: boolean;
+}
+
+export interface LogOptions {
+    /** Revision or revision range passed to `-r`, e.g. `HEAD:1` or `100:200`. */
+    revision?: string;
+    /** Patterns passed to `--search`; a log entry matches if any pattern matches. */
+    search?: string[];
+    limit?: number;
+    /** Do not follow history across copies (e.g. past the creation of a branch). */
+    stopOnCopy?: boolean;
+    /** Working copy path or URL to run the log on. Defaults to the working directory. */
+    target?: string;
+    /**
+     * Git only: log only the commits since this one (`<after>..HEAD`), e.g. to bring an
+     * index up to date. The whole history is logged if the commit no longer exists.
+     */
+    after?: string;
+}
+
+export interface StatusEntry {
+    path: string;
+    /** Working copy status of the node, e.g. `modified`, `added`, `conflicted`, `unversioned`. */
+    item: string;
+    props: string;
+    treeConflicted: boolean;
+}
+
+export interface MergeOptions {
+    /** Only report what would change (`--dry-run`). */
+    dryRun?: boolean;
+    /** Working copy path to merge into. Defaults to the working directory. */
+    target?: string;
+}
+
+export interface ListEntry {
+    name: string;
+    kind: NodeKind;
+}
+
+/** Who last changed a line of a file; only the line number if it has uncommitted changes. */
+export interface BlameLine {
+    /** One-based line number. */
+    line: number;
+    revision?: number;
+    author?: string;
+    date?: string;
+}
+
+const LOG_ENTRY_END = '</logentry>';
+
+/** SVN error codes (`svn: E155007: ...`) by the kind of failure they stand for. */
+const ERROR_CODES: [VcsErrorKind, string[]][] = [
+    // Not a working copy, or no working copy root above it
+    ['notWorkingCopy', ['E155007', 'E155036']],
+    // Authorization failed, no more credentials, or a prompt refused by --non-interactive
+    ['authRequired', ['E170001', 'E215004']],
+    // Path not found, no such revision, no location in that revision, target or URL does not exist
+    ['pathNotFound', ['E160013', 'E160006', 'E195012', 'E200009', 'E170000', 'E155010', 'W160013', 'W155010']],
+    // Cannot connect (also reported around authorization failures, which are matched first),
+    // connection closed or timed out, host not found, SSL handshake failed
+    ['network', ['E170013', 'E175002', 'E175012', 'E210002', 'E670002', 'E670008', 'E000110', 'E000111', 'E120108', 'E120171', 'E230001']]
+];
+
+/**
+ * Typed wrapper around the `svn` command line client.
+ *
+ * Every query that SVN can answer in XML is requested with `--xml` and parsed
+ * into structured objects, so callers never scrape human-readable output.
+ */
+export class SvnClient implements VcsProvider {
+    readonly kind = 'svn' as const;
+    private repositoryRoot?: Promise<string>;
+
+    constructor(readonly svnPath: string, readonly cwd: string, readonly limits: ProcessLimits = DEFAULT_PROCESS_LIMITS) {}
+
+    async log(options: LogOptions = {}): Promise<Changeset[]> {
+        const args = ['log', '--xml', '-v'];
+        if (options.revision) {
+            args.push('-r', options.revision);
+        }
+        for (const pattern of options.search ?? []) {
+            args.push('--search', pattern);
+        }
+        if (options.limit !== undefined) {
+            args.push('-l', String(options.limit));
+        }
+        if (options.stopOnCopy) {
+            args.push('--stop-on-copy');
+        }
+        if (options.target) {
+            args.push(options.target);
+        }
+        // Parsed as it arrives, so a log of any length stays within the buffer limit
+        const stream = new LogXmlStream();
+        await this.run(args, text => stream.write(text));
+        return stream.end();
+    }
+
+    /** Returns the log entry of a single revision, or `undefined` if it does not exist. */
+    async getChangeset(revision: number): Promise<Changeset | undefined> {
+        const [changeset] = await this.log({ revision: String(revision) });
+        return changeset;
+    }
+
+    async info(target?: string): Promise<SvnInfo> {
+        const args = ['info', '--xml'];
+        if (target) {
+            args.push(target);
+        }
+        return parseInfoXml(await this.run(args));
+    }
+
+    /** Returns the repository root URL of the working copy, querying `svn info` only once. */
+    async getRepositoryRoot(): Promise<string> {
+        if (!this.repositoryRoot) {
+            this.repositoryRoot = this.info().then(info => info.repositoryRoot);
+            this.repositoryRoot.catch(() => {
+                this.repositoryRoot = undefined;
+            });
+        }
+        return this.repositoryRoot;
+    }
+
+    /**
+     * Returns the URL of a repository path pegged at `revision` (`url@rev`), which
+     * addresses the node as it existed then, regardless of the current checkout.
+     */
+    async pegUrl(repositoryPath: string, revision: number | string): Promise<string> {
+        return `${await this.getRepositoryRoot()}${encodeRepositoryPath(repositoryPath)}@${revision}`;
+    }
+
+    /** Returns the repository path (e.g. `/trunk/src/main.c`) of a working copy path, from `svn info`. */
+    async repositoryPath(localPath: string): Promise<string> {
+        const info = await this.info(localPath);
+        return `/${info.relativePrefix}`;
+    }
+
+    /** Lists the direct children of a directory URL (`svn list --xml`). */
+    async list(url: string): Promise<ListEntry[]> {
+        return parseListXml(await this.run(['list', '--xml', url]));
+    }
+
+    /**
+     * Returns the revisions of `sourceUrl` that are recorded as merged into `target`
+     * (`svn mergeinfo --show-revs merged`). Defaults to the working copy.
+     */
+    async mergedRevisions(sourceUrl: string, target?: string): Promise<Set<number>> {
+        const args = ['mergeinfo', '--show-revs', 'merged', sourceUrl];
+        if (target) {
+            args.push(target);
+        }
+        const output = await this.run(args);
+        return new Set(Array.from(output.matchAll(/^r(\d+)/gm), match => parseInt(match[1], 10)));
+    }
+
+    /**
+     * Merges individual revisions of `sourceUrl` into the working copy (`svn merge -c`).
+     * Negative revisions are reverse-merged. Conflicts are postponed, so the
+     * output lists them instead of prompting.
+     */
+    async merge(sourceUrl: string, revisions: number[], options: MergeOptions = {}): Promise<string> {
+        const args = ['merge', '--accept', 'postpone', '-c', revisions.join(',')];
+        if (options.dryRun) {
+            args.push('--dry-run');
+        }
+        args.push(sourceUrl, options.target ?? '.');
+        return this.run(args);
+    }
+
+    /** Returns the locally changed nodes of the working copy (`svn status --xml -q`). */
+    async status(target?: string): Promise<StatusEntry[]> {
+        const args = ['status', '--xml', '-q'];
+        if (target) {
+            args.push(target);
+        }
+        return parseStatusXml(await this.run(args));
+    }
+
+    /** Reverts local changes of the given working copy paths (`svn revert`). */
+    async revert(paths: string[], depth: 'empty' | 'infinity' = 'empty'): Promise<string> {
+        return this.run(['revert', '--depth', depth, ...paths]);
+    }
+
+    /** Summarizes the changes between two targets (`svn diff --summarize --xml`). */
+    async diffSummarize(oldTarget: string, newTarget: string): Promise<DiffSummaryEntry[]> {
+        const args = ['diff', '--summarize', '--xml', '--old', oldTarget, '--new', newTarget];
+        return parseDiffSummaryXml(await this.run(args));
+    }
+
+    /** Returns the unified diff of everything changed in `revision` (`svn diff -c`). */
+    async diff(revision: number, target?: string): Promise<string> {
+        const args = ['diff', '-c', String(revision)];
+        if (target) {
+            args.push(target);
+        }
+        return this.run(args);
+    }
+
+    /** Returns the contents of `target` as of `revision` (`svn cat -r`). */
+    async cat(target: string, revision: number | string): Promise<string> {
+        return this.run(['cat', '-r', String(revision), target]);
+    }
+
+    /** Returns who last changed each line of the working copy file at `filePath` (`svn blame --xml`). */
+    async blame(filePath: string): Promise<BlameLine[]> {
+        return parseBlameXml(await this.run(['blame', '--xml', filePath]));
+    }
+
+    /**
+     * Runs `svn` with `args`. It never prompts: a missing password fails as
+     * `authRequired` instead of waiting for input. With `onStdout`, the output is
+     * streamed to it and not returned.
+     */
+    private run(args: string[], onStdout?: (text: string) => void): Promise<string> {
+        return runProcess(this.svnPath, ['--non-interactive', ...args], {
+            cwd: this.cwd,
+            limits: this.limits,
+            onStdout,
+            classify: classifySvnError
+        });
+    }
+}
+
+/** Recognizes the kind of failure from the error codes in the output of `svn`. */
+export function classifySvnError(stderr: string): VcsErrorKind {
+    const codes = new Set(Array.from(stderr.matchAll(/\b([EW]\d{6}):/g), match => match[1]));
+    return ERROR_CODES.find(([, kindCodes]) => kindCodes.some(code => codes.has(code)))?.[0] ?? 'failed';
+}
+
+/**
+ * Parses `svn log --xml` output as it is received: each complete `<logentry>` is
+ * parsed and its text dropped, so only the entry being received is kept as text.
+ */
+export class LogXmlStream {
+    private pending = '';
+    private started = false;
+    private readonly changesets: Changeset[] = [];
+
+    write(text: string): void {
+        this.pending += text;
+        this.started = this.started || /<log[\s>]/.test(this.pending);
+        let end: number;
+        while ((end = this.pending.indexOf(LOG_ENTRY_END)) !== -1) {
+            const start = this.pending.indexOf('<logentry');
+            const entry = start === -1 ? undefined : child(parseXml(this.pending.substring(start, end + LOG_ENTRY_END.length)), 'logentry');
+            if (!entry) {
+                throw new Error('Could not parse SVN log output');
+            }
+            this.changesets.push(parseLogEntry(entry));
+            this.pending = this.pending.substring(end + LOG_ENTRY_END.length);
+        }
+    }
+
+    /** Returns the parsed changesets, once all output was written. */
+    end(): Changeset[] {
+        if (!this.started) {
+            throw new Error('Could not parse SVN log output');
+        }
+        return this.changesets;
+    }
+}
+
+export function parseLogXml(xml: string): Changeset[] {
+    const log = child(parseXml(xml), 'log');
+    if (!log) {
+        throw new Error('Could not parse SVN log output');
+    }
+    return children(log, 'logentry').map(parseLogEntry);
+}
+
+function parseLogEntry(entry: XmlElement): Changeset {
+    const paths = child(entry, 'paths');
+    return {
+        revision: parseInt(entry.attributes.revision, 10),
+        author: childText(entry, 'author') ?? '',
+        date: childText(entry, 'date') ?? '',
+        message: childText(entry, 'msg') ?? '',
+        paths: paths ? children(paths, 'path').map(parseChangedPath) : []
+    };
+}
+
+function parseChangedPath(element: XmlElement): ChangedPath {
+    const { action, kind } = element.attributes;
+    const changedPath: ChangedPath = {
+        path: element.text,
+        action: (['A', 'M', 'D', 'R'].includes(action) ? action : 'M') as ChangeAction,
+        kind: parseNodeKind(kind),
+        textModified: element.attributes['text-mods'] === 'true',
+        propertiesModified: element.attributes['prop-mods'] === 'true'
+    };
+    if (element.attributes['copyfrom-path']) {
+        changedPath.copyFromPath = element.attributes['copyfrom-path'];
+        changedPath.copyFromRevision = parseInt(element.attributes['copyfrom-rev'], 10);
+    }
+    return changedPath;
+}
+
+function parseNodeKind(kind: string | undefined): NodeKind {
+    return kind === 'file' || kind === 'dir' || kind === 'none' ? kind : 'unknown';
+}
+
+export function parseInfoXml(xml: string): SvnInfo {
+    const info = child(parseXml(xml), 'info');
+    const entry = info && child(info, 'entry');
+    const url = entry && childText(entry, 'url');
+    const repositoryRoot = entry && childText(entry, 'repository', 'root');
+    if (!entry || !url || !repositoryRoot) {
+        throw new Error('Could not parse SVN info output');
+    }
+
+    return {
+        url,
+        repositoryRoot,
+        repositoryUuid: childText(entry, 'repository', 'uuid') ?? '',
+        workingCopyPath: childText(entry, 'wc-info', 'wcroot-abspath') ?? '',
+        // Calculate the relative prefix by comparing the URL with the repository root
+        relativePrefix: decodeURIComponent(url.substring(repositoryRoot.length)).replace(/^\/+/, ''),
+        revision: parseInt(entry.attributes.revision, 10)
+    };
+}
+
+export function parseDiffSummaryXml(xml: string): DiffSummaryEntry[] {
+    const diff = child(parseXml(xml), 'diff');
+    const paths = diff && child(diff, 'paths');
+    if (!paths) {
+        return [];
+    }
+    return children(paths, 'path').map(element => ({
+        path: element.text,
+        item: (element.attributes.item || 'none') as DiffItemStatus,
+        kind: parseNodeKind(element.attributes.kind),
+        propertiesModified: element.attributes.props === 'modified'
+    }));
+}
+
+export function parseStatusXml(xml: string): StatusEntry[] {
+    const status = child(parseXml(xml), 'status');
+    if (!status) {
+        throw new Error('Could not parse SVN status output');
+    }
+    return children(status, 'target').flatMap(target => children(target, 'entry')).map(entry => {
+        const wcStatus = child(entry, 'wc-status');
+        return {
+            path: entry.attributes.path,
+            item: wcStatus?.attributes.item ?? 'none',
+            props: wcStatus?.attributes.props ?? 'none',
+            treeConflicted: wcStatus?.attributes['tree-conflicted'] === 'true'
+        };
+    });
+}
+
+export function parseBlameXml(xml: string): BlameLine[] {
+    const blame = child(parseXml(xml), 'blame');
+    const target = blame && child(blame, 'target');
+    if (!target) {
+        throw new Error('Could not parse SVN blame output');
+    }
+    return children(target, 'entry').map(entry => {
+        const commit = child(entry, 'commit');
+        return {
+            line: parseInt(entry.attributes['line-number'], 10),
+            revision: commit ? parseInt(commit.attributes.revision, 10) : undefined,
+            author: commit && childText(commit, 'author'),
+            date: commit && childText(commit, 'date')
+        };
+    });
+}
+
+export function parseListXml(xml: string): ListEntry[] {
+    const lists = child(parseXml(xml), 'lists');
+    const list = lists && child(lists, 'list');
+    if (!list) {
+        throw new Error('Could not parse SVN list output');
+    }
+    return children(list, 'entry').map(entry => ({
+        name: childText(entry, 'name') ?? '',
+        kind: parseNodeKind(entry.attributes.kind)
+    }));
+}
+
+/** URI-encodes each segment of a repository path, so `@` and spaces cannot be misread by SVN. */
+export function encodeRepositoryPath(repositoryPath: string): string {
+    const normalized = repositoryPath.startsWith('/') ? repositoryPath : `/${repositoryPath}`;
+    return normalized.split('/').map(encodeURIComponent).join('/');
+}
+
+/**
+ * Whether `repositoryPath` is `prefix` or below it. The prefix may omit the
+ * leading slash or end with one; `''` and `/` are the repository root.
+ */
+export function isWithinPath(repositoryPath: string, prefix: string): boolean {
+    const normalized = `/${prefix}`.replace(/^\/+/, '/').replace(/\/+$/, '');
+    return normalized === '' || repositoryPath === normalized || repositoryPath.startsWith(`${normalized}/`);
+}
+
+/** What identifies a changeset: its revision number, and the commit hash in a Git clone. */
+export type RevisionRef = Pick<Changeset, 'revision' | 'commit'>;
+
+/** Length of the abbreviated commit hashes shown for Git clones, as `git log --oneline` prints them. */
+const SHORT_HASH_LENGTH = 7;
+
+/** Formats the revision of a changeset for display, e.g. `r1234`, or `3f9c2ab` for a Git commit. */
+export function formatRevision(ref: RevisionRef): string {
+    return ref.commit ? ref.commit.substring(0, SHORT_HASH_LENGTH) : `r${ref.revision}`;
+}
+
+/** Formats the revision a changeset is diffed against, e.g. `r1233`, or `3f9c2ab^` for a Git commit. */
+export function formatPreviousRevision(ref: RevisionRef): string {
+    return ref.commit ? `${formatRevision(ref)}^` : `r${ref.revision - 1}`;
+}
+
+/** Formats a changeset's revision as a heading, e.g. `Revision 1234` or `Commit 3f9c2ab`. */
+export function formatRevisionTitle(ref: RevisionRef): string {
+    return ref.commit ? `Commit ${formatRevision(ref)}` : `Revision ${ref.revision}`;
+}
+
+/** Identifies a changeset across sessions: by its commit hash in a Git clone, else by its revision number. */
+export function revisionKey(ref: RevisionRef): string {
+    return ref.commit ?? String(ref.revision);
+}
+
+/** Formats a changed path the way `svn log -v` prints it, e.g. `A /trunk/b (from /trunk/a:12)`. */
+export function formatChangedPath(changedPath: ChangedPath): string {
+    let formatted = `${changedPath.action} ${changedPath.path}`;
+    if (changedPath.copyFromPath) {
+        formatted += ` (from ${formatCopySource(changedPath)})`;
+    }
+    return formatted;
+}
+
+/** Formats where a copied path came from, e.g. `/trunk/a:12`, or only the path if the revision is not known. */
+export function formatCopySource(changedPath: ChangedPath): string {
+    return changedPath.copyFromRevision !== undefined
+        ? `${changedPath.copyFromPath}:${changedPath.copyFromRevision}`
+        : changedPath.copyFromPath ?? '';
+}
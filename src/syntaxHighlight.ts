@@ -0,0 +1,186 @@
+import * as path from 'path';
+
+export type TokenClass = 'keyword' | 'string' | 'comment' | 'number';
+
+export interface Token {
+    start: number;
+    end: number;
+    cls?: TokenClass;
+}
+
+interface Language {
+    keywords: Set<string>;
+    lineComments: string[];
+    blockComment?: [string, string];
+    quotes: string[];
+}
+
+/** Carries an open block comment from one line to the next. */
+export interface HighlightState {
+    inBlockComment: boolean;
+}
+
+const C_LIKE_KEYWORDS = [
+    'abstract', 'as', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'delete',
+    'do', 'else', 'enum', 'export', 'extends', 'false', 'final', 'finally', 'for', 'fn', 'from', 'func', 'function',
+    'go', 'goto', 'if', 'impl', 'implements', 'import', 'in', 'instanceof', 'interface', 'let', 'match', 'mut', 'namespace',
+    'new', 'null', 'nullptr', 'override', 'package', 'private', 'protected', 'public', 'readonly', 'return', 'sizeof',
+    'static', 'struct', 'super', 'switch', 'this', 'throw', 'throws', 'true', 'try', 'type', 'typedef', 'typeof',
+    'undefined', 'union', 'using', 'var', 'virtual', 'void', 'volatile', 'while', 'yield',
+    'bool', 'boolean', 'byte', 'char', 'double', 'float', 'int', 'long', 'short', 'signed', 'string', 'unsigned'
+];
+
+const LANGUAGES: Record<string, Language> = {
+    c: {
+        keywords: new Set(C_LIKE_KEYWORDS),
+        lineComments: ['//'],
+        blockComment: ['/*', '*/'],
+        quotes: ['"', '\'', '`']
+    },
+    python: {
+        keywords: new Set([
+            'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif', 'else', 'except',
+            'False', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'None', 'nonlocal', 'not',
+            'or', 'pass', 'raise', 'return', 'self', 'True', 'try', 'while', 'with', 'yield'
+        ]),
+        lineComments: ['#'],
+        quotes: ['"', '\'']
+    },
+    shell: {
+        keywords: new Set([
+            'case', 'do', 'done', 'elif', 'else', 'esac', 'exit', 'export', 'fi', 'for', 'function', 'if', 'in', 'local',
+            'return', 'then', 'until', 'while'
+        ]),
+        lineComments: ['#'],
+        quotes: ['"', '\'']
+    },
+    ruby: {
+        keywords: new Set([
+            'begin', 'class', 'def', 'do', 'else', 'elsif', 'end', 'ensure', 'false', 'if', 'module', 'nil', 'require',
+            'rescue', 'return', 'self', 'true', 'unless', 'until', 'when', 'while', 'yield'
+        ]),
+        lineComments: ['#'],
+        quotes: ['"', '\'']
+    },
+    sql: {
+        keywords: new Set([
+            'ALTER', 'AND', 'AS', 'BY', 'CREATE', 'DELETE', 'DROP', 'FROM', 'GROUP', 'INDEX', 'INSERT', 'INTO', 'JOIN',
+            'KEY', 'LEFT', 'NOT', 'NULL', 'ON', 'OR', 'ORDER', 'PRIMARY', 'SELECT', 'SET', 'TABLE', 'UPDATE', 'VALUES', 'WHERE'
+        ]),
+        lineComments: ['--'],
+        blockComment: ['/*', '*/'],
+        quotes: ['\'', '"']
+    },
+    markup: {
+        keywords: new Set(),
+        lineComments: [],
+        blockComment: ['<!--', '-->'],
+        quotes: ['"', '\'']
+    },
+    css: {
+        keywords: new Set(['important', 'inherit', 'initial', 'none', 'auto']),
+        lineComments: [],
+        blockComment: ['/*', '*/'],
+        quotes: ['"', '\'']
+    },
+    plain: {
+        keywords: new Set(),
+        lineComments: [],
+        quotes: []
+    }
+};
+
+const LANGUAGE_BY_EXTENSION: Record<string, string> = {
+    '.c': 'c', '.h': 'c', '.cc': 'c', '.cpp': 'c', '.cxx': 'c', '.hpp': 'c', '.cs': 'c', '.java': 'c', '.kt': 'c',
+    '.scala': 'c', '.go': 'c', '.rs': 'c', '.swift': 'c', '.js': 'c', '.jsx': 'c', '.mjs': 'c', '.ts': 'c', '.tsx': 'c',
+    '.php': 'c', '.groovy': 'c', '.gradle': 'c',
+    '.py': 'python',
+    '.sh': 'shell', '.bash': 'shell', '.pl': 'shell', '.pm': 'shell', '.mk': 'shell', '.cmake': 'shell', '.yml': 'shell',
+    '.yaml': 'shell', '.properties': 'shell', '.conf': 'shell', '.toml': 'shell', '.ini': 'shell',
+    '.rb': 'ruby',
+    '.sql': 'sql',
+    '.html': 'markup', '.htm': 'markup', '.xml': 'markup', '.xsd': 'markup', '.svg': 'markup', '.vue': 'markup',
+    '.csproj': 'markup', '.pom': 'markup',
+    '.css': 'css', '.scss': 'css', '.less': 'css'
+};
+
+const SPECIAL_FILES: Record<string, string> = {
+    'makefile': 'shell', 'dockerfile': 'shell', 'cmakelists.txt': 'shell', 'jenkinsfile': 'c'
+};
+
+/** Picks the highlighting rules for a file from its name; unknown files are not highlighted. */
+export function languageForPath(filePath: string): string {
+    const baseName = path.posix.basename(filePath).toLowerCase();
+    return SPECIAL_FILES[baseName] ?? LANGUAGE_BY_EXTENSION[path.posix.extname(baseName)] ?? 'plain';
+}
+
+/**
+ * Splits one line into tokens covering it completely. This is a lexical
+ * approximation (keywords, strings, comments, numbers), not a full grammar, so
+ * it works on the fragments a diff shows. `state` tracks block comments across lines.
+ */
+export function tokenizeLine(text: string, languageId: string, state: HighlightState): Token[] {
+    const language = LANGUAGES[languageId] ?? LANGUAGES.plain;
+    const ignoreCase = languageId === 'sql';
+    const tokens: Token[] = [];
+    const push = (start: number, end: number, cls?: TokenClass) => {
+        const last = tokens[tokens.length - 1];
+        if (last && !cls && !last.cls && last.end === start) {
+            last.end = end;
+        } else if (end > start) {
+            tokens.push({ start, end, cls });
+        }
+    };
+
+    let i = 0;
+    while (i < text.length) {
+        if (state.inBlockComment && language.blockComment) {
+            const close = text.indexOf(language.blockComment[1], i);
+            const end = close === -1 ? text.length : close + language.blockComment[1].length;
+            push(i, end, 'comment');
+            state.inBlockComment = close === -1;
+            i = end;
+            continue;
+        }
+        if (language.blockComment && text.startsWith(language.blockComment[0], i)) {
+            state.inBlockComment = true;
+            push(i, i + language.blockComment[0].length, 'comment');
+            i += language.blockComment[0].length;
+            continue;
+        }
+        if (language.lineComments.some(marker => text.startsWith(marker, i))) {
+            push(i, text.length, 'comment');
+            break;
+        }
+
+        const char = text.charAt(i);
+        if (language.quotes.includes(char)) {
+            let end = i + 1;
+            while (end < text.length && text.charAt(end) !== char) {
+                end += text.charAt(end) === '\\' ? 2 : 1;
+            }
+            end = Math.min(end + 1, text.length);
+            push(i, end, 'string');
+            i = end;
+            continue;
+        }
+
+        const word = /^[A-Za-z_$][\w$]*/.exec(text.substring(i));
+        if (word) {
+            const isKeyword = language.keywords.has(ignoreCase ? word[0].toUpperCase() : word[0]);
+            push(i, i + word[0].length, isKeyword ? 'keyword' : undefined);
+            i += word[0].length;
+            continue;
+        }
+        const number = /^\d[\w.]*/.exec(text.substring(i));
+        if (number) {
+            push(i, i + number[0].length, 'number');
+            i += number[0].length;
+            continue;
+        }
+
+        push(i, i + 1);
+        i++;
+    }
+    return tokens;
+}
@@ -0,0 +1,65 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import { FIXTURE_AUTHOR, MAIN_GREETING, MAIN_ORIGINAL } from './svnFixture';
+
+export interface GitFixture {
+    /** The clone's root directory. */
+    directory: string;
+    /** Hashes of the commits on `main`, oldest first. */
+    commits: string[];
+    /** Commits on `main` with `message`, dated `date`, and returns its hash. */
+    commit(message: string, date: string, files: Record<string, string>): string;
+    /** Commits on a new branch from `base` without checking it out, and returns its hash. */
+    commitOnBranch(branch: string, base: string, message: string, date: string): string;
+    git(args: string[]): string;
+    dispose(): void;
+}
+
+/**
+ * Creates a Git repository in a temporary directory with the commits:
+ *
+ * 1. `src/main.c`
+ * 2. a change to `main.c` for #52438
+ * 3. `main.c` renamed to `greeting.c`, for #52440
+ */
+export function createGitFixture(): GitFixture {
+    const directory = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'ticket-changesets-git-')));
+    const git = (args: string[], env: Record<string, string> = {}) => execFileSync('git', [
+        '-c', `user.name=${FIXTURE_AUTHOR}`,
+        '-c', `user.email=${FIXTURE_AUTHOR}@example.com`,
+        '-c', 'commit.gpgSign=false',
+        ...args
+    ], { cwd: directory, env: { ...process.env, ...env }, encoding: 'utf8' });
+    const dated = (date: string) => ({ GIT_AUTHOR_DATE: date, GIT_COMMITTER_DATE: date });
+    const commit = (message: string, date: string, files: Record<string, string>) => {
+        for (const [filePath, content] of Object.entries(files)) {
+            fs.mkdirSync(path.dirname(path.join(directory, filePath)), { recursive: true });
+            fs.writeFileSync(path.join(directory, filePath), content);
+        }
+        git(['add', '--all']);
+        git(['commit', '--quiet', '-m', message], dated(date));
+        return git(['rev-parse', 'HEAD']).trim();
+    };
+
+    git(['init', '--quiet', '--initial-branch=main']);
+    const commits = [commit('Add the program', '2024-03-01T09:00:00Z', { 'src/main.c': MAIN_ORIGINAL })];
+    commits.push(commit('refs #52438: print a greeting', '2024-03-03T09:00:00Z', { 'src/main.c': MAIN_GREETING }));
+    git(['mv', 'src/main.c', 'src/greeting.c']);
+    commits.push(commit('#52440 move the greeting', '2024-03-05T09:00:00Z', {}));
+
+    return {
+        directory,
+        commits,
+        commit,
+        commitOnBranch: (branch, base, message, date) => {
+            const tree = git(['rev-parse', `${base}^{tree}`]).trim();
+            const hash = git(['commit-tree', tree, '-p', base, '-m', message], dated(date)).trim();
+            git(['update-ref', `refs/heads/${branch}`, hash]);
+            return hash;
+        },
+        git: args => git(args),
+        dispose: () => fs.rmSync(directory, { recursive: true, force: true })
+    };
+}
@@ -0,0 +1,23 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import Module = require('module');
+
+/**
+ * Runs the test suites with Node's built-in test runner, outside an extension
+ * host: the suites cover parsers, clients, exports and the tracker providers,
+ * and the few `vscode` APIs those modules touch come from `vscodeStub`.
+ */
+function main(): void {
+    const loader = Module as unknown as { _resolveFilename(request: string, ...rest: unknown[]): string };
+    const resolveFilename = loader._resolveFilename;
+    loader._resolveFilename = function (request: string, ...rest: unknown[]): string {
+        return resolveFilename.call(this, request === 'vscode' ? path.join(__dirname, 'vscodeStub') : request, ...rest);
+    };
+
+    const suiteDirectory = path.join(__dirname, 'suite');
+    for (const file of fs.readdirSync(suiteDirectory).filter(name => name.endsWith('.test.js')).sort()) {
+        require(path.join(suiteDirectory, file));
+    }
+}
+
+main();
@@ -0,0 +1,85 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { filterDiffToPaths, filterResultToPaths, historyPaths } from '../../fileTickets';
+import { Changeset } from '../../svn';
+import { parseUnifiedDiff } from '../../unifiedDiff';
+
+const CREATE: Changeset = {
+    revision: 10,
+    author: 'jean-luc.picard',
+    date: '2024-03-01T09:00:00.000000Z',
+    message: '#52438 add the greeting',
+    paths: [
+        { path: '/trunk/src/main.c', action: 'M', kind: 'file', textModified: true, propertiesModified: false },
+        { path: '/trunk/src/hello.c', action: 'A', kind: 'file', textModified: true, propertiesModified: false }
+    ]
+};
+
+const RENAME: Changeset = {
+    revision: 12,
+    author: 'jean-luc.picard',
+    date: '2024-03-02T09:00:00.000000Z',
+    message: '#52438 rename the greeting',
+    paths: [
+        { path: '/trunk/src/hello.c', action: 'D', kind: 'file', textModified: false, propertiesModified: false },
+        { path: '/trunk/src/greeting.c', action: 'A', kind: 'file', copyFromPath: '/trunk/src/hello.c', copyFromRevision: 11, textModified: false, propertiesModified: false }
+    ]
+};
+
+const UNRELATED: Changeset = {
+    revision: 14,
+    author: 'mary-anne.o-brien',
+    date: '2024-03-03T09:00:00.000000Z',
+    message: '#52438 update the readme',
+    paths: [{ path: '/trunk/README', action: 'M', kind: 'file', textModified: true, propertiesModified: false }]
+};
+
+const REPOSITORY_DIFF = `Index: trunk/src/main.c
+===================================================================
+--- trunk/src/main.c	(revision 9)
++++ trunk/src/main.c	(revision 10)
+@@ -1 +1,2 @@
++#include "hello.h"
+ int main(void);
+Index: trunk/src/hello.c
+===================================================================
+--- trunk/src/hello.c	(nonexistent)
++++ trunk/src/hello.c	(revision 10)
+@@ -0,0 +1 @@
++void hello(void);
+`;
+
+describe('historyPaths', () => {
+    it('follows a file back through renames', () => {
+        assert.deepStrictEqual(historyPaths([CREATE, RENAME], '/trunk/src/greeting.c'), ['/trunk/src/greeting.c', '/trunk/src/hello.c']);
+    });
+});
+
+describe('filterResultToPaths', () => {
+    const result = {
+        tickets: ['52438'],
+        changesets: [UNRELATED, RENAME, CREATE],
+        changesetsByTicket: new Map([['52438', [UNRELATED, RENAME, CREATE]]]),
+        branches: new Map<number, string>(),
+        mergeStatus: new Map()
+    };
+
+    it('keeps the changesets and changed paths below the paths, and the paths', () => {
+        const filtered = filterResultToPaths(result, ['/trunk/src/greeting.c', '/trunk/src/hello.c']);
+        assert.deepStrictEqual(filtered.changesets.map(changeset => [changeset.revision, changeset.paths.map(changedPath => changedPath.path)]), [
+            [12, ['/trunk/src/hello.c', '/trunk/src/greeting.c']],
+            [10, ['/trunk/src/hello.c']]
+        ]);
+        assert.deepStrictEqual(filtered.changesetsByTicket.get('52438')?.map(changeset => changeset.revision), [12, 10]);
+        assert.deepStrictEqual(filtered.paths, ['/trunk/src/greeting.c', '/trunk/src/hello.c']);
+    });
+});
+
+describe('filterDiffToPaths', () => {
+    it('keeps the files of a repository diff at or below the paths', () => {
+        const files = parseUnifiedDiff(REPOSITORY_DIFF);
+        assert.deepStrictEqual(filterDiffToPaths(files, ['/trunk/src/hello.c']).map(file => file.path), ['trunk/src/hello.c']);
+        assert.deepStrictEqual(filterDiffToPaths(files, ['/trunk/src']).map(file => file.path), ['trunk/src/main.c', 'trunk/src/hello.c']);
+        assert.deepStrictEqual(filterDiffToPaths(files, ['/trunk/src/hello']), []);
+    });
+});
@@ -0,0 +1,130 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import type * as vscode from 'vscode';
+import { after, before, describe, it } from 'node:test';
+import { GitClient } from '../../git';
+import { LogOptions, formatRevision } from '../../svn';
+import { TicketIndex } from '../../ticketIndex';
+import { DEFAULT_TICKET_PATTERNS, compileTicketPatterns } from '../../tickets';
+import { WorkingCopyManager, detectWorkingCopy } from '../../workingCopies';
+import { outputLines, workspace } from '../vscodeStub';
+import { FIXTURE_AUTHOR, MAIN_GREETING, MAIN_ORIGINAL } from '../svnFixture';
+import { GitFixture, createGitFixture } from '../gitFixture';
+
+describe('GitClient', () => {
+    let fixture: GitFixture;
+    let client: GitClient;
+
+    before(() => {
+        fixture = createGitFixture();
+        client = new GitClient('git', fixture.directory, false);
+    });
+
+    after(() => fixture?.dispose());
+
+    it('detects the clone by its root from a subfolder, without logging that it is not an SVN working copy', async () => {
+        const logged = outputLines.length;
+        assert.deepStrictEqual(await detectWorkingCopy(path.join(fixture.directory, 'src'), 'svn', 'git'),
+            { path: fixture.directory, kind: 'git', gitSvn: false });
+        assert.deepStrictEqual(outputLines.slice(logged), []);
+    });
+
+    it('logs the commits newest first, identified by their hashes', async () => {
+        const changesets = await client.log();
+        assert.deepStrictEqual(changesets.map(changeset => changeset.commit), [...fixture.commits].reverse());
+        assert.deepStrictEqual(changesets.map(changeset => changeset.revision), [3, 2, 1]);
+        assert.ok(changesets.every(changeset => changeset.author === FIXTURE_AUTHOR));
+        assert.strictEqual(formatRevision(changesets[0]), fixture.commits[2].substring(0, 7));
+
+        // The rename's source is the parent commit, whose number would mean nothing in another session
+        assert.deepStrictEqual(changesets[0].paths, [
+            { path: '/src/greeting.c', action: 'A', kind: 'file', textModified: true, propertiesModified: false, copyFromPath: '/src/main.c' },
+            { path: '/src/main.c', action: 'D', kind: 'file', textModified: false, propertiesModified: false }
+        ]);
+    });
+
+    it('searches the messages for tickets', async () => {
+        const changesets = await client.log({ search: ['#52438'] });
+        assert.deepStrictEqual(changesets.map(changeset => changeset.commit), [fixture.commits[1]]);
+    });
+
+    it('diffs and reads files by revision number', async () => {
+        assert.match(await client.diff(2), /^\+#include <stdio\.h>$/m);
+        assert.strictEqual(await client.cat(await client.pegUrl('/src/main.c', 1), 1), MAIN_ORIGINAL);
+        assert.strictEqual(await client.cat(await client.pegUrl('/src/greeting.c', 3), 2), MAIN_GREETING);
+    });
+
+    it('keeps the numbers of commits when older commits are fetched', async () => {
+        // Dated before the second commit, so numbering by date would move the later commits
+        const older = fixture.commitOnBranch('topic', fixture.commits[0], 'Work from an old branch', '2024-03-02T09:00:00Z');
+
+        const [fetched] = await client.getCommits([older]);
+        assert.deepStrictEqual([fetched.commit, fetched.revision], [older, 4]);
+        assert.deepStrictEqual((await client.log()).map(changeset => changeset.revision), [3, 2, 1]);
+        assert.strictEqual((await client.getChangeset(2))?.commit, fixture.commits[1]);
+    });
+
+    it('looks commits up by hash, leaving out ones that no longer exist', async () => {
+        const changesets = await client.getCommits([fixture.commits[0], '0123456789abcdef0123456789abcdef01234567']);
+        assert.deepStrictEqual(changesets.map(changeset => [changeset.commit, changeset.revision]), [[fixture.commits[0], 1]]);
+    });
+});
+
+describe('TicketIndex in a Git clone', () => {
+    let fixture: GitFixture;
+    let client: GitClient;
+    const logged: LogOptions[] = [];
+
+    before(() => {
+        fixture = createGitFixture();
+        client = new GitClient('git', fixture.directory, false);
+        const log = client.log.bind(client);
+        client.log = options => {
+            logged.push(options ?? {});
+            return log(options);
+        };
+    });
+
+    after(() => fixture?.dispose());
+
+    it('logs only the commits since the last update', async () => {
+        const index = new TicketIndex();
+        const patterns = compileTicketPatterns(DEFAULT_TICKET_PATTERNS);
+        await index.build(client, patterns, undefined, 'clone');
+        assert.deepStrictEqual(index.search(['52438'], patterns).changesets.map(changeset => changeset.commit), [fixture.commits[1]]);
+
+        const fix = fixture.commit('#52438 greet in capitals', '2024-03-07T09:00:00Z', { 'src/greeting.c': MAIN_GREETING.replace('hello', 'HELLO') });
+        await index.build(client, patterns, undefined, 'clone');
+        assert.deepStrictEqual(logged, [{}, { after: fixture.commits[2] }]);
+        assert.strictEqual(index.revisionCount, 4);
+        assert.deepStrictEqual(index.search(['52438'], patterns).changesets.map(changeset => changeset.commit), [fix, fixture.commits[1]]);
+    });
+});
+
+describe('WorkingCopyManager', () => {
+    let fixture: GitFixture;
+
+    before(() => {
+        fixture = createGitFixture();
+        // A clone nested in the workspace folder, and one in a dependency folder that is left out
+        fixture.git(['init', '--quiet', path.join('libs', 'core')]);
+        fixture.git(['init', '--quiet', path.join('node_modules', 'greeting')]);
+        workspace.workspaceFolders = [{ uri: { fsPath: fixture.directory }, name: 'app' }];
+    });
+
+    after(() => {
+        workspace.workspaceFolders = [];
+        fixture?.dispose();
+    });
+
+    it('finds the clones nested in the workspace folders', async () => {
+        const memento = { get: <T>(_key: string, defaultValue?: T) => defaultValue } as vscode.Memento;
+        const manager = new WorkingCopyManager(memento, () => { throw new Error('No clients in this test'); });
+        assert.deepStrictEqual((await manager.list()).map(workingCopy => workingCopy.path), [
+            fixture.directory,
+            path.join(fixture.directory, 'libs', 'core')
+        ]);
+        assert.ok(fs.existsSync(path.join(fixture.directory, 'node_modules', 'greeting', '.git')));
+    });
+});
@@ -0,0 +1,98 @@
+import * as assert from 'assert';
+import type * as vscode from 'vscode';
+import { describe, it } from 'node:test';
+import { ReviewManager } from '../../review';
+import { Changeset } from '../../svn';
+import { VcsProvider } from '../../vcs';
+import { executedCommands } from '../vscodeStub';
+
+function changeset(revision: number, filePath = '/trunk/src/main.c'): Changeset {
+    return {
+        revision,
+        author: 'jean-luc.picard',
+        date: '2024-03-01T09:00:00.000000Z',
+        message: '#52438 print a greeting',
+        paths: [{ path: filePath, action: 'M', kind: 'file', textModified: true, propertiesModified: false }]
+    };
+}
+
+/** The parts of a client reviews are keyed by: the working copy and its repository. */
+function svnClient(cwd: string, repositoryRoot: string): VcsProvider {
+    return { kind: 'svn', cwd, getRepositoryRoot: async () => repositoryRoot } as Partial<VcsProvider> as VcsProvider;
+}
+
+class MemoryMemento {
+    private readonly values = new Map<string, unknown>();
+
+    keys(): readonly string[] {
+        return Array.from(this.values.keys());
+    }
+
+    get<T>(key: string, defaultValue?: T): T | undefined {
+        return this.values.has(key) ? this.values.get(key) as T : defaultValue;
+    }
+
+    async update(key: string, value: unknown): Promise<void> {
+        this.values.set(key, value);
+    }
+}
+
+const TICKETS = ['52438'];
+const APP = svnClient('/work/app', 'file:///repositories/app');
+
+describe('ReviewManager', () => {
+    it('keeps the review when older revisions are listed, e.g. by a wider search', async () => {
+        const memento = new MemoryMemento() as unknown as vscode.Memento;
+        const { review } = await new ReviewManager(memento).open(TICKETS, [changeset(12)], APP);
+        await review.setReviewed(12, '/trunk/src/main.c', true);
+
+        // A later session, whose search also found an older revision
+        const reopened = await new ReviewManager(memento).open(TICKETS, [changeset(12), changeset(10)], APP);
+        assert.strictEqual(reopened.invalidated, false);
+        assert.deepStrictEqual(reopened.review.reviewed, ['r12:/trunk/src/main.c']);
+        assert.deepStrictEqual([...reopened.review.revisions].sort(), ['10', '12']);
+    });
+
+    it('starts over when newer revisions were committed', async () => {
+        const memento = new MemoryMemento() as unknown as vscode.Memento;
+        const { review } = await new ReviewManager(memento).open(TICKETS, [changeset(12)], APP);
+        await review.setReviewed(12, '/trunk/src/main.c', true);
+
+        const reopened = await new ReviewManager(memento).open(TICKETS, [changeset(14), changeset(12)], APP);
+        assert.strictEqual(reopened.invalidated, true);
+        assert.deepStrictEqual(reopened.review.reviewed, []);
+    });
+
+    it('keeps reviews of panels restricted to a path apart from the full panel', async () => {
+        const reviews = new ReviewManager(new MemoryMemento() as unknown as vscode.Memento);
+        const filtered = await reviews.open(TICKETS, [changeset(12)], APP, ['/trunk/src/main.c']);
+        await filtered.review.setReviewed(12, '/trunk/src/main.c', true);
+
+        const full = await reviews.open(TICKETS, [changeset(14, '/trunk/README'), changeset(12)], APP);
+        assert.notStrictEqual(full.review, filtered.review);
+        assert.strictEqual(full.invalidated, false);
+        assert.deepStrictEqual(filtered.review.reviewed, ['r12:/trunk/src/main.c']);
+    });
+
+    it('keeps reviews of the same ticket in different repositories apart', async () => {
+        const reviews = new ReviewManager(new MemoryMemento() as unknown as vscode.Memento);
+        const app = await reviews.open(TICKETS, [changeset(12)], APP);
+        await app.review.setReviewed(12, '/trunk/src/main.c', true);
+
+        const library = await reviews.open(TICKETS, [changeset(12)], svnClient('/work/library', 'file:///repositories/library'));
+        assert.notStrictEqual(library.review, app.review);
+        assert.deepStrictEqual(library.review.reviewed, []);
+    });
+
+    it('disables the review commands once the last review panel is closed', async () => {
+        const reviews = new ReviewManager(new MemoryMemento() as unknown as vscode.Memento);
+        await reviews.open(TICKETS, [changeset(12)], APP);
+        await reviews.open(TICKETS, [changeset(12)], APP);
+        const reviewActive = () => executedCommands.filter(([command, key]) => command === 'setContext' && key === 'ticketChangesetsViewer.reviewActive').pop()?.[2];
+
+        reviews.release();
+        assert.strictEqual(reviewActive(), true);
+        reviews.release();
+        assert.strictEqual(reviewActive(), false);
+    });
+});
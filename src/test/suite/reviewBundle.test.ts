@@ -0,0 +1,112 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { describe, it } from 'node:test';
+import { ReviewBundle, ReviewBundleFormat, formatReviewBundle } from '../../reviewBundle';
+import { Changeset } from '../../svn';
+
+/** Expected exports, in the source tree; run with `UPDATE_GOLDEN=1` to rewrite them after an intended change. */
+const GOLDEN_DIRECTORY = path.join(__dirname, '..', '..', '..', 'src', 'test', 'fixtures', 'reviewBundle');
+
+const GREETING: Changeset = {
+    revision: 1203,
+    author: 'jean-luc.picard',
+    date: '2024-03-04T09:00:00.000000Z',
+    message: 'refs #52438: print a greeting | politely\n\nUses `printf` instead of ```puts```.',
+    paths: [
+        { path: '/trunk/src/main.c', action: 'M', kind: 'file', textModified: true, propertiesModified: false }
+    ]
+};
+
+const RENAME: Changeset = {
+    revision: 1210,
+    author: 'mary-anne.o-brien',
+    date: '2024-03-05T10:15:30.123456Z',
+    message: '#52438 move the greeting <into> its own file & header',
+    paths: [
+        { path: '/branches/1.2/src/greeting.c', action: 'A', kind: 'file', copyFromPath: '/branches/1.2/src/main.c', copyFromRevision: 1209, textModified: true, propertiesModified: false },
+        { path: '/branches/1.2/src/greeting.h', action: 'A', kind: 'file', textModified: true, propertiesModified: false }
+    ]
+};
+
+const DIFFS = new Map<number, string>([
+    [GREETING.revision, `Index: src/main.c
+===================================================================
+--- src/main.c	(revision 1202)
++++ src/main.c	(revision 1203)
+@@ -1,4 +1,7 @@
++#include <stdio.h>
++
+ int main(void)
+ {
++    printf("hello\\n");
+     return 0;
+ }
+`],
+    [RENAME.revision, `Index: src/greeting.c
+===================================================================
+--- src/greeting.c	(nonexistent)
++++ src/greeting.c	(revision 1210)
+@@ -0,0 +1,6 @@
++#include "greeting.h"
++
++void greet(void)
++{
++    printf("hello\\n");
++}
+Index: src/greeting.h
+===================================================================
+--- src/greeting.h	(nonexistent)
++++ src/greeting.h	(revision 1210)
+@@ -0,0 +1 @@
++void greet(void);
+`]
+]);
+
+const BUNDLE: ReviewBundle = {
+    ticketLabel: '#52438',
+    result: {
+        tickets: ['52438'],
+        // Newest first, as searches return them
+        changesets: [RENAME, GREETING],
+        changesetsByTicket: new Map([['52438', [RENAME, GREETING]]]),
+        branches: new Map([[GREETING.revision, '/trunk'], [RENAME.revision, '/branches/1.2']]),
+        mergeStatus: new Map([[GREETING.revision, 'merged'], [RENAME.revision, 'committed']])
+    },
+    diffs: DIFFS
+};
+
+const GOLDEN_FILES: Record<ReviewBundleFormat, string> = {
+    markdown: 'bundle.md',
+    html: 'bundle.html',
+    patch: 'bundle.patch'
+};
+
+describe('review bundles', () => {
+    for (const [format, fileName] of Object.entries(GOLDEN_FILES) as [ReviewBundleFormat, string][]) {
+        it(`exports ${format} matching ${fileName}`, () => {
+            const goldenPath = path.join(GOLDEN_DIRECTORY, fileName);
+            const content = formatReviewBundle(BUNDLE, format);
+            if (process.env.UPDATE_GOLDEN) {
+                fs.writeFileSync(goldenPath, content);
+            }
+            assert.strictEqual(content, fs.readFileSync(goldenPath, 'utf8'));
+        });
+
+        it(`exports ${format} the same way every time`, () => {
+            assert.strictEqual(formatReviewBundle(BUNDLE, format), formatReviewBundle(BUNDLE, format));
+        });
+    }
+
+    it('labels Git commits by their short hashes', () => {
+        const commit: Changeset = { ...GREETING, commit: '3f9c2ab51e0d4c7a8b6e2f1d9c0a7b5e4d3c2b1a' };
+        const bundle: ReviewBundle = {
+            ticketLabel: '#52438',
+            result: { tickets: ['52438'], changesets: [commit], changesetsByTicket: new Map([['52438', [commit]]]), branches: new Map(), mergeStatus: new Map() },
+            diffs: DIFFS
+        };
+        assert.match(formatReviewBundle(bundle, 'markdown'), /^## Commit 3f9c2ab$/m);
+        assert.match(formatReviewBundle(bundle, 'patch'), /^# 3f9c2ab by jean-luc\.picard: refs #52438/m);
+        assert.doesNotMatch(formatReviewBundle(bundle, 'html'), /r1203|Revision 1203/);
+    });
+});
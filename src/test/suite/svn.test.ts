@@ -0,0 +1,345 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { after, before, describe, it } from 'node:test';
+import { LogXmlStream, SvnClient, classifySvnError, formatPreviousRevision, formatRevision, formatRevisionTitle, isWithinPath, parseDiffSummaryXml, parseInfoXml, parseLogXml, revisionKey } from '../../svn';
+import { CachedSvnClient } from '../../cachedSvnClient';
+import { VcsError } from '../../process';
+import { detectWorkingCopy } from '../../workingCopies';
+import { FIXTURE_AUTHOR, GREETING_MESSAGE, MAIN_GREETING, MAIN_ORIGINAL, SvnFixture, createSvnFixture, svnAvailable } from '../svnFixture';
+
+const LOG_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<log>
+<logentry
+   revision="4">
+<author>jean-luc.picard</author>
+<date>2024-03-05T10:15:30.123456Z</date>
+<paths>
+<path
+   copyfrom-path="/trunk/src/main.c"
+   copyfrom-rev="3"
+   action="A"
+   prop-mods="false"
+   text-mods="false"
+   kind="file">/trunk/src/greeting.c</path>
+<path
+   action="M"
+   prop-mods="true"
+   text-mods="false"
+   kind="file">/trunk/src/main.c</path>
+</paths>
+<msg>#52440 copy the greeting &amp; keep &lt;main&gt;</msg>
+</logentry>
+<logentry
+   revision="3">
+<author>mary-anne.o-brien</author>
+<date>2024-03-04T09:00:00.000000Z</date>
+<paths>
+<path
+   action="M"
+   prop-mods="false"
+   text-mods="true"
+   kind="file">/trunk/src/main.c</path>
+</paths>
+<msg>refs #52438: print a greeting
+------------------------------------------------------------------------
+The line above is part of the message.</msg>
+</logentry>
+</log>
+`;
+
+const INFO_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<info>
+<entry
+   kind="dir"
+   path="."
+   revision="4">
+<url>file:///srv/svn/project/branches/release%201.0</url>
+<relative-url>^/branches/release%201.0</relative-url>
+<repository>
+<root>file:///srv/svn/project</root>
+<uuid>0b7c3d2e-5f6a-4b8c-9d0e-1f2a3b4c5d6e</uuid>
+</repository>
+<wc-info>
+<wcroot-abspath>/home/dev/release</wcroot-abspath>
+<schedule>normal</schedule>
+<depth>infinity</depth>
+</wc-info>
+<commit
+   revision="4">
+<author>jean-luc.picard</author>
+<date>2024-03-05T10:15:30.123456Z</date>
+</commit>
+</entry>
+</info>
+`;
+
+const DIFF_SUMMARY_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<diff>
+<paths>
+<path
+   item="modified"
+   props="none"
+   kind="file">file:///srv/svn/project/trunk/src/main.c</path>
+<path
+   item="added"
+   props="modified"
+   kind="dir">file:///srv/svn/project/trunk/docs</path>
+<path
+   item="deleted"
+   props="none"
+   kind="file">file:///srv/svn/project/trunk/old.txt</path>
+</paths>
+</diff>
+`;
+
+describe('parseLogXml', () => {
+    it('returns each entry with its changed paths', () => {
+        const [copy, change] = parseLogXml(LOG_XML);
+        assert.deepStrictEqual(copy, {
+            revision: 4,
+            author: 'jean-luc.picard',
+            date: '2024-03-05T10:15:30.123456Z',
+            message: '#52440 copy the greeting & keep <main>',
+            paths: [
+                {
+                    path: '/trunk/src/greeting.c',
+                    action: 'A',
+                    kind: 'file',
+                    copyFromPath: '/trunk/src/main.c',
+                    copyFromRevision: 3,
+                    textModified: false,
+                    propertiesModified: false
+                },
+                { path: '/trunk/src/main.c', action: 'M', kind: 'file', textModified: false, propertiesModified: true }
+            ]
+        });
+        assert.strictEqual(change.author, 'mary-anne.o-brien');
+        assert.strictEqual(change.message, GREETING_MESSAGE);
+    });
+
+    it('returns no entries for an empty log', () => {
+        assert.deepStrictEqual(parseLogXml('<?xml version="1.0" encoding="UTF-8"?>\n<log>\n</log>\n'), []);
+    });
+
+    it('rejects output that is not a log', () => {
+        assert.throws(() => parseLogXml('svn: E155007: not a working copy'), /Could not parse SVN log output/);
+    });
+});
+
+describe('LogXmlStream', () => {
+    for (const chunkSize of [1, 7, 64, LOG_XML.length]) {
+        it(`parses the log written in chunks of ${chunkSize} characters`, () => {
+            const stream = new LogXmlStream();
+            for (let i = 0; i < LOG_XML.length; i += chunkSize) {
+                stream.write(LOG_XML.substring(i, i + chunkSize));
+            }
+            assert.deepStrictEqual(stream.end(), parseLogXml(LOG_XML));
+        });
+    }
+
+    it('keeps an escaped end tag in a message', () => {
+        const xml = LOG_XML.replace('copy the greeting', 'copy &lt;/logentry&gt;');
+        const stream = new LogXmlStream();
+        stream.write(xml);
+        assert.strictEqual(stream.end()[0].message, '#52440 copy </logentry> & keep <main>');
+    });
+
+    it('rejects output that is not a log', () => {
+        const stream = new LogXmlStream();
+        stream.write('');
+        assert.throws(() => stream.end(), /Could not parse SVN log output/);
+    });
+});
+
+describe('parseInfoXml', () => {
+    it('returns the location of the working copy in the repository', () => {
+        assert.deepStrictEqual(parseInfoXml(INFO_XML), {
+            url: 'file:///srv/svn/project/branches/release%201.0',
+            repositoryRoot: 'file:///srv/svn/project',
+            repositoryUuid: '0b7c3d2e-5f6a-4b8c-9d0e-1f2a3b4c5d6e',
+            workingCopyPath: '/home/dev/release',
+            relativePrefix: 'branches/release 1.0',
+            revision: 4
+        });
+    });
+
+    it('rejects output without an entry', () => {
+        assert.throws(() => parseInfoXml('<?xml version="1.0" encoding="UTF-8"?>\n<info>\n</info>\n'), /Could not parse SVN info output/);
+    });
+});
+
+describe('parseDiffSummaryXml', () => {
+    it('returns the status of each changed path', () => {
+        assert.deepStrictEqual(parseDiffSummaryXml(DIFF_SUMMARY_XML), [
+            { path: 'file:///srv/svn/project/trunk/src/main.c', item: 'modified', kind: 'file', propertiesModified: false },
+            { path: 'file:///srv/svn/project/trunk/docs', item: 'added', kind: 'dir', propertiesModified: true },
+            { path: 'file:///srv/svn/project/trunk/old.txt', item: 'deleted', kind: 'file', propertiesModified: false }
+        ]);
+    });
+
+    it('returns nothing when nothing changed', () => {
+        assert.deepStrictEqual(parseDiffSummaryXml('<?xml version="1.0" encoding="UTF-8"?>\n<diff>\n<paths>\n</paths>\n</diff>\n'), []);
+    });
+});
+
+describe('formatRevision', () => {
+    const svnRevision = { revision: 1234 };
+    const gitCommit = { revision: 17, commit: '3f9c2ab51e0d4c7a8b6e2f1d9c0a7b5e4d3c2b1a' };
+
+    it('shows SVN revisions by number and Git commits by short hash', () => {
+        assert.deepStrictEqual([formatRevision(svnRevision), formatPreviousRevision(svnRevision), formatRevisionTitle(svnRevision)], ['r1234', 'r1233', 'Revision 1234']);
+        assert.deepStrictEqual([formatRevision(gitCommit), formatPreviousRevision(gitCommit), formatRevisionTitle(gitCommit)], ['3f9c2ab', '3f9c2ab^', 'Commit 3f9c2ab']);
+    });
+
+    it('keys Git commits by hash, as their numbers only hold for a session', () => {
+        assert.strictEqual(revisionKey(svnRevision), '1234');
+        assert.strictEqual(revisionKey(gitCommit), gitCommit.commit);
+    });
+});
+
+describe('isWithinPath', () => {
+    const cases: [string, string, boolean][] = [
+        ['/trunk/src/main.c', '/trunk/src', true],
+        ['/trunk/src/main.c', 'trunk/src/', true],
+        ['/trunk/src/main.c', '/trunk/src/main.c', true],
+        ['/trunk/src.orig/main.c', '/trunk/src', false],
+        ['/branches/1.x/src/main.c', 'trunk', false],
+        ['/trunk/src/main.c', '/', true],
+        ['/trunk/src/main.c', '', true]
+    ];
+
+    for (const [repositoryPath, prefix, expected] of cases) {
+        it(`${expected ? 'finds' : 'does not find'} ${repositoryPath} within '${prefix}'`, () => {
+            assert.strictEqual(isWithinPath(repositoryPath, prefix), expected);
+        });
+    }
+});
+
+describe('classifySvnError', () => {
+    const cases: [string, string][] = [
+        ['svn: E155007: \'/home/dev\' is not a working copy', 'notWorkingCopy'],
+        ['svn: E170001: Authorization failed', 'authRequired'],
+        ['svn: E170013: Unable to connect to a repository at URL\nsvn: E215004: No more credentials or we tried too many times.', 'authRequired'],
+        ['svn: E160013: \'/trunk/gone.c\' path not found', 'pathNotFound'],
+        ['svn: E160006: No such revision 99', 'pathNotFound'],
+        ['svn: warning: W160013: Unable to find repository location', 'pathNotFound'],
+        ['svn: E170013: Unable to connect to a repository at URL\nsvn: E670008: nodename nor servname provided', 'network'],
+        ['svn: E000111: Connection refused', 'network'],
+        ['svn: E200009: Could not cat all targets', 'pathNotFound'],
+        ['svn: E205000: Try \'svn help merge\' for more information', 'failed'],
+        ['', 'failed']
+    ];
+    for (const [stderr, kind] of cases) {
+        it(`classifies ${JSON.stringify(stderr.split('\n').pop())} as ${kind}`, () => {
+            assert.strictEqual(classifySvnError(stderr), kind);
+        });
+    }
+});
+
+describe('SvnClient', { skip: svnAvailable() ? false : 'svn and svnadmin are not installed' }, () => {
+    let fixture: SvnFixture;
+    let client: SvnClient;
+
+    before(() => {
+        fixture = createSvnFixture();
+        client = new SvnClient('svn', fixture.workingCopy);
+    });
+
+    after(() => fixture?.dispose());
+
+    it('reads the working copy location with svn info', async () => {
+        const info = await client.info();
+        assert.strictEqual(info.repositoryRoot, fixture.repositoryUrl);
+        assert.strictEqual(info.url, `${fixture.repositoryUrl}/trunk`);
+        assert.strictEqual(info.relativePrefix, 'trunk');
+        assert.strictEqual(info.workingCopyPath, fixture.workingCopy);
+        assert.strictEqual(info.revision, 4);
+        assert.match(info.repositoryUuid, /^[0-9a-f-]{36}$/);
+        assert.strictEqual(await client.repositoryPath(path.join(fixture.workingCopy, 'src', 'main.c')), '/trunk/src/main.c');
+    });
+
+    it('detects the working copy by its root from a subfolder', async () => {
+        assert.deepStrictEqual(await detectWorkingCopy(path.join(fixture.workingCopy, 'src'), 'svn', 'git'),
+            { path: fixture.workingCopy, kind: 'svn', gitSvn: false });
+    });
+
+    it('logs the history newest first with changed paths', async () => {
+        const changesets = await client.log();
+        assert.deepStrictEqual(changesets.map(changeset => changeset.revision), [4, 3, 2, 1]);
+        assert.ok(changesets.every(changeset => changeset.author === FIXTURE_AUTHOR));
+
+        const [copy, change] = changesets;
+        assert.strictEqual(change.message, GREETING_MESSAGE);
+        assert.deepStrictEqual(change.paths, [
+            { path: '/trunk/src/main.c', action: 'M', kind: 'file', textModified: true, propertiesModified: false }
+        ]);
+        assert.deepStrictEqual(copy.paths.find(changedPath => changedPath.path === '/trunk/src/greeting.c'), {
+            path: '/trunk/src/greeting.c',
+            action: 'A',
+            kind: 'file',
+            copyFromPath: '/trunk/src/main.c',
+            copyFromRevision: 3,
+            textModified: false,
+            propertiesModified: false
+        });
+        assert.strictEqual(copy.paths.find(changedPath => changedPath.path === '/trunk/src/main.c')?.propertiesModified, true);
+    });
+
+    it('logs ranges, searches and single revisions', async () => {
+        assert.deepStrictEqual((await client.log({ revision: '2:4' })).map(changeset => changeset.revision), [2, 3, 4]);
+        assert.deepStrictEqual((await client.log({ search: ['52438', '52440'] })).map(changeset => changeset.revision), [4, 3]);
+        assert.deepStrictEqual((await client.log({ limit: 1 })).map(changeset => changeset.revision), [4]);
+        assert.strictEqual((await client.getChangeset(3))?.message, GREETING_MESSAGE);
+    });
+
+    it('fails with a typed error for a revision that does not exist', async () => {
+        await assert.rejects(client.log({ revision: '99' }), (error: unknown) =>
+            error instanceof VcsError && error.kind === 'pathNotFound' && error.stderr.includes('E160006'));
+    });
+
+    it('fails with a typed error outside a working copy', async () => {
+        const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'not-a-working-copy-'));
+        try {
+            await assert.rejects(new SvnClient('svn', directory).info(), (error: unknown) =>
+                error instanceof VcsError && error.kind === 'notWorkingCopy');
+        } finally {
+            fs.rmSync(directory, { recursive: true, force: true });
+        }
+    });
+
+    it('diffs a revision', async () => {
+        const diff = await client.diff(3, await client.pegUrl('/trunk/src/main.c', 3));
+        assert.match(diff, /^\+#include <stdio\.h>$/m);
+        assert.match(diff, /^\+ {4}printf\("hello\\n"\);$/m);
+        assert.match(diff, /^ {5}return 0;$/m);
+    });
+
+    it('summarizes the changes between two revisions', async () => {
+        const summary = await client.diffSummarize(await client.pegUrl('/trunk', 2), await client.pegUrl('/trunk', 4));
+        const items = summary.map(entry => [entry.path.replace(/^.*?\/trunk\//, '/trunk/'), entry.item, entry.kind, entry.propertiesModified]);
+        assert.deepStrictEqual(items.sort(), [
+            ['/trunk/src/greeting.c', 'added', 'file', false],
+            ['/trunk/src/main.c', 'modified', 'file', true]
+        ]);
+    });
+
+    it('caches the history of a file, following copies back', async () => {
+        const storage = fs.mkdtempSync(path.join(os.tmpdir(), 'revision-cache-'));
+        try {
+            const cached = new CachedSvnClient('svn', fixture.workingCopy, storage);
+            const target = await cached.pegUrl('/trunk/src/greeting.c', 'HEAD');
+            assert.deepStrictEqual((await cached.log({ target })).map(changeset => changeset.revision), [4, 3, 2]);
+            assert.deepStrictEqual((await cached.log({ target, search: ['52438'] })).map(changeset => changeset.revision), [3]);
+        } finally {
+            fs.rmSync(storage, { recursive: true, force: true });
+        }
+    });
+
+    it('reads files as of a revision, following copies back', async () => {
+        assert.strictEqual(await client.cat(await client.pegUrl('/trunk/src/main.c', 2), 2), MAIN_ORIGINAL);
+        assert.strictEqual(await client.cat(await client.pegUrl('/trunk/src/main.c', 'HEAD'), 'HEAD'), MAIN_GREETING);
+        assert.strictEqual(await client.cat(await client.pegUrl('/trunk/src/greeting.c', 4), 2), MAIN_ORIGINAL);
+    });
+});
@@ -0,0 +1,157 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { ConflictRisk, compareTickets, renderTicketComparison } from '../../ticketCompare';
+import { Changeset } from '../../svn';
+import { DiffFile, parseUnifiedDiff } from '../../unifiedDiff';
+
+const MAIN = '/trunk/src/main.c';
+const README = '/trunk/README';
+
+/** A revision that changed `filePath` with hunks such as `@@ -9,5 +9,5 @@`. */
+interface Change {
+    ticket: 'A' | 'B' | 'both';
+    revision: number;
+    filePath?: string;
+    hunks: string[];
+}
+
+/** Writes the diff of a change, with as many context, deleted and added lines as the hunk headers count. */
+function changeDiff({ revision, filePath = MAIN, hunks }: Change): string {
+    const relativePath = filePath.substring(1);
+    const lines = [`Index: ${relativePath}`, '='.repeat(67), `--- ${relativePath}\t(revision ${revision - 1})`, `+++ ${relativePath}\t(revision ${revision})`];
+    for (const header of hunks) {
+        const [, oldLength, newLength] = /^@@ -\d+,(\d+) \+\d+,(\d+) @@$/.exec(header)?.map(Number) ?? [];
+        const context = Math.min(oldLength, newLength);
+        lines.push(header,
+            ...Array.from({ length: context }, (_, index) => ` context ${index}`),
+            ...Array.from({ length: oldLength - context }, (_, index) => `-removed ${index}`),
+            ...Array.from({ length: newLength - context }, (_, index) => `+added ${index}`));
+    }
+    return lines.join('\n') + '\n';
+}
+
+function compare(changes: Change[]) {
+    const changesetsByTicket = new Map<string, Changeset[]>([['A', []], ['B', []]]);
+    const diffs = new Map<number, DiffFile[]>();
+    for (const change of changes) {
+        const changeset: Changeset = {
+            revision: change.revision,
+            author: 'jean-luc.picard',
+            date: '2024-03-01T09:00:00.000000Z',
+            message: change.ticket === 'both' ? '#A #B' : `#${change.ticket}`,
+            paths: [{ path: change.filePath ?? MAIN, action: 'M', kind: 'file', textModified: true, propertiesModified: false }]
+        };
+        // Newest first, as searches return them
+        for (const ticket of change.ticket === 'both' ? ['A', 'B'] : [change.ticket]) {
+            changesetsByTicket.get(ticket)?.unshift(changeset);
+        }
+        diffs.set(change.revision, parseUnifiedDiff(changeDiff(change)));
+    }
+    return compareTickets(changesetsByTicket, diffs);
+}
+
+const cases: { name: string; changes: Change[]; risk: ConflictRisk; overlaps: [number, number][]; interleaved: boolean }[] = [
+    {
+        name: 'hunks changing the same lines',
+        changes: [
+            { ticket: 'A', revision: 10, hunks: ['@@ -9,5 +9,5 @@'] },
+            { ticket: 'B', revision: 11, hunks: ['@@ -10,3 +10,3 @@'] }
+        ],
+        risk: 'high',
+        overlaps: [[10, 11]],
+        interleaved: false
+    },
+    {
+        name: 'hunks far apart in a shared file',
+        changes: [
+            { ticket: 'A', revision: 10, hunks: ['@@ -2,3 +2,3 @@'] },
+            { ticket: 'B', revision: 11, hunks: ['@@ -20,3 +20,3 @@'] }
+        ],
+        risk: 'low',
+        overlaps: [],
+        interleaved: false
+    },
+    {
+        name: 'lines moved down by an insertion in between',
+        changes: [
+            { ticket: 'A', revision: 10, hunks: ['@@ -19,5 +19,5 @@'] },
+            // Ten lines added above, so A's lines 19 to 23 are 29 to 33 from here on
+            { ticket: 'B', revision: 11, hunks: ['@@ -1,3 +1,13 @@'] },
+            { ticket: 'B', revision: 12, hunks: ['@@ -29,5 +29,5 @@'] }
+        ],
+        risk: 'high',
+        overlaps: [[10, 12]],
+        interleaved: false
+    },
+    {
+        name: 'the same line numbers after a deletion in between',
+        changes: [
+            { ticket: 'A', revision: 10, hunks: ['@@ -20,5 +20,5 @@'] },
+            // Ten lines removed above, so A's lines 20 to 24 are 10 to 14 from here on
+            { ticket: 'A', revision: 11, hunks: ['@@ -1,13 +1,3 @@'] },
+            { ticket: 'B', revision: 12, hunks: ['@@ -20,5 +20,5 @@'] }
+        ],
+        risk: 'low',
+        overlaps: [],
+        interleaved: false
+    },
+    {
+        name: 'a hunk overlapping lines the other ticket changed in between',
+        changes: [
+            { ticket: 'A', revision: 10, hunks: ['@@ -5,3 +5,3 @@'] },
+            // Replaces A's lines with more lines, which B changes next
+            { ticket: 'A', revision: 11, hunks: ['@@ -4,5 +4,9 @@'] },
+            { ticket: 'B', revision: 12, hunks: ['@@ -10,3 +10,3 @@'] }
+        ],
+        risk: 'high',
+        overlaps: [[10, 12], [11, 12]],
+        interleaved: false
+    },
+    {
+        name: 'interleaved revisions on a shared file',
+        changes: [
+            { ticket: 'A', revision: 10, hunks: ['@@ -1,3 +1,3 @@'] },
+            { ticket: 'B', revision: 11, hunks: ['@@ -19,5 +19,5 @@'] },
+            { ticket: 'A', revision: 12, hunks: ['@@ -4,3 +4,3 @@'] }
+        ],
+        risk: 'medium',
+        overlaps: [],
+        interleaved: true
+    },
+    {
+        name: 'no shared files',
+        changes: [
+            { ticket: 'A', revision: 10, hunks: ['@@ -9,5 +9,5 @@'] },
+            { ticket: 'B', revision: 11, filePath: README, hunks: ['@@ -9,5 +9,5 @@'] }
+        ],
+        risk: 'none',
+        overlaps: [],
+        interleaved: false
+    }
+];
+
+describe('compareTickets', () => {
+    for (const { name, changes, risk, overlaps, interleaved } of cases) {
+        it(`rates ${name} as ${risk}`, () => {
+            const [pair] = compare(changes).pairs;
+            assert.strictEqual(pair.risk, risk);
+            assert.deepStrictEqual(pair.overlaps.map(overlap => [overlap.first.revision, overlap.second.revision]).sort(), overlaps);
+            assert.strictEqual(pair.interleaved, interleaved);
+        });
+    }
+
+    it('does not compare revisions that reference both tickets', () => {
+        const [pair] = compare([
+            { ticket: 'A', revision: 10, hunks: ['@@ -9,5 +9,5 @@'] },
+            { ticket: 'both', revision: 11, hunks: ['@@ -10,3 +10,3 @@'] },
+            { ticket: 'B', revision: 12, hunks: ['@@ -40,3 +40,3 @@'] }
+        ]).pairs;
+        assert.deepStrictEqual(pair.commonRevisions.map(changeset => changeset.revision), [11]);
+        assert.deepStrictEqual(pair.overlaps, []);
+        assert.strictEqual(pair.risk, 'low');
+    });
+
+    it('says that overlaps are an estimate', () => {
+        assert.match(renderTicketComparison(compare(cases[0].changes)), /Overlaps are an estimate/);
+    });
+});
@@ -0,0 +1,39 @@
+import * as assert from 'assert';
+import { after, before, describe, it } from 'node:test';
+import { GitClient } from '../../git';
+import { Changeset } from '../../svn';
+import { computeNetTicketDiff, findForeignRevisions } from '../../ticketDiff';
+import { GitFixture, createGitFixture } from '../gitFixture';
+
+describe('net ticket diff of a file the ticket renamed', () => {
+    let fixture: GitFixture;
+    let client: GitClient;
+    let ticketChangesets: Changeset[];
+
+    before(async () => {
+        fixture = createGitFixture();
+        // r4 to r7: #60000 adds farewell.c, another change edits it, then #60000 renames and edits it
+        fixture.commit('#60000 add the farewell', '2024-03-06T09:00:00Z', { 'src/farewell.c': 'void farewell(void);\n' });
+        fixture.commit('#60001 document the farewell', '2024-03-07T09:00:00Z', { 'src/farewell.c': '/* Says goodbye. */\nvoid farewell(void);\n' });
+        fixture.git(['mv', 'src/farewell.c', 'src/goodbye.c']);
+        fixture.commit('#60000 rename the farewell', '2024-03-08T09:00:00Z', {});
+        fixture.commit('#60000 say goodbye', '2024-03-09T09:00:00Z', { 'src/goodbye.c': '/* Says goodbye. */\nvoid goodbye(void);\n' });
+
+        client = new GitClient('git', fixture.directory, false);
+        ticketChangesets = await client.log({ search: ['#60000'] });
+    });
+
+    after(() => fixture?.dispose());
+
+    it('finds revisions of other tickets made before the rename', async () => {
+        const foreign = await findForeignRevisions(client, ticketChangesets, '/src/goodbye.c');
+        assert.deepStrictEqual(foreign.map(changeset => changeset.revision), [5]);
+    });
+
+    it('includes the changes the ticket made under the old path', async () => {
+        const netDiff = await computeNetTicketDiff(client, ticketChangesets, '/src/goodbye.c');
+        assert.deepStrictEqual(netDiff.patches.map(({ changeset, foreign }) => [changeset.revision, foreign]),
+            [[4, false], [5, true], [6, false], [7, false]]);
+        assert.match(netDiff.patches[0].patch, /^\+void farewell\(void\);$/m);
+    });
+});
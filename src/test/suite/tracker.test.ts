@@ -0,0 +1,201 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { after, afterEach, before, describe, it } from 'node:test';
+import type { SecretStorage } from 'vscode';
+import { TicketTracker, createTicketInfoProvider, expandTicketUrl, httpGet, parseCsv } from '../../tracker';
+import { configuration, outputLines } from '../vscodeStub';
+
+const TRAC_CSV = '\uFEFFid,summary,status,owner,description\r\n' +
+    '52438,"Greet the user, politely",assigned,jean-luc.picard,"Print ""hello""\r\non start"\r\n';
+
+const REDMINE_JSON = JSON.stringify({
+    issue: { id: 52438, subject: 'Greet the user', status: { name: 'In Progress' }, assigned_to: { name: 'Mary-Anne O\'Brien' }, description: 'Print hello' }
+});
+
+const JIRA_JSON = JSON.stringify({
+    key: 'PROJ-1234',
+    fields: { summary: 'Greet the user', status: { name: 'In Review' }, assignee: { displayName: 'Jean-Luc Picard' }, description: { type: 'doc' } }
+});
+
+/** A stand-in for the trackers' HTTP APIs, recording each request it receives. */
+class TrackerServer {
+    readonly requests: http.IncomingMessage[] = [];
+    private readonly server = http.createServer((request, response) => this.respond(request, response));
+
+    async start(): Promise<string> {
+        await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+        return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+    }
+
+    stop(): Promise<void> {
+        this.server.closeAllConnections();
+        return new Promise(resolve => this.server.close(() => resolve()));
+    }
+
+    private respond(request: http.IncomingMessage, response: http.ServerResponse): void {
+        this.requests.push(request);
+        const routes: Record<string, [string, string]> = {
+            '/trac/ticket/52438?format=csv': ['text/csv', TRAC_CSV],
+            '/redmine/issues/52438.json': ['application/json', REDMINE_JSON],
+            '/jira/rest/api/2/issue/PROJ-1234?fields=summary,status,assignee,description': ['application/json', JIRA_JSON]
+        };
+        const route = routes[request.url ?? ''];
+        if (request.url?.startsWith('/slow')) {
+            return; // Never answers
+        }
+        if (!route) {
+            response.writeHead(request.url?.startsWith('/error') ? 500 : 404).end('Not here');
+            return;
+        }
+        response.writeHead(200, { 'Content-Type': route[0] }).end(route[1]);
+    }
+}
+
+function secretStorage(token: () => Promise<string | undefined>): SecretStorage {
+    return { get: token, store: async () => undefined, delete: async () => undefined } as unknown as SecretStorage;
+}
+
+describe('ticket tracker', () => {
+    const server = new TrackerServer();
+    let baseUrl: string;
+
+    before(async () => {
+        baseUrl = await server.start();
+    });
+
+    after(() => server.stop());
+
+    afterEach(() => {
+        server.requests.length = 0;
+        configuration.clear();
+    });
+
+    describe('expandTicketUrl', () => {
+        it('fills in the ticket, its number and its project', () => {
+            assert.strictEqual(expandTicketUrl('https://trac/ticket/{id}', '52438'), 'https://trac/ticket/52438');
+            assert.strictEqual(expandTicketUrl('https://jira/browse/{ticket}', 'PROJ-1234'), 'https://jira/browse/PROJ-1234');
+            assert.strictEqual(expandTicketUrl('https://jira/projects/{project}/issues/{id}', 'PROJ-1234'), 'https://jira/projects/PROJ/issues/1234');
+        });
+    });
+
+    describe('parseCsv', () => {
+        it('reads quoted fields with commas, quotes and line breaks', () => {
+            assert.deepStrictEqual(parseCsv(TRAC_CSV), [
+                ['id', 'summary', 'status', 'owner', 'description'],
+                ['52438', 'Greet the user, politely', 'assigned', 'jean-luc.picard', 'Print "hello"\r\non start']
+            ]);
+        });
+    });
+
+    describe('providers', () => {
+        it('reads a Trac ticket from its CSV export', async () => {
+            const provider = createTicketInfoProvider('trac', `${baseUrl}/trac/ticket/{id}`, 'user:secret');
+            assert.deepStrictEqual(await provider?.fetch('52438'), {
+                ticket: '52438',
+                title: 'Greet the user, politely',
+                status: 'assigned',
+                assignee: 'jean-luc.picard',
+                description: 'Print "hello"\r\non start',
+                url: `${baseUrl}/trac/ticket/52438`
+            });
+            assert.strictEqual(server.requests[0].headers.authorization, `Basic ${Buffer.from('user:secret').toString('base64')}`);
+        });
+
+        it('reads a Redmine issue from its JSON representation', async () => {
+            const provider = createTicketInfoProvider('redmine', `${baseUrl}/redmine/issues/{id}`, 'api-key');
+            assert.deepStrictEqual(await provider?.fetch('52438'), {
+                ticket: '52438',
+                title: 'Greet the user',
+                status: 'In Progress',
+                assignee: 'Mary-Anne O\'Brien',
+                description: 'Print hello',
+                url: `${baseUrl}/redmine/issues/52438`
+            });
+            assert.strictEqual(server.requests[0].headers['x-redmine-api-key'], 'api-key');
+        });
+
+        it('reads a Jira issue from the REST API next to its page', async () => {
+            const provider = createTicketInfoProvider('jira', `${baseUrl}/jira/browse/{ticket}`, 'personal-token');
+            assert.deepStrictEqual(await provider?.fetch('PROJ-1234'), {
+                ticket: 'PROJ-1234',
+                title: 'Greet the user',
+                status: 'In Review',
+                assignee: 'Jean-Luc Picard',
+                // Rich text descriptions (Atlassian Document Format) are left out
+                description: undefined,
+                url: `${baseUrl}/jira/browse/PROJ-1234`
+            });
+            assert.strictEqual(server.requests[0].headers.authorization, 'Bearer personal-token');
+        });
+
+        it('only links when no details are fetched', async () => {
+            const provider = createTicketInfoProvider('link', `${baseUrl}/trac/ticket/{id}`);
+            assert.deepStrictEqual(await provider?.fetch('52438'), { ticket: '52438', title: '#52438', url: `${baseUrl}/trac/ticket/52438` });
+            assert.strictEqual(server.requests.length, 0);
+            assert.strictEqual(createTicketInfoProvider('none', `${baseUrl}/trac/ticket/{id}`), undefined);
+            assert.strictEqual(createTicketInfoProvider('trac', ''), undefined);
+        });
+
+        it('fails on error responses', async () => {
+            const provider = createTicketInfoProvider('redmine', `${baseUrl}/error/issues/{id}`);
+            await assert.rejects(provider!.fetch('52438'), /returned HTTP 500/);
+        });
+    });
+
+    describe('httpGet', () => {
+        it('gives up on a tracker that does not answer', async () => {
+            await assert.rejects(httpGet(`${baseUrl}/slow`, {}, 200), /did not respond within 0.2s/);
+        });
+    });
+
+    describe('TicketTracker', () => {
+        it('returns and remembers the ticket details', async () => {
+            configuration.set('ticketChangesetsViewer.trackerType', 'redmine');
+            configuration.set('ticketChangesetsViewer.trackerUrl', `${baseUrl}/redmine/issues/{id}`);
+            const tracker = new TicketTracker(secretStorage(async () => 'api-key'));
+
+            assert.strictEqual((await tracker.getInfo('52438'))?.title, 'Greet the user');
+            assert.strictEqual(tracker.peekInfo('52438')?.status, 'In Progress');
+            await tracker.getInfo('52438');
+            assert.strictEqual(server.requests.length, 1);
+        });
+
+        it('links the ticket without details when the tracker fails', async () => {
+            configuration.set('ticketChangesetsViewer.trackerType', 'trac');
+            configuration.set('ticketChangesetsViewer.trackerUrl', `${baseUrl}/error/ticket/{id}`);
+            const tracker = new TicketTracker(secretStorage(async () => undefined));
+
+            assert.deepStrictEqual(await tracker.getInfo('52438'), { ticket: '52438', title: '#52438', url: `${baseUrl}/error/ticket/52438` });
+            assert.match(outputLines[outputLines.length - 1], /Could not get #52438 from the ticket tracker: .*HTTP 500/);
+        });
+
+        it('links the ticket without details when the tracker cannot be reached', async () => {
+            const unreachable = new TrackerServer();
+            const unreachableUrl = await unreachable.start();
+            await unreachable.stop();
+            configuration.set('ticketChangesetsViewer.trackerType', 'jira');
+            configuration.set('ticketChangesetsViewer.trackerUrl', `${unreachableUrl}/browse/{ticket}`);
+            const tracker = new TicketTracker(secretStorage(async () => undefined));
+
+            assert.strictEqual((await tracker.getInfo('PROJ-1234'))?.title, 'PROJ-1234');
+            assert.match(outputLines[outputLines.length - 1], /Could not get PROJ-1234 from the ticket tracker/);
+        });
+
+        it('returns no details when the token cannot be read', async () => {
+            configuration.set('ticketChangesetsViewer.trackerType', 'redmine');
+            configuration.set('ticketChangesetsViewer.trackerUrl', `${baseUrl}/redmine/issues/{id}`);
+            const tracker = new TicketTracker(secretStorage(() => Promise.reject(new Error('Secret storage is unavailable'))));
+
+            assert.strictEqual(await tracker.getInfo('52438'), undefined);
+            assert.match(outputLines[outputLines.length - 1], /Could not set up the ticket tracker: Secret storage is unavailable/);
+            assert.strictEqual(server.requests.length, 0);
+        });
+
+        it('returns no details when no tracker is configured', async () => {
+            const tracker = new TicketTracker(secretStorage(async () => undefined));
+            assert.strictEqual(tracker.configured, false);
+            assert.strictEqual(await tracker.getInfo('52438'), undefined);
+        });
+    });
+});
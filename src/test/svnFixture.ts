@@ -0,0 +1,68 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync, spawnSync } from 'child_process';
+import { pathToFileURL } from 'url';
+
+/** The author of the fixture commits; dots and hyphens broke the old log scraping. */
+export const FIXTURE_AUTHOR = 'jean-luc.picard';
+
+export const MAIN_ORIGINAL = 'int main(void)\n{\n    return 0;\n}\n';
+export const MAIN_GREETING = '#include <stdio.h>\n\nint main(void)\n{\n    printf("hello\\n");\n    return 0;\n}\n';
+/** A message with the dashed separator `svn log` prints between entries. */
+export const GREETING_MESSAGE = 'refs #52438: print a greeting\n------------------------------------------------------------------------\nThe line above is part of the message.';
+
+export interface SvnFixture {
+    /** `file://` URL of the repository root. */
+    repositoryUrl: string;
+    /** Checkout of `^/trunk`. */
+    workingCopy: string;
+    dispose(): void;
+}
+
+/** Whether `svn` and `svnadmin` are installed, so the fixture repository can be created. */
+export function svnAvailable(): boolean {
+    return ['svn', 'svnadmin'].every(command => spawnSync(command, ['--version', '--quiet']).status === 0);
+}
+
+/**
+ * Creates a repository with `svnadmin` in a temporary directory and commits:
+ *
+ * - r1: the `/trunk` and `/branches` layout
+ * - r2: `/trunk/src/main.c`
+ * - r3: a change to `main.c` for #52438
+ * - r4: `main.c` copied to `greeting.c` and an `svn:eol-style` set on `main.c`, for #52440
+ *
+ * and checks out `^/trunk`.
+ */
+export function createSvnFixture(): SvnFixture {
+    const directory = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'ticket-changesets-')));
+    const repository = path.join(directory, 'repository');
+    const workingCopy = path.join(directory, 'trunk');
+    const repositoryUrl = pathToFileURL(repository).href;
+    const svn = (args: string[], cwd = directory) =>
+        execFileSync('svn', ['--non-interactive', '--config-dir', path.join(directory, 'config'), '--username', FIXTURE_AUTHOR, ...args], { cwd });
+    const commit = (message: string) => svn(['commit', '-m', message], workingCopy);
+
+    execFileSync('svnadmin', ['create', repository]);
+    svn(['mkdir', '-m', 'Create the project layout', `${repositoryUrl}/trunk`, `${repositoryUrl}/branches`]);
+    svn(['checkout', `${repositoryUrl}/trunk`, workingCopy]);
+    fs.mkdirSync(path.join(workingCopy, 'src'));
+    fs.writeFileSync(path.join(workingCopy, 'src', 'main.c'), MAIN_ORIGINAL);
+    svn(['add', 'src'], workingCopy);
+    commit('Add the program');
+
+    fs.writeFileSync(path.join(workingCopy, 'src', 'main.c'), MAIN_GREETING);
+    commit(GREETING_MESSAGE);
+
+    svn(['copy', 'src/main.c', 'src/greeting.c'], workingCopy);
+    svn(['propset', 'svn:eol-style', 'native', 'src/main.c'], workingCopy);
+    commit('#52440 copy the greeting');
+    svn(['update'], workingCopy);
+
+    return {
+        repositoryUrl,
+        workingCopy,
+        dispose: () => fs.rmSync(directory, { recursive: true, force: true })
+    };
+}
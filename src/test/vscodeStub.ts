@@ -0,0 +1,66 @@
+/**
+ * The parts of the `vscode` API used by the modules under test, so the suites
+ * run in plain Node. Settings are read from `configuration` (keyed by full name,
+ * e.g. `ticketChangesetsViewer.trackerType`), output channel lines are kept
+ * in `outputLines` and executed commands in `executedCommands`, for tests to
+ * set and inspect.
+ */
+
+export const configuration = new Map<string, unknown>();
+export const outputLines: string[] = [];
+export const executedCommands: unknown[][] = [];
+
+export class EventEmitter<T> {
+    private listeners: ((value: T) => void)[] = [];
+
+    readonly event = (listener: (value: T) => void) => {
+        this.listeners.push(listener);
+        return { dispose: () => { this.listeners = this.listeners.filter(candidate => candidate !== listener); } };
+    };
+
+    fire(value: T): void {
+        this.listeners.forEach(listener => listener(value));
+    }
+
+    dispose(): void {
+        this.listeners = [];
+    }
+}
+
+export const workspace = {
+    getConfiguration(section: string) {
+        return {
+            get<T>(key: string, defaultValue?: T): T | undefined {
+                const name = `${section}.${key}`;
+                return configuration.has(name) ? configuration.get(name) as T : defaultValue;
+            }
+        };
+    },
+    /** Set by tests; `WorkingCopyManager` discovers the working copies in them. */
+    workspaceFolders: [] as { uri: { fsPath: string }; name: string }[],
+    textDocuments: [],
+    onDidOpenTextDocument: () => ({ dispose: () => undefined })
+};
+
+export const commands = {
+    executeCommand(...args: unknown[]): Promise<undefined> {
+        executedCommands.push(args);
+        return Promise.resolve(undefined);
+    }
+};
+
+export const comments = {
+    createCommentController(id: string, label: string) {
+        return { id, label, dispose: () => undefined };
+    }
+};
+
+export const window = {
+    createOutputChannel(name: string) {
+        return {
+            name,
+            appendLine: (line: string) => { outputLines.push(line); },
+            show: () => undefined
+        };
+    }
+};
@@ -0,0 +1,361 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { Changeset, RevisionRef, formatRevision } from './svn';
+import { formatTicket } from './tickets';
+import { DiffFile, DiffHunk, findDiffFile } from './unifiedDiff';
+import { DIFF_STYLES, renderDiff } from './diffRenderer';
+import { escapeHtml } from './html';
+
+export type ConflictRisk = 'high' | 'medium' | 'low' | 'none';
+
+/** A hunk one ticket's revision made to a file. */
+export interface TicketHunk {
+    ticket: string;
+    revision: number;
+    commit?: string;
+    path: string;
+    hunk: DiffHunk;
+}
+
+/** Two hunks of different tickets that change the same lines of a file (or lines next to each other). */
+export interface HunkOverlap {
+    path: string;
+    first: TicketHunk;
+    second: TicketHunk;
+}
+
+export interface TicketPairComparison {
+    tickets: [string, string];
+    /** Files changed by both tickets. */
+    sharedFiles: string[];
+    overlaps: HunkOverlap[];
+    /** Revisions of both tickets that changed the shared files, oldest first. */
+    sharedFileRevisions: (RevisionRef & { ticket: string })[];
+    /** Whether the revisions of the two tickets on the shared files alternate. */
+    interleaved: boolean;
+    /** Revisions that reference both tickets. */
+    commonRevisions: RevisionRef[];
+    risk: ConflictRisk;
+}
+
+export interface TicketComparison {
+    tickets: string[];
+    pairs: TicketPairComparison[];
+}
+
+/** The hunks a revision made to a file. */
+interface RevisionHunks {
+    revision: number;
+    hunks: DiffHunk[];
+}
+
+/** Lines `start` up to (not including) `end`; an empty range is the position before `start`. */
+interface LineRange {
+    start: number;
+    end: number;
+}
+
+/**
+ * Compares each pair of tickets: the files both changed, hunks of their
+ * revisions that touch the same lines, and whether their revisions on those
+ * files are interleaved. A pair is likely to conflict when merged separately if
+ * hunks overlap (high), or if the revisions interleave so one ticket's change
+ * may build on the other's (medium); shared files alone are a low risk.
+ */
+export function compareTickets(changesetsByTicket: Map<string, Changeset[]>, diffs: Map<number, DiffFile[]>): TicketComparison {
+    const tickets = Array.from(changesetsByTicket.keys());
+    const pairs: TicketPairComparison[] = [];
+    for (let i = 0; i < tickets.length; i++) {
+        for (let j = i + 1; j < tickets.length; j++) {
+            pairs.push(comparePair(
+                [tickets[i], tickets[j]],
+                changesetsByTicket.get(tickets[i]) ?? [],
+                changesetsByTicket.get(tickets[j]) ?? [],
+                diffs
+            ));
+        }
+    }
+    const order: ConflictRisk[] = ['high', 'medium', 'low', 'none'];
+    pairs.sort((a, b) => order.indexOf(a.risk) - order.indexOf(b.risk));
+    return { tickets, pairs };
+}
+
+function comparePair(
+    tickets: [string, string],
+    firstChangesets: Changeset[],
+    secondChangesets: Changeset[],
+    diffs: Map<number, DiffFile[]>
+): TicketPairComparison {
+    const secondRevisions = new Set(secondChangesets.map(changeset => changeset.revision));
+    const commonRevisions = firstChangesets.filter(changeset => secondRevisions.has(changeset.revision));
+    const common = new Set(commonRevisions.map(changeset => changeset.revision));
+    // Revisions of both tickets are not compared with themselves
+    const ownFirst = firstChangesets.filter(changeset => !common.has(changeset.revision));
+    const ownSecond = secondChangesets.filter(changeset => !common.has(changeset.revision));
+
+    const firstFiles = changedFiles(ownFirst);
+    const secondFiles = changedFiles(ownSecond);
+    const sharedFiles = Array.from(firstFiles.keys()).filter(filePath => secondFiles.has(filePath)).sort();
+
+    const overlaps: HunkOverlap[] = [];
+    const sharedFileRevisions: (RevisionRef & { ticket: string })[] = [];
+    for (const filePath of sharedFiles) {
+        const firstHunks = ticketHunks(tickets[0], firstFiles.get(filePath) ?? [], filePath, diffs);
+        const secondHunks = ticketHunks(tickets[1], secondFiles.get(filePath) ?? [], filePath, diffs);
+        const history = fileHistory([...firstChangesets, ...secondChangesets], filePath, diffs);
+        for (const first of firstHunks) {
+            for (const second of secondHunks) {
+                if (hunksOverlap(first, second, history)) {
+                    overlaps.push({ path: filePath, first, second });
+                }
+            }
+        }
+        (firstFiles.get(filePath) ?? []).forEach(({ revision, commit }) => sharedFileRevisions.push({ ticket: tickets[0], revision, commit }));
+        (secondFiles.get(filePath) ?? []).forEach(({ revision, commit }) => sharedFileRevisions.push({ ticket: tickets[1], revision, commit }));
+    }
+
+    const ordered = Array.from(new Map(sharedFileRevisions.map(item => [item.revision, item])).values())
+        .sort((a, b) => a.revision - b.revision);
+    // Interleaved if the order switches tickets more than once, e.g. A, B, A
+    const switches = ordered.filter((item, index) => index > 0 && item.ticket !== ordered[index - 1].ticket).length;
+    const interleaved = switches > 1;
+
+    const risk: ConflictRisk = overlaps.length > 0 ? 'high'
+        : sharedFiles.length > 0 && interleaved ? 'medium'
+            : sharedFiles.length > 0 ? 'low'
+                : 'none';
+    return { tickets, sharedFiles, overlaps, sharedFileRevisions: ordered, interleaved, commonRevisions, risk };
+}
+
+/** Returns the files changed by `changesets`, with the changesets that changed each. */
+function changedFiles(changesets: Changeset[]): Map<string, Changeset[]> {
+    const files = new Map<string, Changeset[]>();
+    for (const changeset of changesets) {
+        for (const changedPath of changeset.paths.filter(changedPath => changedPath.kind !== 'dir')) {
+            files.set(changedPath.path, [...files.get(changedPath.path) ?? [], changeset]);
+        }
+    }
+    return files;
+}
+
+function ticketHunks(ticket: string, changesets: Changeset[], filePath: string, diffs: Map<number, DiffFile[]>): TicketHunk[] {
+    return changesets.flatMap(({ revision, commit }) => {
+        const diffFile = findDiffFile(diffs.get(revision) ?? [], filePath);
+        return (diffFile?.hunks ?? []).map(hunk => ({ ticket, revision, commit, path: filePath, hunk }));
+    });
+}
+
+/** Returns the hunks each of `changesets` made to `filePath`, oldest first. */
+function fileHistory(changesets: Changeset[], filePath: string, diffs: Map<number, DiffFile[]>): RevisionHunks[] {
+    const revisions = Array.from(new Set(changesets.map(changeset => changeset.revision))).sort((a, b) => a - b);
+    return revisions.map(revision => ({ revision, hunks: findDiffFile(diffs.get(revision) ?? [], filePath)?.hunks ?? [] }));
+}
+
+/**
+ * Whether two hunks of different revisions touch the same lines of a file. The
+ * lines left by the earlier hunk are carried through the compared revisions in
+ * between (`history`) to the line numbers the later hunk was made against. Hunks
+ * carry a few context lines, so changes close to each other count as overlapping
+ * too, as they do for `svn merge`. Revisions of other tickets in between are not
+ * known, so this is an estimate.
+ */
+function hunksOverlap(a: TicketHunk, b: TicketHunk, history: RevisionHunks[]): boolean {
+    const [earlier, later] = a.revision < b.revision ? [a, b] : [b, a];
+    let range = newRange(earlier.hunk);
+    for (const step of history.filter(step => step.revision > earlier.revision && step.revision < later.revision)) {
+        range = { start: mapPosition(range.start, step.hunks, 'start'), end: mapPosition(range.end, step.hunks, 'end') };
+    }
+    const target = oldRange(later.hunk);
+    // An empty range still touches the line after it
+    return range.start < Math.max(target.end, target.start + 1) && target.start < Math.max(range.end, range.start + 1);
+}
+
+/** The lines a hunk covers before its revision. */
+function oldRange(hunk: DiffHunk): LineRange {
+    const length = hunk.lines.filter(line => line.type !== 'add').length;
+    // `-5,0` inserts after line 5
+    const start = length === 0 ? hunk.oldStart + 1 : hunk.oldStart;
+    return { start, end: start + length };
+}
+
+/** The lines a hunk covers after its revision. */
+function newRange(hunk: DiffHunk): LineRange {
+    const length = hunk.lines.filter(line => line.type !== 'delete').length;
+    const start = length === 0 ? hunk.newStart + 1 : hunk.newStart;
+    return { start, end: start + length };
+}
+
+/**
+ * Carries the position before line `position` across a revision's hunks: it moves
+ * by the lines added and removed above it, and to the `edge` of a hunk that changed it.
+ */
+function mapPosition(position: number, hunks: DiffHunk[], edge: keyof LineRange): number {
+    let offset = 0;
+    for (const hunk of hunks) {
+        const before = oldRange(hunk);
+        if (position <= before.start) {
+            break;
+        }
+        const after = newRange(hunk);
+        if (position < before.end) {
+            return after[edge];
+        }
+        offset = after.end - before.end;
+    }
+    return position + offset;
+}
+
+const RISK_LABELS: Record<ConflictRisk, string> = {
+    high: 'Likely to conflict: overlapping changes',
+    medium: 'May conflict: interleaved changes to shared files',
+    low: 'Shared files, separate changes',
+    none: 'No shared files'
+};
+
+/** Renders the comparison, with the overlapping hunks of each pair as collapsible diffs. All content is escaped. */
+export function renderTicketComparison(comparison: TicketComparison): string {
+    let html = `
+        <table class="compare-table">
+            <thead><tr><th>Tickets</th><th>Risk</th><th>Shared files</th><th>Overlapping hunks</th><th>Interleaved</th></tr></thead>
+            <tbody>`;
+    comparison.pairs.forEach((pair, index) => {
+        html += `
+                <tr>
+                    <td><a href="#pair-${index}">${escapeHtml(pair.tickets.map(formatTicket).join(' ↔ '))}</a></td>
+                    <td><span class="risk ${pair.risk}">${escapeHtml(RISK_LABELS[pair.risk])}</span></td>
+                    <td>${pair.sharedFiles.length}</td>
+                    <td>${pair.overlaps.length}</td>
+                    <td>${pair.interleaved ? 'Yes' : 'No'}</td>
+                </tr>`;
+    });
+    html += `</tbody></table>`;
+    html += '<p class="compare-note">Overlaps are an estimate: hunk line numbers are carried through the compared tickets\' revisions in between, '
+        + 'but not through revisions of other tickets that changed the files.</p>';
+
+    comparison.pairs.forEach((pair, index) => {
+        const [first, second] = pair.tickets.map(formatTicket);
+        html += `<h2 id="pair-${index}">${escapeHtml(`${first} ↔ ${second}`)} <span class="risk ${pair.risk}">${escapeHtml(RISK_LABELS[pair.risk])}</span></h2>`;
+        if (pair.commonRevisions.length > 0) {
+            html += `<p>Revisions referencing both tickets (not compared): ${pair.commonRevisions.map(formatRevision).join(', ')}</p>`;
+        }
+        if (pair.sharedFiles.length === 0) {
+            html += '<p>The tickets change no files in common.</p>';
+            return;
+        }
+
+        html += '<h3>Shared Files</h3><ul class="compare-files">';
+        for (const filePath of pair.sharedFiles) {
+            const overlapCount = pair.overlaps.filter(overlap => overlap.path === filePath).length;
+            html += `<li>${escapeHtml(filePath)}${overlapCount > 0 ? ` <span class="risk high">${overlapCount} overlapping</span>` : ''}</li>`;
+        }
+        html += '</ul>';
+
+        html += `<h3>Revision Order on Shared Files</h3><p class="compare-order">${pair.sharedFileRevisions
+            .map(item => `<span class="ticket-${item.ticket === pair.tickets[0] ? 'first' : 'second'}">${formatRevision(item)} (${escapeHtml(formatTicket(item.ticket))})</span>`)
+            .join(' → ')}</p>`;
+
+        if (pair.overlaps.length > 0) {
+            html += '<h3>Overlapping Changes</h3>';
+            pair.overlaps.forEach((overlap, overlapIndex) => {
+                const side = (hunk: TicketHunk, label: string) =>
+                    `<h4>${escapeHtml(`${formatTicket(hunk.ticket)}, ${formatRevision(hunk)}`)}</h4>`
+                    + renderDiff([hunkFile(hunk)], { idPrefix: `pair-${index}-${overlapIndex}-${label}` });
+                html += `
+                    <details class="compare-overlap">
+                        <summary>${escapeHtml(`${overlap.path}: ${formatRevision(overlap.first)} ${overlap.first.hunk.header} ↔ ${formatRevision(overlap.second)} ${overlap.second.hunk.header}`)}</summary>
+                        ${side(overlap.first, 'a')}
+                        ${side(overlap.second, 'b')}
+                    </details>`;
+            });
+        }
+    });
+    return html;
+}
+
+/** A diff file with only the given hunk, for rendering it on its own. */
+function hunkFile(hunk: TicketHunk): DiffFile {
+    return {
+        path: hunk.path,
+        status: 'modified',
+        hunks: [hunk.hunk],
+        binary: false,
+        additions: hunk.hunk.lines.filter(line => line.type === 'add').length,
+        deletions: hunk.hunk.lines.filter(line => line.type === 'delete').length
+    };
+}
+
+/** Shows the comparison in a webview panel. The page is static, so scripts stay disabled. */
+export function showTicketComparison(comparison: TicketComparison): vscode.WebviewPanel {
+    const label = comparison.tickets.map(formatTicket).join(', ');
+    const panel = vscode.window.createWebviewPanel('ticketComparison', `Compare ${label}`, vscode.ViewColumn.One, {
+        enableScripts: false,
+        enableFindWidget: true
+    });
+    const nonce = crypto.randomBytes(16).toString('base64');
+    panel.webview.html = `
+        <!DOCTYPE html>
+        <html lang="en">
+        <head>
+            <meta charset="UTF-8">
+            <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'nonce-${nonce}';">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>Compare ${escapeHtml(label)}</title>
+            <style nonce="${nonce}">
+                body {
+                    font-family: var(--vscode-font-family);
+                    padding: 20px;
+                    color: var(--vscode-foreground);
+                }
+                a {
+                    color: var(--vscode-textLink-foreground);
+                }
+                .compare-table {
+                    border-collapse: collapse;
+                    margin-bottom: 20px;
+                }
+                .compare-table th, .compare-table td {
+                    padding: 4px 12px 4px 0;
+                    text-align: left;
+                }
+                .risk {
+                    font-size: 0.85em;
+                    font-weight: normal;
+                    padding: 1px 6px;
+                    border-radius: 3px;
+                }
+                .risk.high {
+                    background-color: var(--vscode-inputValidation-errorBackground);
+                }
+                .risk.medium {
+                    background-color: var(--vscode-inputValidation-warningBackground);
+                }
+                .risk.low {
+                    background-color: var(--vscode-inputValidation-infoBackground);
+                }
+                .compare-note {
+                    color: var(--vscode-descriptionForeground);
+                }
+                .compare-files {
+                    font-family: var(--vscode-editor-font-family);
+                }
+                .compare-order .ticket-second {
+                    font-style: italic;
+                }
+                .compare-overlap {
+                    margin-bottom: 10px;
+                }
+                .compare-overlap > summary {
+                    cursor: pointer;
+                    font-family: var(--vscode-editor-font-family);
+                }
+                ${DIFF_STYLES}
+            </style>
+        </head>
+        <body>
+            <h1>Compare ${escapeHtml(label)}</h1>
+            ${renderTicketComparison(comparison)}
+        </body>
+        </html>
+    `;
+    return panel;
+}
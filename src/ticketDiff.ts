@@ -0,0 +1,150 @@
+import { ChangedPath, Changeset, formatRevision } from './svn';
+import { VcsProvider } from './vcs';
+import { historyPaths } from './fileTickets';
+
+export interface RevisionPatch {
+    changeset: Changeset;
+    /** Unified diff of the file in this revision alone (`svn diff -c`). */
+    patch: string;
+    /** True if the revision touched the file but does not belong to the ticket. */
+    foreign: boolean;
+}
+
+export interface NetTicketDiff {
+    path: string;
+    /** Per-revision patches in revision order, including foreign ones. */
+    patches: RevisionPatch[];
+    /** Revisions of other tickets that touched the file between the ticket's first and last change. */
+    foreignRevisions: Changeset[];
+}
+
+/**
+ * Collects the per-revision patches the ticket made to `filePath`, together with
+ * the patches of any other revisions that touched the file in between. Changes
+ * the ticket made before renaming or moving the file are followed to the old path.
+ *
+ * Diffing the revision before the first change against the last change (as the
+ * unified diff does) silently attributes those interleaved revisions to the
+ * ticket; keeping the patches separate lets them be excluded or marked.
+ */
+export async function computeNetTicketDiff(client: VcsProvider, changesets: Changeset[], filePath: string): Promise<NetTicketDiff> {
+    const paths = historyPaths(changesets, filePath);
+    const ticketChangesets = changesetsOfFile(changesets, paths);
+    if (ticketChangesets.length === 0) {
+        return { path: filePath, patches: [], foreignRevisions: [] };
+    }
+
+    const foreignRevisions = await findForeignRevisions(client, ticketChangesets, filePath);
+
+    const patches: RevisionPatch[] = [];
+    const revisions = [
+        ...ticketChangesets.map(changeset => ({ changeset, foreign: false })),
+        ...foreignRevisions.map(changeset => ({ changeset, foreign: true }))
+    ].sort((a, b) => a.changeset.revision - b.changeset.revision);
+    for (const { changeset, foreign } of revisions) {
+        // A file deleted in this revision only exists at the revision before
+        const changedPath = changedPathAtRevision(changeset, paths);
+        const pegRevision = changedPath?.action === 'D' ? changeset.revision - 1 : changeset.revision;
+        const target = await client.pegUrl(changedPath?.path ?? filePath, pegRevision);
+        patches.push({ changeset, foreign, patch: await client.diff(changeset.revision, target) });
+    }
+
+    return { path: filePath, patches, foreignRevisions };
+}
+
+/**
+ * Returns the revisions outside `changesets` that touched `filePath` between the
+ * ticket's first and last change to it (under any path the ticket renamed it
+ * from), oldest first.
+ */
+export async function findForeignRevisions(client: VcsProvider, changesets: Changeset[], filePath: string): Promise<Changeset[]> {
+    const paths = historyPaths(changesets, filePath);
+    const ticketChangesets = changesetsOfFile(changesets, paths);
+    const revisions = ticketChangesets.map(changeset => changeset.revision);
+    if (revisions.length < 2) {
+        return [];
+    }
+
+    const firstRevision = revisions[0];
+    const lastRevision = revisions[revisions.length - 1];
+    // A file deleted by the ticket's last change only exists at the revision before
+    const lastChange = changedPathAtRevision(ticketChangesets[ticketChangesets.length - 1], paths);
+    const pegRevision = lastChange?.action === 'D' ? lastRevision - 1 : lastRevision;
+
+    // The log follows the file back through the renames to the first change
+    const log = await client.log({
+        target: await client.pegUrl(lastChange?.path ?? filePath, pegRevision),
+        revision: `${firstRevision}:${pegRevision}`
+    });
+    return log
+        .filter(changeset => !revisions.includes(changeset.revision))
+        .sort((a, b) => a.revision - b.revision);
+}
+
+/** Returns the changesets that changed the file at one of its `paths`, oldest first. */
+function changesetsOfFile(changesets: Changeset[], paths: string[]): Changeset[] {
+    return changesets
+        .filter(changeset => changeset.paths.some(changedPath => paths.includes(changedPath.path)))
+        .sort((a, b) => a.revision - b.revision);
+}
+
+/**
+ * Returns the changed path entry of the file in `changeset`, trying its `paths`
+ * newest first, so a rename is found by the path it was renamed to. Log entries
+ * of foreign revisions come from `svn log` on the file, which follows earlier
+ * copies, so the file may have lived at another path with the same name then.
+ */
+function changedPathAtRevision(changeset: Changeset, paths: string[]): ChangedPath | undefined {
+    const fileName = paths[0].substring(paths[0].lastIndexOf('/') + 1);
+    for (const filePath of paths) {
+        const changedPath = changeset.paths.find(candidate => candidate.path === filePath);
+        if (changedPath) {
+            return changedPath;
+        }
+    }
+    return changeset.paths.find(changedPath => changedPath.path.endsWith(`/${fileName}`));
+}
+
+/**
+ * Formats net ticket diffs as a single patch document. Only the ticket's own
+ * patches are included, unless `markForeign` is set, in which case foreign
+ * patches are interleaved in revision order behind a clear banner.
+ */
+export function formatNetTicketDiff(diffs: NetTicketDiff[], ticketLabel: string, markForeign: boolean): string {
+    const lines: string[] = [`# Net diff for ${ticketLabel}`, '#'];
+
+    for (const diff of diffs) {
+        const ownRevisions = diff.patches.filter(patch => !patch.foreign).map(patch => formatRevision(patch.changeset));
+        lines.push(`# ${diff.path}`);
+        lines.push(`#   Ticket revisions: ${ownRevisions.join(', ')}`);
+        if (diff.foreignRevisions.length > 0) {
+            lines.push(`#   Foreign revisions that also touched this file (${markForeign ? 'marked below' : 'not included'}):`);
+            for (const changeset of diff.foreignRevisions) {
+                lines.push(`#     ${formatRevision(changeset)} by ${changeset.author}: ${changeset.message.split('\n')[0]}`);
+            }
+        }
+        lines.push('#');
+    }
+    lines.push('');
+
+    for (const diff of diffs) {
+        for (const { changeset, patch, foreign } of diff.patches) {
+            if (foreign && !markForeign) {
+                continue;
+            }
+            if (foreign) {
+                lines.push(`# ==== FOREIGN ${formatRevision(changeset)} (${changeset.author}) — NOT PART OF ${ticketLabel} ====`);
+            } else {
+                lines.push(`# ---- ${formatRevision(changeset)} (${changeset.author}) ----`);
+            }
+            lines.push(`# ${changeset.message.split('\n')[0]}`);
+            lines.push(patch.trimEnd());
+            if (foreign) {
+                lines.push(`# ==== END FOREIGN ${formatRevision(changeset)} ====`);
+            }
+            lines.push('');
+        }
+    }
+
+    return lines.join('\n');
+}
@@ -0,0 +1,185 @@
+import * as vscode from 'vscode';
+import { Changeset, isWithinPath } from './svn';
+import { VcsProvider } from './vcs';
+import { GitClient } from './git';
+import { TicketSearchResult, collectTicketResult, findTicketReferences, formatTicket, searchTargets } from './tickets';
+
+/** Criteria for `TicketIndex.query`; all given criteria must match. */
+export interface TicketIndexQuery {
+    ticket?: string;
+    /** Case-insensitive substring of the author. */
+    author?: string;
+    /** Inclusive lower bound of the commit date, as an ISO date such as `2024-01-31`. */
+    since?: string;
+    /** Inclusive upper bound of the commit date, as an ISO date. */
+    until?: string;
+    /** Repository path prefix of a changed path, e.g. `/trunk/src`. */
+    path?: string;
+}
+
+export interface TicketSummary {
+    ticket: string;
+    revisions: number[];
+    /** The newest changeset referencing the ticket. */
+    latest: Changeset;
+}
+
+/**
+ * Local index from ticket keys to the revisions referencing them, built from the
+ * full log of the searched locations. With a caching client the log comes from
+ * disk and only new revisions are fetched, so searches through the index are
+ * instant and work without access to the server. In a Git clone only the commits
+ * since the last update are logged.
+ */
+export class TicketIndex {
+    private readonly changesets = new Map<number, Changeset>();
+    private readonly revisionsByTicket = new Map<string, Set<number>>();
+    private readonly _onDidChange = new vscode.EventEmitter<void>();
+    readonly onDidChange = this._onDidChange.event;
+
+    /** Identifies the working copy, locations and patterns the index was built for. */
+    private builtFor?: string;
+    private locations?: string[];
+    /** The commit a Git clone was last indexed at, which updates resume from (`<head>..HEAD`). */
+    private indexedHead?: string;
+
+    /** Returns whether the index has been built for `signature` (see `build`). */
+    isReadyFor(signature: string): boolean {
+        return this.builtFor === signature;
+    }
+
+    /**
+     * Indexes the logs of `locations` (or the working copy). Revisions indexed before
+     * are skipped; the index is reset if `signature` differs from the last build.
+     */
+    async build(
+        client: VcsProvider,
+        patterns: RegExp[],
+        locations: string[] | undefined,
+        signature: string,
+        progress?: vscode.Progress<{ message?: string; increment?: number }>
+    ): Promise<void> {
+        if (this.builtFor !== signature) {
+            this.builtFor = undefined;
+            this.indexedHead = undefined;
+            this.changesets.clear();
+            this.revisionsByTicket.clear();
+        }
+
+        const head = client instanceof GitClient ? await client.head() : undefined;
+        const targets = await searchTargets(client, locations);
+        for (const options of targets) {
+            progress?.report({ message: options.target ?? client.cwd, increment: 100 / targets.length });
+            this.add(await client.log(this.indexedHead ? { ...options, after: this.indexedHead } : options), patterns);
+        }
+
+        this.indexedHead = head;
+        this.locations = locations;
+        this.builtFor = signature;
+        this._onDidChange.fire();
+    }
+
+    private add(changesets: Changeset[], patterns: RegExp[]): void {
+        for (const changeset of changesets) {
+            if (this.changesets.has(changeset.revision)) {
+                continue;
+            }
+            this.changesets.set(changeset.revision, changeset);
+            for (const ticket of findTicketReferences(changeset.message, patterns)) {
+                const revisions = this.revisionsByTicket.get(ticket) ?? new Set<number>();
+                revisions.add(changeset.revision);
+                this.revisionsByTicket.set(ticket, revisions);
+            }
+        }
+    }
+
+    get ticketCount(): number {
+        return this.revisionsByTicket.size;
+    }
+
+    get revisionCount(): number {
+        return this.changesets.size;
+    }
+
+    /** Searches the tickets in the index, giving the same result as a search of the log. */
+    search(tickets: string[], patterns: RegExp[]): TicketSearchResult {
+        const candidates = new Map<number, Changeset>();
+        for (const ticket of tickets) {
+            for (const revision of this.revisionsByTicket.get(ticket) ?? []) {
+                const changeset = this.changesets.get(revision);
+                if (changeset) {
+                    candidates.set(revision, changeset);
+                }
+            }
+        }
+        return collectTicketResult(tickets, Array.from(candidates.values()), patterns, this.locations);
+    }
+
+    /** Returns the indexed changesets that reference a ticket and match `query`, newest first. */
+    query(query: TicketIndexQuery): Changeset[] {
+        const revisions = query.ticket
+            ? Array.from(this.revisionsByTicket.get(query.ticket) ?? [])
+            : Array.from(new Set(Array.from(this.revisionsByTicket.values()).flatMap(set => Array.from(set))));
+        const author = query.author?.toLowerCase();
+
+        return revisions
+            .map(revision => this.changesets.get(revision))
+            .filter((changeset): changeset is Changeset => changeset !== undefined)
+            .filter(changeset => !author || changeset.author.toLowerCase().includes(author))
+            // Dates are ISO timestamps, so they compare like dates as strings
+            .filter(changeset => !query.since || changeset.date >= query.since)
+            .filter(changeset => !query.until || changeset.date.substring(0, query.until.length) <= query.until)
+            .filter(changeset => !query.path || changeset.paths.some(changedPath => isWithinPath(changedPath.path, query.path ?? '')))
+            .sort((a, b) => b.revision - a.revision);
+    }
+
+    /** Returns the tickets referenced by `changesets`, most recently changed first. */
+    ticketsOf(changesets: Changeset[]): TicketSummary[] {
+        const revisions = new Set(changesets.map(changeset => changeset.revision));
+        return this.summaries(Array.from(this.revisionsByTicket)
+            .filter(([, ticketRevisions]) => Array.from(ticketRevisions).some(revision => revisions.has(revision)))
+            .map(([ticket]) => ticket));
+    }
+
+    /** Suggests tickets starting with `prefix` (as typed, with or without `#`), most recently changed first. */
+    suggest(prefix: string, limit = 20): TicketSummary[] {
+        const normalized = prefix.replace(/^#/, '').toUpperCase();
+        const tickets = Array.from(this.revisionsByTicket.keys())
+            .filter(ticket => ticket.toUpperCase().startsWith(normalized) || formatTicket(ticket).toUpperCase().startsWith(normalized));
+        return this.summaries(tickets).slice(0, limit);
+    }
+
+    private summaries(tickets: string[]): TicketSummary[] {
+        return tickets
+            .map(ticket => {
+                const revisions = Array.from(this.revisionsByTicket.get(ticket) ?? []).sort((a, b) => b - a);
+                return { ticket, revisions, latest: this.changesets.get(revisions[0]) };
+            })
+            .filter((summary): summary is TicketSummary => summary.latest !== undefined)
+            .sort((a, b) => b.latest.revision - a.latest.revision);
+    }
+
+    dispose(): void {
+        this._onDidChange.dispose();
+    }
+}
+
+/**
+ * Parses a query such as `author:alice since:2024-01-01 path:/trunk/src #1234`
+ * into criteria. A bare word is taken as the ticket.
+ */
+export function parseIndexQuery(value: string): TicketIndexQuery {
+    const query: TicketIndexQuery = {};
+    for (const token of value.split(/\s+/).filter(token => token.length > 0)) {
+        const [, field, argument] = /^(\w+):(.*)$/.exec(token) ?? [];
+        switch (field?.toLowerCase()) {
+            case 'author': query.author = argument; break;
+            case 'since': query.since = argument; break;
+            case 'until': query.until = argument; break;
+            case 'path': query.path = argument; break;
+            case 'ticket': query.ticket = argument.replace(/^#/, '').toUpperCase(); break;
+            default: query.ticket = token.replace(/^#/, '').toUpperCase();
+        }
+    }
+    return query;
+}
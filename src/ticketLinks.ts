@@ -0,0 +1,137 @@
+import * as vscode from 'vscode';
+import { Changeset } from './svn';
+import { DEFAULT_TICKET_PATTERNS, TicketSearchResult, compileTicketPatterns, findTicketMatches, formatTicket } from './tickets';
+import { TicketTracker } from './tracker';
+import { escapeHtml } from './html';
+import { outputChannel } from './outputChannel';
+
+/** Documents with more lines are not scanned for ticket references. */
+const MAX_LINKED_LINES = 20000;
+/** How long a hover summary is reused before the ticket is searched again. */
+const SUMMARY_LIFETIME = 60 * 1000;
+
+/** Returns the configured ticket patterns; invalid ones are skipped silently, as searches report them. */
+export function configuredTicketPatterns(): RegExp[] {
+    const config = vscode.workspace.getConfiguration('ticketChangesetsViewer');
+    return compileTicketPatterns(config.get<string[]>('ticketPatterns') ?? DEFAULT_TICKET_PATTERNS);
+}
+
+/** Builds a command URI that opens the changesets view of `ticket`. */
+export function showTicketCommandUri(ticket: string): vscode.Uri {
+    return vscode.Uri.parse(`command:ticket-changesets-viewer.showChanges?${encodeURIComponent(JSON.stringify([[ticket]]))}`);
+}
+
+/**
+ * Escapes `text` for the panel and turns ticket references into links that open
+ * the referenced ticket's view, except references to the `current` tickets.
+ */
+export function linkTicketReferences(text: string, patterns: RegExp[], current: string[] = []): string {
+    let html = '';
+    let position = 0;
+    for (const match of findTicketMatches(text, patterns).filter(match => !current.includes(match.ticket))) {
+        html += escapeHtml(text.substring(position, match.index));
+        html += `<a href="#" class="ticket-link" data-command="openTicket" data-ticket="${escapeHtml(match.ticket)}" title="Show changesets of ${escapeHtml(formatTicket(match.ticket))}">`;
+        html += `${escapeHtml(text.substr(match.index, match.length))}</a>`;
+        position = match.index + match.length;
+    }
+    return html + escapeHtml(text.substring(position));
+}
+
+/** Summarizes changesets for a hover: count, authors (most active first) and date range. */
+function summarizeChangesets(changesets: Changeset[]): string {
+    const authors = new Map<string, number>();
+    changesets.forEach(changeset => authors.set(changeset.author, (authors.get(changeset.author) ?? 0) + 1));
+    const byActivity = Array.from(authors).sort((a, b) => b[1] - a[1]).map(([author]) => author);
+    const dates = changesets.map(changeset => changeset.date.substring(0, 10)).sort();
+    const range = dates[0] === dates[dates.length - 1] ? dates[0] : `${dates[0]} – ${dates[dates.length - 1]}`;
+    return `${changesets.length} changeset${changesets.length === 1 ? '' : 's'} by ${byActivity.join(', ')}, ${range}`;
+}
+
+/**
+ * Links ticket references in any document to the ticket's changesets view, and
+ * shows a summary of the ticket's changesets when hovering over them.
+ */
+export class TicketLinkProvider implements vscode.DocumentLinkProvider, vscode.HoverProvider {
+    private readonly results = new Map<string, { searched: number; result: Promise<TicketSearchResult | undefined> }>();
+
+    constructor(
+        private readonly search: (ticket: string) => Promise<TicketSearchResult | undefined>,
+        private readonly tracker: TicketTracker
+    ) {}
+
+    provideDocumentLinks(document: vscode.TextDocument): vscode.DocumentLink[] {
+        if (document.lineCount > MAX_LINKED_LINES) {
+            return [];
+        }
+        return findTicketMatches(document.getText(), configuredTicketPatterns()).map(match => {
+            const range = new vscode.Range(document.positionAt(match.index), document.positionAt(match.index + match.length));
+            const link = new vscode.DocumentLink(range, showTicketCommandUri(match.ticket));
+            link.tooltip = `Show changesets of ${formatTicket(match.ticket)}`;
+            return link;
+        });
+    }
+
+    async provideHover(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): Promise<vscode.Hover | undefined> {
+        const line = document.lineAt(position.line).text;
+        const match = findTicketMatches(line, configuredTicketPatterns())
+            .find(candidate => position.character >= candidate.index && position.character <= candidate.index + candidate.length);
+        if (!match) {
+            return undefined;
+        }
+
+        const [result, info] = await Promise.all([
+            this.getResult(match.ticket),
+            this.tracker.configured ? this.tracker.getInfo(match.ticket) : undefined
+        ]);
+        if (token.isCancellationRequested) {
+            return undefined;
+        }
+
+        const markdown = new vscode.MarkdownString();
+        markdown.isTrusted = true;
+        markdown.appendMarkdown(`**${formatTicket(match.ticket)}**`);
+        if (info && info.title !== formatTicket(match.ticket)) {
+            markdown.appendMarkdown(': ').appendText(info.title);
+        }
+        if (info?.status) {
+            markdown.appendMarkdown(' (').appendText(info.status).appendMarkdown(')');
+        }
+        markdown.appendMarkdown('\n\n');
+
+        const changesets = result?.changesets ?? [];
+        if (!result) {
+            markdown.appendMarkdown('Could not search the changesets\n\n');
+        } else if (changesets.length === 0) {
+            markdown.appendMarkdown('No changesets found\n\n');
+        } else {
+            markdown.appendText(summarizeChangesets(changesets)).appendMarkdown('\n\n');
+        }
+        markdown.appendMarkdown(`[Show Changesets](${showTicketCommandUri(match.ticket).toString()})`);
+        if (info) {
+            markdown.appendMarkdown(` · [Open in Tracker](${info.url})`);
+        }
+
+        const range = new vscode.Range(position.line, match.index, position.line, match.index + match.length);
+        return new vscode.Hover(markdown, range);
+    }
+
+    /** Forgets the searched tickets, so the next hover searches again. */
+    clear(): void {
+        this.results.clear();
+    }
+
+    private getResult(ticket: string): Promise<TicketSearchResult | undefined> {
+        const cached = this.results.get(ticket);
+        if (cached && Date.now() - cached.searched < SUMMARY_LIFETIME) {
+            return cached.result;
+        }
+        const result = this.search(ticket).catch(error => {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            outputChannel.appendLine(`Could not search changesets of ${formatTicket(ticket)} for the hover: ${errorMessage}`);
+            this.results.delete(ticket);
+            return undefined;
+        });
+        this.results.set(ticket, { searched: Date.now(), result });
+        return result;
+    }
+}
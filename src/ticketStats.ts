@@ -0,0 +1,251 @@
+import * as path from 'path';
+import { Changeset, RevisionRef, formatRevision } from './svn';
+import { VcsProvider } from './vcs';
+import { DiffFile, findDiffFile, parseUnifiedDiff } from './unifiedDiff';
+import { escapeHtml } from './html';
+import { isCancellation } from './process';
+
+/** Changes counted for an author, file or directory. */
+export interface ChurnEntry {
+    name: string;
+    /** Number of revisions (commits) by the author or touching the file or directory. */
+    revisions: number;
+    additions: number;
+    deletions: number;
+}
+
+export interface TimelineEntry {
+    revision: number;
+    commit?: string;
+    date: string;
+    author: string;
+    additions: number;
+    deletions: number;
+}
+
+export interface TicketStatistics {
+    /** Oldest first. */
+    timeline: TimelineEntry[];
+    authors: ChurnEntry[];
+    /** Most touched first. */
+    files: ChurnEntry[];
+    directories: ChurnEntry[];
+    additions: number;
+    deletions: number;
+    /** Time from the first to the last revision, in milliseconds. */
+    duration: number;
+    /** Revisions whose diff could not be fetched; their lines are not counted. */
+    missingDiffs: RevisionRef[];
+}
+
+/** Number of files and directories listed as most touched. */
+const TOP_ENTRIES = 15;
+const BAR_WIDTH = 160;
+const TIMELINE_WIDTH = 800;
+const TIMELINE_HEIGHT = 80;
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Styles for the statistics tab. Bars are inline SVG sized by attributes, as the
+ * panel's content security policy does not allow inline styles.
+ */
+export const STATISTICS_STYLES = `
+    .stats-summary { display: flex; flex-wrap: wrap; gap: 24px; margin-bottom: 16px; }
+    .stats-figure { font-size: 1.6em; font-weight: bold; }
+    .stats-label { color: var(--vscode-descriptionForeground, #717171); }
+    .stats-table { border-collapse: collapse; margin-bottom: 16px; }
+    .stats-table th, .stats-table td { padding: 2px 10px 2px 0; text-align: left; }
+    .stats-table td.number { text-align: right; font-variant-numeric: tabular-nums; }
+    .stats-table td.path { font-family: var(--vscode-editor-font-family, monospace); }
+    .stats-bar .additions, .stats-timeline .additions { fill: var(--vscode-gitDecoration-addedResourceForeground, #587c0c); }
+    .stats-bar .deletions, .stats-timeline .deletions { fill: var(--vscode-gitDecoration-deletedResourceForeground, #ad0707); }
+    .stats-timeline { width: 100%; max-width: ${TIMELINE_WIDTH}px; height: auto; margin-bottom: 4px; }
+    .stats-timeline .axis { stroke: var(--vscode-panel-border, #80808059); }
+    .stats-timeline .commit { fill: var(--vscode-charts-blue, #3794ff); }
+    .stats-axis-labels { display: flex; justify-content: space-between; max-width: ${TIMELINE_WIDTH}px; margin-bottom: 16px; color: var(--vscode-descriptionForeground, #717171); }
+`;
+
+/** Fetches the diff of each revision across the whole repository, reporting progress per revision. */
+export async function collectRevisionDiffs(
+    client: VcsProvider,
+    changesets: Changeset[],
+    onProgress?: (done: number, total: number) => void
+): Promise<Map<number, DiffFile[]>> {
+    const diffs = new Map<number, DiffFile[]>();
+    const root = await client.getRepositoryRoot();
+    for (const [index, changeset] of changesets.entries()) {
+        try {
+            diffs.set(changeset.revision, parseUnifiedDiff(await client.diff(changeset.revision, root)));
+        } catch (error) {
+            if (isCancellation(error)) {
+                throw error;
+            }
+            // Counted as missing in the statistics
+        }
+        onProgress?.(index + 1, changesets.length);
+    }
+    return diffs;
+}
+
+/**
+ * Computes a ticket's statistics from its changesets and their parsed diffs:
+ * which files were touched comes from the changed paths, the line counts from
+ * the diffs (so binary files and property changes count as touched, without lines).
+ */
+export function computeTicketStatistics(changesets: Changeset[], diffs: Map<number, DiffFile[]>): TicketStatistics {
+    const ordered = [...changesets].sort((a, b) => a.revision - b.revision);
+    const authors = new Map<string, ChurnEntry>();
+    const files = new Map<string, ChurnEntry>();
+    const directories = new Map<string, ChurnEntry>();
+    const entry = (entries: Map<string, ChurnEntry>, name: string) => {
+        let found = entries.get(name);
+        if (!found) {
+            found = { name, revisions: 0, additions: 0, deletions: 0 };
+            entries.set(name, found);
+        }
+        return found;
+    };
+
+    const timeline: TimelineEntry[] = [];
+    for (const changeset of ordered) {
+        const revisionDiff = diffs.get(changeset.revision) ?? [];
+        const touched = new Set(changeset.paths.filter(changedPath => changedPath.kind !== 'dir').map(changedPath => changedPath.path));
+
+        let additions = 0;
+        let deletions = 0;
+        const touchedDirectories = new Set<string>();
+        for (const filePath of touched) {
+            const diffFile = findDiffFile(revisionDiff, filePath);
+            const fileEntry = entry(files, filePath);
+            fileEntry.revisions++;
+            fileEntry.additions += diffFile?.additions ?? 0;
+            fileEntry.deletions += diffFile?.deletions ?? 0;
+            additions += diffFile?.additions ?? 0;
+            deletions += diffFile?.deletions ?? 0;
+
+            const directory = path.posix.dirname(filePath);
+            const directoryEntry = entry(directories, directory);
+            if (!touchedDirectories.has(directory)) {
+                touchedDirectories.add(directory);
+                directoryEntry.revisions++;
+            }
+            directoryEntry.additions += diffFile?.additions ?? 0;
+            directoryEntry.deletions += diffFile?.deletions ?? 0;
+        }
+
+        const authorEntry = entry(authors, changeset.author);
+        authorEntry.revisions++;
+        authorEntry.additions += additions;
+        authorEntry.deletions += deletions;
+        timeline.push({ revision: changeset.revision, commit: changeset.commit, date: changeset.date, author: changeset.author, additions, deletions });
+    }
+
+    const byActivity = (a: ChurnEntry, b: ChurnEntry) =>
+        b.revisions - a.revisions || (b.additions + b.deletions) - (a.additions + a.deletions) || a.name.localeCompare(b.name);
+    const times = timeline.map(item => Date.parse(item.date)).filter(time => !isNaN(time));
+    return {
+        timeline,
+        authors: Array.from(authors.values()).sort(byActivity),
+        files: Array.from(files.values()).sort(byActivity),
+        directories: Array.from(directories.values()).sort(byActivity),
+        additions: timeline.reduce((sum, item) => sum + item.additions, 0),
+        deletions: timeline.reduce((sum, item) => sum + item.deletions, 0),
+        duration: times.length > 0 ? Math.max(...times) - Math.min(...times) : 0,
+        missingDiffs: ordered.filter(changeset => !diffs.has(changeset.revision))
+    };
+}
+
+/** Renders the statistics tab: summary figures, the timeline and the churn tables, with everything escaped. */
+export function renderTicketStatistics(statistics: TicketStatistics): string {
+    const { timeline } = statistics;
+    if (timeline.length === 0) {
+        return '<div class="diff-note">No changesets</div>';
+    }
+    const first = timeline[0];
+    const last = timeline[timeline.length - 1];
+    const figure = (value: string, label: string) =>
+        `<div><div class="stats-figure">${escapeHtml(value)}</div><div class="stats-label">${escapeHtml(label)}</div></div>`;
+
+    let html = `
+        <div class="stats-summary">
+            ${figure(String(timeline.length), timeline.length === 1 ? 'revision' : 'revisions')}
+            ${figure(String(statistics.authors.length), statistics.authors.length === 1 ? 'author' : 'authors')}
+            ${figure(String(statistics.files.length), statistics.files.length === 1 ? 'file' : 'files')}
+            ${figure(`+${statistics.additions} −${statistics.deletions}`, 'lines')}
+            ${figure(formatDuration(statistics.duration), `in development, ${formatRevision(first)} to ${formatRevision(last)}`)}
+        </div>`;
+    if (statistics.missingDiffs.length > 0) {
+        html += `<div class="diff-note">Lines of ${statistics.missingDiffs.map(formatRevision).join(', ')} are not counted, as their diffs could not be fetched</div>`;
+    }
+
+    html += `<h2>Timeline</h2>${renderTimeline(statistics)}`;
+    html += `<h2>Authors</h2>${renderChurnTable(statistics.authors, 'Author', 'Commits', false)}`;
+    html += `<h2>Most Touched Files</h2>${renderChurnTable(statistics.files.slice(0, TOP_ENTRIES), 'File', 'Revisions', true)}`;
+    html += `<h2>Most Touched Directories</h2>${renderChurnTable(statistics.directories.slice(0, TOP_ENTRIES), 'Directory', 'Revisions', true)}`;
+    return html;
+}
+
+/** Draws each revision as a bar at its date, as high as the square root of its changed lines. */
+function renderTimeline(statistics: TicketStatistics): string {
+    const { timeline } = statistics;
+    const times = timeline.map(item => Date.parse(item.date));
+    const start = Math.min(...times);
+    const span = Math.max(Math.max(...times) - start, 1);
+    const maxLines = Math.max(...timeline.map(item => item.additions + item.deletions), 1);
+    const baseline = TIMELINE_HEIGHT - 10;
+    const x = (time: number) => timeline.length === 1 ? TIMELINE_WIDTH / 2 : 10 + (time - start) / span * (TIMELINE_WIDTH - 20);
+    const height = (lines: number) => Math.sqrt(lines / maxLines) * (baseline - 10);
+
+    const bars = timeline.map((item, index) => {
+        const left = x(times[index]) - 2;
+        const added = height(item.additions + item.deletions) * (item.additions / Math.max(item.additions + item.deletions, 1));
+        const deleted = height(item.additions + item.deletions) - added;
+        const title = `${formatRevision(item)} by ${item.author}, ${item.date.substring(0, 10)}: +${item.additions} −${item.deletions}`;
+        return `<g><title>${escapeHtml(title)}</title>`
+            + `<rect class="additions" x="${left.toFixed(1)}" y="${(baseline - added).toFixed(1)}" width="4" height="${added.toFixed(1)}"/>`
+            + `<rect class="deletions" x="${left.toFixed(1)}" y="${(baseline - added - deleted).toFixed(1)}" width="4" height="${deleted.toFixed(1)}"/>`
+            + `<circle class="commit" cx="${(left + 2).toFixed(1)}" cy="${baseline + 5}" r="3"/></g>`;
+    }).join('');
+
+    return `
+        <svg class="stats-timeline" viewBox="0 0 ${TIMELINE_WIDTH} ${TIMELINE_HEIGHT}" role="img" aria-label="Revisions over time">
+            <line class="axis" x1="0" y1="${baseline}" x2="${TIMELINE_WIDTH}" y2="${baseline}"/>
+            ${bars}
+        </svg>
+        <div class="stats-axis-labels">
+            <span>${escapeHtml(timeline[0].date.substring(0, 10))}</span>
+            <span>${escapeHtml(timeline[timeline.length - 1].date.substring(0, 10))}</span>
+        </div>`;
+}
+
+function renderChurnTable(entries: ChurnEntry[], nameHeader: string, countHeader: string, isPath: boolean): string {
+    const maxLines = Math.max(...entries.map(item => item.additions + item.deletions), 1);
+    const rows = entries.map(item => {
+        const added = item.additions / maxLines * BAR_WIDTH;
+        const deleted = item.deletions / maxLines * BAR_WIDTH;
+        return `
+            <tr>
+                <td class="${isPath ? 'path' : ''}">${escapeHtml(item.name)}</td>
+                <td class="number">${item.revisions}</td>
+                <td class="number diff-stat"><span class="additions">+${item.additions}</span></td>
+                <td class="number diff-stat"><span class="deletions">−${item.deletions}</span></td>
+                <td><svg class="stats-bar" width="${BAR_WIDTH}" height="10">`
+            + `<rect class="additions" x="0" y="0" width="${added.toFixed(1)}" height="10"/>`
+            + `<rect class="deletions" x="${added.toFixed(1)}" y="0" width="${deleted.toFixed(1)}" height="10"/></svg></td>
+            </tr>`;
+    }).join('');
+    return `
+        <table class="stats-table">
+            <thead><tr><th>${nameHeader}</th><th>${countHeader}</th><th>Added</th><th>Removed</th><th></th></tr></thead>
+            <tbody>${rows}</tbody>
+        </table>`;
+}
+
+function formatDuration(duration: number): string {
+    if (duration < DAY) {
+        const hours = Math.round(duration / (60 * 60 * 1000));
+        return hours === 1 ? '1 hour' : `${hours} hours`;
+    }
+    const days = Math.round(duration / DAY);
+    return days === 1 ? '1 day' : `${days} days`;
+}
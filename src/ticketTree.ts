@@ -0,0 +1,227 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ChangedPath, Changeset, formatCopySource, formatRevision } from './svn';
+import { TicketSearchResult, formatTicket } from './tickets';
+import { MergeStatus, formatMergeStatus } from './branches';
+import { TicketHistory } from './history';
+import { TicketTracker } from './tracker';
+import { outputChannel } from './outputChannel';
+
+/** URI scheme used for changed-path tree items so they can be decorated with their change action. */
+export const CHANGED_PATH_SCHEME = 'ticket-changeset';
+
+export class TicketNode {
+    constructor(readonly ticket: string, readonly pinned: boolean) {}
+}
+
+export class RevisionNode {
+    constructor(
+        readonly ticket: string,
+        readonly changeset: Changeset,
+        readonly branch?: string,
+        readonly mergeStatus?: MergeStatus
+    ) {}
+}
+
+export class ChangedPathNode {
+    constructor(readonly changeset: Changeset, readonly changedPath: ChangedPath) {}
+}
+
+export type TicketTreeNode = TicketNode | RevisionNode | ChangedPathNode;
+
+/**
+ * Sidebar tree of pinned and recently searched tickets. Tickets expand to the
+ * revisions that reference them and revisions expand to their changed paths.
+ */
+export class TicketTreeProvider implements vscode.TreeDataProvider<TicketTreeNode> {
+    private readonly changeEmitter = new vscode.EventEmitter<TicketTreeNode | undefined>();
+    readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    private readonly results = new Map<string, TicketSearchResult>();
+
+    constructor(
+        private readonly history: TicketHistory,
+        private readonly search: (tickets: string[]) => Promise<TicketSearchResult | undefined>,
+        private readonly tracker: TicketTracker
+    ) {
+        history.onDidChange(() => this.changeEmitter.fire(undefined));
+        tracker.onDidChange(() => this.changeEmitter.fire(undefined));
+    }
+
+    /** Drops the cached search results and reloads the whole tree. */
+    refresh(): void {
+        this.results.clear();
+        this.changeEmitter.fire(undefined);
+    }
+
+    getTreeItem(node: TicketTreeNode): vscode.TreeItem {
+        if (node instanceof TicketNode) {
+            const item = new vscode.TreeItem(formatTicket(node.ticket), vscode.TreeItemCollapsibleState.Collapsed);
+            item.id = `ticket:${node.ticket}`;
+            item.iconPath = new vscode.ThemeIcon(node.pinned ? 'pinned' : 'history');
+            item.contextValue = node.pinned ? 'ticket.pinned' : 'ticket';
+            const changesets = this.results.get(node.ticket)?.changesets;
+            const info = this.tracker.peekInfo(node.ticket);
+            item.description = [
+                info && info.title !== formatTicket(node.ticket) ? info.title : undefined,
+                changesets && `${changesets.length} revision${changesets.length === 1 ? '' : 's'}`
+            ].filter(part => part).join(' · ');
+            if (info) {
+                item.tooltip = new vscode.MarkdownString()
+                    .appendMarkdown(`**${formatTicket(node.ticket)}**: `)
+                    .appendText(info.title);
+                const meta = [info.status && `Status: ${info.status}`, info.assignee && `Assignee: ${info.assignee}`].filter(part => part);
+                if (meta.length > 0) {
+                    item.tooltip.appendMarkdown('\n\n').appendText(meta.join(' · '));
+                }
+            }
+            return item;
+        }
+
+        if (node instanceof RevisionNode) {
+            const { changeset } = node;
+            const item = new vscode.TreeItem(formatRevision(changeset), vscode.TreeItemCollapsibleState.Collapsed);
+            item.id = `revision:${node.ticket}:${changeset.revision}`;
+            item.description = [node.branch, changeset.author, changeset.message.split('\n')[0]]
+                .filter(part => part)
+                .join(' · ');
+            item.tooltip = new vscode.MarkdownString()
+                .appendMarkdown(`**${formatRevision(changeset)}** by ${changeset.author} on ${changeset.date}\n\n`);
+            if (node.branch) {
+                item.tooltip.appendMarkdown(`Committed on \`${node.branch}\`, ${formatMergeStatus(node.mergeStatus)}\n\n`);
+            }
+            item.tooltip.appendText(changeset.message);
+            item.iconPath = revisionIcon(node.mergeStatus);
+            item.contextValue = 'revision';
+            return item;
+        }
+
+        const { changeset, changedPath } = node;
+        const item = new vscode.TreeItem(
+            changedPathUri(changeset.revision, changedPath),
+            vscode.TreeItemCollapsibleState.None
+        );
+        item.label = path.posix.basename(changedPath.path);
+        item.description = path.posix.dirname(changedPath.path);
+        item.tooltip = changedPath.copyFromPath
+            ? `${changedPath.path} (from ${formatCopySource(changedPath)})`
+            : changedPath.path;
+        if (changedPath.kind === 'dir') {
+            item.iconPath = vscode.ThemeIcon.Folder;
+        } else {
+            item.iconPath = vscode.ThemeIcon.File;
+            item.command = {
+                command: 'ticket-changesets-viewer.openChangedFile',
+                title: 'Open Changes',
+                arguments: [changeset, changedPath]
+            };
+        }
+        item.contextValue = 'changedPath';
+        return item;
+    }
+
+    async getChildren(node?: TicketTreeNode): Promise<TicketTreeNode[]> {
+        if (!node) {
+            const tickets = [...this.history.pinned, ...this.history.recent];
+            this.loadTicketInfo(tickets);
+            return [
+                ...this.history.pinned.map(ticket => new TicketNode(ticket, true)),
+                ...this.history.recent.map(ticket => new TicketNode(ticket, false))
+            ];
+        }
+
+        if (node instanceof TicketNode) {
+            const result = await this.getResult(node.ticket);
+            return (result?.changesets ?? []).map(changeset => new RevisionNode(
+                node.ticket,
+                changeset,
+                result?.branches.get(changeset.revision),
+                result?.mergeStatus.get(changeset.revision)
+            ));
+        }
+
+        if (node instanceof RevisionNode) {
+            return node.changeset.paths.map(changedPath => new ChangedPathNode(node.changeset, changedPath));
+        }
+
+        return [];
+    }
+
+    /** Fetches the tracker's details of tickets not looked up yet, then shows them. */
+    private loadTicketInfo(tickets: string[]): void {
+        const missing = tickets.filter(ticket => !this.tracker.peekInfo(ticket));
+        if (!this.tracker.configured || missing.length === 0) {
+            return;
+        }
+        Promise.all(missing.map(ticket => this.tracker.getInfo(ticket))).then(infos => {
+            if (infos.some(info => info)) {
+                this.changeEmitter.fire(undefined);
+            }
+        }).catch(error => {
+            outputChannel.appendLine(`Could not show the ticket details: ${error instanceof Error ? error.message : String(error)}`);
+        });
+    }
+
+    /** Returns the changesets referencing `ticket`, searching the log on first use. */
+    async getChangesets(ticket: string): Promise<Changeset[]> {
+        return (await this.getResult(ticket))?.changesets ?? [];
+    }
+
+    private async getResult(ticket: string): Promise<TicketSearchResult | undefined> {
+        const cached = this.results.get(ticket);
+        if (cached) {
+            return cached;
+        }
+
+        try {
+            const result = await this.search([ticket]);
+            if (result) {
+                this.results.set(ticket, result);
+            }
+            return result;
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            outputChannel.appendLine(`Error loading changesets for ${formatTicket(ticket)}: ${errorMessage}`);
+            vscode.window.showErrorMessage(`Error loading changesets for ${formatTicket(ticket)}: ${errorMessage}`);
+            return undefined;
+        }
+    }
+}
+
+function revisionIcon(mergeStatus: MergeStatus | undefined): vscode.ThemeIcon {
+    switch (mergeStatus) {
+        case 'merged': return new vscode.ThemeIcon('git-merge', new vscode.ThemeColor('gitDecoration.addedResourceForeground'));
+        case 'notMerged': return new vscode.ThemeIcon('git-commit', new vscode.ThemeColor('gitDecoration.deletedResourceForeground'));
+        default: return new vscode.ThemeIcon('git-commit');
+    }
+}
+
+function changedPathUri(revision: number, changedPath: ChangedPath): vscode.Uri {
+    return vscode.Uri.from({
+        scheme: CHANGED_PATH_SCHEME,
+        path: changedPath.path,
+        query: `revision=${revision}&action=${changedPath.action}`
+    });
+}
+
+const ACTION_DECORATIONS: Record<string, { tooltip: string; color: string }> = {
+    A: { tooltip: 'Added', color: 'gitDecoration.addedResourceForeground' },
+    M: { tooltip: 'Modified', color: 'gitDecoration.modifiedResourceForeground' },
+    D: { tooltip: 'Deleted', color: 'gitDecoration.deletedResourceForeground' },
+    R: { tooltip: 'Replaced', color: 'gitDecoration.renamedResourceForeground' }
+};
+
+/** Decorates changed-path tree items with their A/M/D/R action, like the SCM view does. */
+export class ChangedPathDecorationProvider implements vscode.FileDecorationProvider {
+    provideFileDecoration(uri: vscode.Uri): vscode.FileDecoration | undefined {
+        if (uri.scheme !== CHANGED_PATH_SCHEME) {
+            return undefined;
+        }
+        const action = new URLSearchParams(uri.query).get('action') ?? '';
+        const decoration = ACTION_DECORATIONS[action];
+        if (!decoration) {
+            return undefined;
+        }
+        return new vscode.FileDecoration(action, decoration.tooltip, new vscode.ThemeColor(decoration.color));
+    }
+}
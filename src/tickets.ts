@@ -0,0 +1,205 @@
+import { Changeset, LogOptions } from './svn';
+import { VcsProvider } from './vcs';
+import { MergeStatus, branchOf } from './branches';
+
+/**
+ * Default ticket reference patterns: `#1234` and `refs 1234` / `fixes 1234` style
+ * references. Each pattern must define a named capture group `id`; an optional
+ * `project` group captures a tracker prefix such as `PROJ` in `PROJ-1234`.
+ */
+export const DEFAULT_TICKET_PATTERNS = [
+    '(?<![\\w&])#(?<id>\\d+)\\b',
+    '\\b(?:refs?|references|fix(?:es|ed)?|close[sd]?|see)\\s+(?<id>\\d+)\\b'
+];
+
+export interface TicketSearchResult {
+    /** Ticket keys in the order they were requested. */
+    tickets: string[];
+    /** All matching changesets, newest first. */
+    changesets: Changeset[];
+    /** Matching changesets per ticket key, newest first. */
+    changesetsByTicket: Map<string, Changeset[]>;
+    /** Location (e.g. `/trunk` or `/branches/1.2`) each revision was committed on, if known. */
+    branches: Map<number, string>;
+    /** Whether each revision is present on the checked-out branch, if determined. */
+    mergeStatus: Map<number, MergeStatus>;
+    /** Repository paths the changesets were restricted to (see `filterResultToPaths`); diffs only cover these. */
+    paths?: string[];
+}
+
+/**
+ * Compiles the configured pattern sources into global regular expressions.
+ * Patterns that are not valid regexes or lack an `id` group are reported through
+ * `onInvalid` and skipped.
+ */
+export function compileTicketPatterns(sources: string[], onInvalid?: (source: string, reason: string) => void): RegExp[] {
+    const patterns: RegExp[] = [];
+    for (const source of sources) {
+        try {
+            if (!/\(\?<id>/.test(source)) {
+                throw new Error('missing named capture group "id"');
+            }
+            patterns.push(new RegExp(source, 'gi'));
+        } catch (error) {
+            onInvalid?.(source, error instanceof Error ? error.message : String(error));
+        }
+    }
+    return patterns;
+}
+
+/** Builds the canonical key of a ticket, e.g. `52438` or `PROJ-1234`. */
+export function ticketKey(id: string, project?: string): string {
+    return project ? `${project.toUpperCase()}-${id}` : id;
+}
+
+/** Formats a ticket key for display: `#52438` for plain numbers, `PROJ-1234` otherwise. */
+export function formatTicket(key: string): string {
+    return /^\d+$/.test(key) ? `#${key}` : key;
+}
+
+/** Returns the keys of all tickets referenced in `text`, without duplicates. */
+export function findTicketReferences(text: string, patterns: RegExp[]): string[] {
+    const keys = new Set<string>();
+    for (const pattern of patterns) {
+        pattern.lastIndex = 0;
+        for (const match of text.matchAll(pattern)) {
+            if (match.groups?.id) {
+                keys.add(ticketKey(match.groups.id, match.groups.project));
+            }
+        }
+    }
+    return Array.from(keys);
+}
+
+/** A ticket reference found in a text. */
+export interface TicketMatch {
+    ticket: string;
+    /** Offset and length of the whole reference, e.g. `refs 1234`. */
+    index: number;
+    length: number;
+}
+
+/** Returns the ticket references in `text` in order of appearance; where references overlap, the first wins. */
+export function findTicketMatches(text: string, patterns: RegExp[]): TicketMatch[] {
+    const matches: TicketMatch[] = [];
+    for (const pattern of patterns) {
+        pattern.lastIndex = 0;
+        for (const match of text.matchAll(pattern)) {
+            if (match.groups?.id && match.index !== undefined) {
+                matches.push({ ticket: ticketKey(match.groups.id, match.groups.project), index: match.index, length: match[0].length });
+            }
+        }
+    }
+    matches.sort((a, b) => a.index - b.index);
+    const kept: TicketMatch[] = [];
+    for (const match of matches) {
+        const last = kept[kept.length - 1];
+        if (!last || match.index >= last.index + last.length) {
+            kept.push(match);
+        }
+    }
+    return kept;
+}
+
+/**
+ * Splits the ticket input box value into ticket keys. Accepts several tickets
+ * separated by commas or whitespace, each optionally prefixed with `#`.
+ */
+export function parseTicketInput(value: string): string[] {
+    const keys = value
+        .split(/[\s,;]+/)
+        .map(token => token.replace(/^#/, '').trim())
+        .filter(token => token.length > 0)
+        .map(token => {
+            const prefixed = token.match(/^([A-Za-z][\w]*)-(\d+)$/);
+            return prefixed ? ticketKey(prefixed[2], prefixed[1]) : token;
+        });
+    return Array.from(new Set(keys));
+}
+
+export function validateTicketInput(value: string): string | null {
+    const keys = parseTicketInput(value);
+    if (keys.length === 0) {
+        return 'Please enter at least one ticket ID';
+    }
+    const invalid = keys.find(key => !/^(?:[A-Z][\w]*-)?\d+$/.test(key));
+    return invalid ? `"${invalid}" is not a valid ticket ID (e.g. 52438 or PROJ-1234)` : null;
+}
+
+/**
+ * Searches the log for changesets that reference any of the given tickets.
+ *
+ * `svn log --search` only does substring matching, so it is used to narrow the
+ * log down on the server and the configured patterns then decide which entries
+ * actually reference the tickets (so `#5243` does not match `#52438`).
+ *
+ * Without `locations` the working copy's history is searched. Otherwise each
+ * location (a repository path such as `/trunk` or `/branches/1.2`) is searched
+ * up to its creation and every revision is attributed to the location it was
+ * committed on.
+ */
+export async function searchTickets(
+    client: VcsProvider,
+    tickets: string[],
+    patterns: RegExp[],
+    locations?: string[]
+): Promise<TicketSearchResult> {
+    const byRevision = new Map<number, Changeset>();
+    for (const options of await searchTargets(client, locations)) {
+        const log = await client.log({ ...options, search: tickets });
+        log.forEach(changeset => byRevision.set(changeset.revision, changeset));
+    }
+    return collectTicketResult(tickets, Array.from(byRevision.values()), patterns, locations);
+}
+
+/**
+ * Returns the logs searched for tickets: each location up to its creation, or the
+ * working copy's history if no locations are given.
+ */
+export async function searchTargets(client: VcsProvider, locations?: string[]): Promise<LogOptions[]> {
+    if (!locations || locations.length === 0) {
+        return [{}];
+    }
+    return Promise.all(locations.map(async location => ({
+        stopOnCopy: true,
+        target: await client.pegUrl(location, 'HEAD')
+    })));
+}
+
+/**
+ * Builds the search result from candidate changesets: keeps those whose messages
+ * reference one of the tickets and attributes each to the location it was committed on.
+ */
+export function collectTicketResult(
+    tickets: string[],
+    candidates: Changeset[],
+    patterns: RegExp[],
+    locations?: string[]
+): TicketSearchResult {
+    const changesetsByTicket = new Map<string, Changeset[]>(tickets.map(ticket => [ticket, []]));
+    const changesets: Changeset[] = [];
+    for (const changeset of candidates) {
+        const references = findTicketReferences(changeset.message, patterns);
+        const matched = tickets.filter(ticket => references.includes(ticket));
+        for (const ticket of matched) {
+            changesetsByTicket.get(ticket)?.push(changeset);
+        }
+        if (matched.length > 0) {
+            changesets.push(changeset);
+        }
+    }
+
+    changesets.sort((a, b) => b.revision - a.revision);
+    for (const ticketChangesets of changesetsByTicket.values()) {
+        ticketChangesets.sort((a, b) => b.revision - a.revision);
+    }
+    const branches = new Map<number, string>();
+    for (const changeset of changesets) {
+        const branch = branchOf(changeset, locations ?? []);
+        if (branch) {
+            branches.set(changeset.revision, branch);
+        }
+    }
+
+    return { tickets, changesets, changesetsByTicket, branches, mergeStatus: new Map() };
+}
@@ -0,0 +1,320 @@
+import * as vscode from 'vscode';
+import * as http from 'http';
+import * as https from 'https';
+import { formatTicket } from './tickets';
+import { outputChannel } from './outputChannel';
+
+export type TrackerType = 'none' | 'link' | 'trac' | 'redmine' | 'jira';
+
+/** What the tracker knows about a ticket. */
+export interface TicketInfo {
+    ticket: string;
+    title: string;
+    status?: string;
+    assignee?: string;
+    description?: string;
+    /** The ticket's page in the tracker. */
+    url: string;
+}
+
+/** Fetches ticket details from one kind of tracker. */
+export interface TicketInfoProvider {
+    /** Returns the ticket's page in the tracker. */
+    ticketUrl(ticket: string): string;
+    fetch(ticket: string): Promise<TicketInfo>;
+}
+
+const SECRET_KEY = 'ticketChangesetsViewer.trackerToken';
+const REQUEST_TIMEOUT = 10000;
+/** How long a failed lookup is remembered before the tracker is asked again. */
+const RETRY_AFTER = 60 * 1000;
+
+/**
+ * Expands a ticket URL template: `{ticket}` is the ticket key (`52438` or
+ * `PROJ-1234`), `{id}` its number and `{project}` its project prefix.
+ */
+export function expandTicketUrl(template: string, ticket: string): string {
+    const [, project = '', id = ticket] = /^(?:(.*)-)?(\d+)$/.exec(ticket) ?? [];
+    return template
+        .replace(/\{ticket\}/g, encodeURIComponent(ticket))
+        .replace(/\{id\}/g, encodeURIComponent(id))
+        .replace(/\{project\}/g, encodeURIComponent(project));
+}
+
+/** Builds the `Authorization` header for a token: `user:password` as Basic, anything else as Bearer. */
+function authorization(token: string | undefined): Record<string, string> {
+    if (!token) {
+        return {};
+    }
+    return token.includes(':')
+        ? { Authorization: `Basic ${Buffer.from(token).toString('base64')}` }
+        : { Authorization: `Bearer ${token}` };
+}
+
+/** GETs `url`, failing on any status other than 2xx and after `timeout` milliseconds without an answer. */
+export function httpGet(url: string, headers: Record<string, string> = {}, timeout = REQUEST_TIMEOUT): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const get = url.startsWith('https:') ? https.get : http.get;
+        const request = get(url, { headers: { Accept: 'application/json, text/csv, */*', ...headers }, timeout }, response => {
+            const status = response.statusCode ?? 0;
+            if (status < 200 || status >= 300) {
+                response.resume();
+                reject(new Error(`${url} returned HTTP ${status}`));
+                return;
+            }
+            const chunks: Buffer[] = [];
+            response.on('data', (chunk: Buffer) => chunks.push(chunk));
+            response.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+            response.on('error', reject);
+        });
+        request.on('timeout', () => request.destroy(new Error(`${url} did not respond within ${timeout / 1000}s`)));
+        request.on('error', reject);
+    });
+}
+
+/** Only links to the tracker; nothing is fetched. */
+class LinkProvider implements TicketInfoProvider {
+    constructor(private readonly urlTemplate: string) {}
+
+    ticketUrl(ticket: string): string {
+        return expandTicketUrl(this.urlTemplate, ticket);
+    }
+
+    async fetch(ticket: string): Promise<TicketInfo> {
+        return { ticket, title: formatTicket(ticket), url: this.ticketUrl(ticket) };
+    }
+}
+
+/** Trac, from the CSV export of the ticket page (`/ticket/{id}?format=csv`). */
+class TracProvider extends LinkProvider {
+    constructor(urlTemplate: string, private readonly token?: string) {
+        super(urlTemplate);
+    }
+
+    async fetch(ticket: string): Promise<TicketInfo> {
+        const url = this.ticketUrl(ticket);
+        const [header = [], row = []] = parseCsv(await httpGet(`${url}${url.includes('?') ? '&' : '?'}format=csv`, authorization(this.token)));
+        const field = (name: string) => row[header.indexOf(name)] || undefined;
+        return {
+            ticket,
+            title: field('summary') ?? formatTicket(ticket),
+            status: field('status'),
+            assignee: field('owner'),
+            description: field('description'),
+            url
+        };
+    }
+}
+
+/** Redmine, from the issue's JSON representation (`/issues/{id}.json`), with the token as API key. */
+class RedmineProvider extends LinkProvider {
+    constructor(urlTemplate: string, private readonly token?: string) {
+        super(urlTemplate);
+    }
+
+    async fetch(ticket: string): Promise<TicketInfo> {
+        const url = this.ticketUrl(ticket);
+        const headers: Record<string, string> = this.token ? { 'X-Redmine-API-Key': this.token } : {};
+        const { issue } = JSON.parse(await httpGet(`${url}.json`, headers));
+        return {
+            ticket,
+            title: issue?.subject ?? formatTicket(ticket),
+            status: issue?.status?.name,
+            assignee: issue?.assigned_to?.name,
+            description: issue?.description,
+            url
+        };
+    }
+}
+
+/**
+ * Jira, from the REST API (`/rest/api/2/issue/{ticket}`) next to the `/browse/`
+ * page. A token of the form `email:api-token` is sent as Basic auth (Jira Cloud),
+ * anything else as a personal access token.
+ */
+class JiraProvider extends LinkProvider {
+    constructor(urlTemplate: string, private readonly token?: string) {
+        super(urlTemplate);
+    }
+
+    async fetch(ticket: string): Promise<TicketInfo> {
+        const url = this.ticketUrl(ticket);
+        const apiUrl = `${url.replace(/\/browse\/([^/?#]+).*$/, '/rest/api/2/issue/$1')}?fields=summary,status,assignee,description`;
+        const { fields } = JSON.parse(await httpGet(apiUrl, authorization(this.token)));
+        return {
+            ticket,
+            title: fields?.summary ?? formatTicket(ticket),
+            status: fields?.status?.name,
+            assignee: fields?.assignee?.displayName,
+            description: typeof fields?.description === 'string' ? fields.description : undefined,
+            url
+        };
+    }
+}
+
+export function createTicketInfoProvider(type: TrackerType, urlTemplate: string, token?: string): TicketInfoProvider | undefined {
+    if (type === 'none' || !urlTemplate) {
+        return undefined;
+    }
+    switch (type) {
+        case 'link': return new LinkProvider(urlTemplate);
+        case 'trac': return new TracProvider(urlTemplate, token);
+        case 'redmine': return new RedmineProvider(urlTemplate, token);
+        case 'jira': return new JiraProvider(urlTemplate, token);
+    }
+}
+
+/**
+ * The configured ticket tracker, with lookups cached for the session. Lookups
+ * never fail: if the tracker cannot be reached the ticket is shown without
+ * details (and still linked), and it is asked again after a minute.
+ */
+export class TicketTracker {
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    /** Fires when the tracker configuration or token changed. */
+    readonly onDidChange = this.changeEmitter.event;
+
+    private provider?: Promise<TicketInfoProvider | undefined>;
+    private readonly infos = new Map<string, Promise<TicketInfo | undefined>>();
+    private readonly fetched = new Map<string, TicketInfo>();
+    private readonly failures = new Map<string, number>();
+
+    constructor(private readonly secrets: vscode.SecretStorage) {}
+
+    /** Whether a tracker is configured, so tickets can be linked. */
+    get configured(): boolean {
+        const config = vscode.workspace.getConfiguration('ticketChangesetsViewer');
+        return config.get<TrackerType>('trackerType', 'none') !== 'none' && !!config.get<string>('trackerUrl');
+    }
+
+    /** Returns the ticket's page in the tracker, if one is configured. */
+    ticketUrl(ticket: string): string | undefined {
+        const template = vscode.workspace.getConfiguration('ticketChangesetsViewer').get<string>('trackerUrl');
+        return this.configured && template ? expandTicketUrl(template, ticket) : undefined;
+    }
+
+    /** Returns the ticket's details, or `undefined` if no tracker is configured or it could not be reached. */
+    getInfo(ticket: string): Promise<TicketInfo | undefined> {
+        const failedAt = this.failures.get(ticket);
+        if (failedAt !== undefined && Date.now() - failedAt > RETRY_AFTER) {
+            this.failures.delete(ticket);
+            this.infos.delete(ticket);
+        }
+
+        let info = this.infos.get(ticket);
+        if (!info) {
+            info = this.fetch(ticket);
+            this.infos.set(ticket, info);
+        }
+        return info;
+    }
+
+    /** Returns the ticket's details if they have been fetched already, without fetching them. */
+    peekInfo(ticket: string): TicketInfo | undefined {
+        return this.fetched.get(ticket);
+    }
+
+    async setToken(token: string | undefined): Promise<void> {
+        if (token) {
+            await this.secrets.store(SECRET_KEY, token);
+        } else {
+            await this.secrets.delete(SECRET_KEY);
+        }
+        this.reset();
+    }
+
+    /** Forgets the provider and all lookups, e.g. after the configuration changed. */
+    reset(): void {
+        this.provider = undefined;
+        this.infos.clear();
+        this.fetched.clear();
+        this.failures.clear();
+        this.changeEmitter.fire();
+    }
+
+    private async fetch(ticket: string): Promise<TicketInfo | undefined> {
+        let provider: TicketInfoProvider | undefined;
+        try {
+            provider = await this.getProvider();
+        } catch (error) {
+            // E.g. the secret storage is unavailable; the provider is created again on the next attempt
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            outputChannel.appendLine(`Could not set up the ticket tracker: ${errorMessage}`);
+            this.provider = undefined;
+            this.failures.set(ticket, Date.now());
+            return undefined;
+        }
+        if (!provider) {
+            return undefined;
+        }
+        let info: TicketInfo;
+        try {
+            info = await provider.fetch(ticket);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            outputChannel.appendLine(`Could not get ${formatTicket(ticket)} from the ticket tracker: ${errorMessage}`);
+            this.failures.set(ticket, Date.now());
+            info = { ticket, title: formatTicket(ticket), url: provider.ticketUrl(ticket) };
+        }
+        this.fetched.set(ticket, info);
+        return info;
+    }
+
+    private getProvider(): Promise<TicketInfoProvider | undefined> {
+        if (!this.provider) {
+            const config = vscode.workspace.getConfiguration('ticketChangesetsViewer');
+            const type = config.get<TrackerType>('trackerType', 'none');
+            const urlTemplate = config.get<string>('trackerUrl', '');
+            this.provider = Promise.resolve(this.secrets.get(SECRET_KEY))
+                .then(token => createTicketInfoProvider(type, urlTemplate, token));
+        }
+        return this.provider;
+    }
+
+    dispose(): void {
+        this.changeEmitter.dispose();
+    }
+}
+
+/** Parses CSV as Trac exports it: comma separated, fields quoted with `"` when needed. */
+export function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+    const input = text.replace(/^\uFEFF/, '');
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+        if (quoted) {
+            if (char === '"' && input[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') {
+                i++;
+            }
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows;
+}
@@ -0,0 +1,170 @@
+export type DiffLineType = 'context' | 'add' | 'delete';
+
+export interface DiffLine {
+    type: DiffLineType;
+    content: string;
+    /** Line number in the old file, for context and deleted lines. */
+    oldLine?: number;
+    /** Line number in the new file, for context and added lines. */
+    newLine?: number;
+    /** Set if the line is followed by `\ No newline at end of file`. */
+    noNewline?: boolean;
+}
+
+export interface DiffHunk {
+    /** The `@@ -a,b +c,d @@ section` line. */
+    header: string;
+    oldStart: number;
+    newStart: number;
+    lines: DiffLine[];
+}
+
+export interface DiffFile {
+    path: string;
+    status: 'added' | 'deleted' | 'modified';
+    hunks: DiffHunk[];
+    /** Set for files whose content SVN (or git) does not diff. */
+    binary: boolean;
+    /** Raw text of property changes (`svn:mergeinfo`, `svn:eol-style`, ...), if any. */
+    properties?: string;
+    additions: number;
+    deletions: number;
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Parses unified diff output of `svn diff` (or `git diff`) into files and hunks.
+ * Hunk lines are consumed by the counts in the hunk header, so content lines that
+ * look like headers (e.g. a removed `-- comment`) are read correctly.
+ */
+export function parseUnifiedDiff(text: string): DiffFile[] {
+    const files: DiffFile[] = [];
+    let file: DiffFile | undefined;
+    let hunk: DiffHunk | undefined;
+    let oldRemaining = 0;
+    let newRemaining = 0;
+    let oldLine = 0;
+    let newLine = 0;
+    let properties: string[] | undefined;
+
+    const finishFile = () => {
+        if (file && properties) {
+            file.properties = properties.join('\n').trimEnd();
+        }
+        properties = undefined;
+        hunk = undefined;
+    };
+    const startFile = (filePath: string) => {
+        finishFile();
+        file = { path: filePath, status: 'modified', hunks: [], binary: false, additions: 0, deletions: 0 };
+        files.push(file);
+    };
+
+    const lines = text.split(/\r?\n/);
+    if (lines[lines.length - 1] === '') {
+        lines.pop();
+    }
+
+    for (const line of lines) {
+        if (hunk && file && (oldRemaining > 0 || newRemaining > 0)) {
+            const marker = line.charAt(0);
+            const content = line.substring(1);
+            if (marker === '+') {
+                hunk.lines.push({ type: 'add', content, newLine: newLine++ });
+                file.additions++;
+                newRemaining--;
+                continue;
+            }
+            if (marker === '-') {
+                hunk.lines.push({ type: 'delete', content, oldLine: oldLine++ });
+                file.deletions++;
+                oldRemaining--;
+                continue;
+            }
+            if (marker === ' ' || line === '') {
+                hunk.lines.push({ type: 'context', content, oldLine: oldLine++, newLine: newLine++ });
+                oldRemaining--;
+                newRemaining--;
+                continue;
+            }
+            if (marker !== '\\') {
+                oldRemaining = newRemaining = 0; // Truncated hunk, fall through to the headers
+            }
+        }
+
+        if (line.startsWith('\\')) {
+            const last = hunk?.lines[hunk.lines.length - 1];
+            if (last) {
+                last.noNewline = true;
+            }
+            continue;
+        }
+
+        if (line.startsWith('Index: ')) {
+            startFile(line.substring('Index: '.length).trim());
+            continue;
+        }
+        const gitHeader = /^diff --git a\/(.*) b\/(.*)$/.exec(line);
+        if (gitHeader) {
+            startFile(gitHeader[2]);
+            continue;
+        }
+        if (line.startsWith('Property changes on: ')) {
+            const propertyPath = line.substring('Property changes on: '.length).trim();
+            if (!file || file.path !== propertyPath) {
+                startFile(propertyPath);
+            }
+            hunk = undefined;
+            properties = [];
+            continue;
+        }
+        if (properties) {
+            if (!/^_{10,}$/.test(line)) {
+                properties.push(line);
+            }
+            continue;
+        }
+        if (!file) {
+            continue;
+        }
+
+        const hunkHeader = HUNK_HEADER.exec(line);
+        if (hunkHeader) {
+            oldLine = parseInt(hunkHeader[1], 10);
+            newLine = parseInt(hunkHeader[3], 10);
+            oldRemaining = hunkHeader[2] === undefined ? 1 : parseInt(hunkHeader[2], 10);
+            newRemaining = hunkHeader[4] === undefined ? 1 : parseInt(hunkHeader[4], 10);
+            hunk = { header: line, oldStart: oldLine, newStart: newLine, lines: [] };
+            file.hunks.push(hunk);
+        } else if (line.startsWith('--- ')) {
+            if (/\(nonexistent\)|\/dev\/null/.test(line)) {
+                file.status = 'added';
+            }
+        } else if (line.startsWith('+++ ')) {
+            if (/\(nonexistent\)|\/dev\/null/.test(line)) {
+                file.status = 'deleted';
+            }
+        } else if (line.startsWith('new file mode')) {
+            file.status = 'added';
+        } else if (line.startsWith('deleted file mode')) {
+            file.status = 'deleted';
+        } else if (line.startsWith('Cannot display:') || /^Binary files .* differ$/.test(line)) {
+            file.binary = true;
+        }
+    }
+
+    finishFile();
+    return files;
+}
+
+/**
+ * Finds the diff of a repository path such as `/trunk/src/a.c`. Diff headers are
+ * relative to the diffed target, so a header matches if it is the path or a
+ * trailing part of it (`trunk/src/a.c` for a diff of the repository root).
+ */
+export function findDiffFile(files: DiffFile[], repositoryPath: string): DiffFile | undefined {
+    const normalize = (filePath: string) => filePath.startsWith('/') ? filePath : `/${filePath}`;
+    return files.find(file => normalize(file.path) === repositoryPath)
+        ?? files.find(file => repositoryPath.endsWith(normalize(file.path)));
+}
@@ -0,0 +1,45 @@
+import { BlameLine, Changeset, LogOptions } from './svn';
+
+export type VcsKind = 'svn' | 'git';
+
+/**
+ * The version control operations ticket searches and diffs are built on, so they
+ * work the same on an SVN working copy and on a Git (or `git svn`) clone.
+ *
+ * Files are addressed by repository path (`/trunk/src/main.c` in SVN, `/src/main.c`
+ * in Git) and revision number. `pegUrl` turns a path and revision into an address
+ * that `log`, `diff` and `cat` of the same provider understand; callers treat it
+ * as opaque. Merging, mergeinfo and branch locations remain SVN-only (`SvnClient`).
+ */
+export interface VcsProvider {
+    readonly kind: VcsKind;
+    /** Root directory of the working copy or clone. */
+    readonly cwd: string;
+
+    /** Returns log entries, newest first unless `options.revision` is an ascending range. */
+    log(options?: LogOptions): Promise<Changeset[]>;
+
+    /** Returns the log entry of a single revision, or `undefined` if it does not exist. */
+    getChangeset(revision: number): Promise<Changeset | undefined>;
+
+    /** Returns the address of the whole repository, for diffs of everything changed in a revision. */
+    getRepositoryRoot(): Promise<string>;
+
+    /**
+     * Returns the address of `repositoryPath` as of `revision` (a number or `HEAD`).
+     * Passed to `cat` with an earlier revision, it follows the file back through renames.
+     */
+    pegUrl(repositoryPath: string, revision: number | string): Promise<string>;
+
+    /** Returns the unified diff of everything `revision` changed below `target`. */
+    diff(revision: number, target?: string): Promise<string>;
+
+    /** Returns the contents of the file at `target` as of `revision`. */
+    cat(target: string, revision: number | string): Promise<string>;
+
+    /** Returns the repository path of the working file or directory at `localPath`. */
+    repositoryPath(localPath: string): Promise<string>;
+
+    /** Returns who last changed each line of the working file at `filePath` (a local path). */
+    blame(filePath: string): Promise<BlameLine[]>;
+}
@@ -0,0 +1,222 @@
+import type { ExtensionMessage, WebviewMessage, WebviewState } from './protocol';
+
+interface VsCodeApi {
+    postMessage(message: WebviewMessage): void;
+    getState(): WebviewState | undefined;
+    setState(state: WebviewState): void;
+}
+
+declare function acquireVsCodeApi(): VsCodeApi;
+
+const vscode = acquireVsCodeApi();
+
+// The extension embeds the panel data as JSON; keep it in the webview state so the
+// panel can be restored after a reload
+const state: WebviewState = vscode.getState() ?? {
+    panel: JSON.parse(document.getElementById('panel-data')?.textContent ?? 'null'),
+    inlineDiffs: false,
+    openDiffs: [],
+    tab: 'changesets',
+    reviewMode: false
+};
+vscode.setState(state);
+
+function setInlineDiffs(inline: boolean): void {
+    document.body.classList.toggle('diff-mode-inline', inline);
+    const button = document.getElementById('diff-mode-button');
+    if (button) {
+        button.textContent = inline ? 'Side-by-Side Diffs' : 'Inline Diffs';
+    }
+    state.inlineDiffs = inline;
+    vscode.setState(state);
+}
+
+function showTab(tab: WebviewState['tab']): void {
+    document.querySelectorAll<HTMLElement>('.tab').forEach(button => button.classList.toggle('active', button.dataset.tab === tab));
+    document.querySelectorAll<HTMLElement>('.tab-content').forEach(content => content.classList.toggle('active', content.id === `tab-${tab}`));
+    state.tab = tab;
+    vscode.setState(state);
+
+    // Statistics need the diffs of all revisions, so they are only computed when first shown
+    const statistics = document.getElementById('statistics');
+    if (tab === 'statistics' && statistics && !statistics.hasAttribute('data-loaded')) {
+        statistics.setAttribute('data-loaded', 'true');
+        vscode.postMessage({ command: 'loadStatistics' });
+    }
+}
+
+function setReviewMode(reviewMode: boolean): void {
+    document.body.classList.toggle('review-mode', reviewMode);
+    const button = document.getElementById('review-mode-button');
+    if (button) {
+        button.textContent = reviewMode ? 'Exit Review Mode' : 'Review Mode';
+    }
+    state.reviewMode = reviewMode;
+    vscode.setState(state);
+    if (reviewMode) {
+        vscode.postMessage({ command: 'startReview' });
+    }
+}
+
+function reviewCheckboxes(): HTMLInputElement[] {
+    return Array.from(document.querySelectorAll<HTMLInputElement>('input[data-review-file]'));
+}
+
+function updateReviewProgress(comments?: number): void {
+    const progress = document.getElementById('review-progress');
+    if (!progress) {
+        return;
+    }
+    const checkboxes = reviewCheckboxes();
+    if (comments !== undefined) {
+        progress.dataset.comments = String(comments);
+    }
+    const commentCount = Number(progress.dataset.comments ?? 0);
+    progress.textContent = `${checkboxes.filter(checkbox => checkbox.checked).length} of ${checkboxes.length} files reviewed`
+        + (commentCount > 0 ? `, ${commentCount} comment${commentCount === 1 ? '' : 's'}` : '');
+}
+
+function toggleDiff(revision: number, index: number): void {
+    const diffContainer = document.getElementById(`diff-${index}`);
+    const button = document.getElementById(`button-${index}`);
+    if (!diffContainer || !button) {
+        return;
+    }
+
+    const open = !diffContainer.classList.contains('active');
+    diffContainer.classList.toggle('active', open);
+    button.textContent = open ? 'Hide Diff' : 'Show Diff';
+    state.openDiffs = open ? [...state.openDiffs, index] : state.openDiffs.filter(openIndex => openIndex !== index);
+    vscode.setState(state);
+
+    // Only load the diff if it hasn't been loaded yet
+    const diffContent = diffContainer.querySelector('.diff');
+    if (open && diffContent && !diffContent.hasAttribute('data-loaded')) {
+        vscode.postMessage({ command: 'loadDiff', revision, index });
+    }
+}
+
+document.addEventListener('click', event => {
+    const target = (event.target as Element | null)?.closest<HTMLElement>('[data-command]');
+    if (!target) {
+        return;
+    }
+    event.preventDefault();
+    const revision = Number(target.dataset.revision);
+    const index = Number(target.dataset.index);
+
+    switch (target.dataset.command) {
+        case 'toggleDiff':
+            toggleDiff(revision, index);
+            break;
+        case 'toggleDiffMode':
+            setInlineDiffs(!state.inlineDiffs);
+            break;
+        case 'showTab':
+            showTab(target.dataset.tab === 'statistics' ? 'statistics' : 'changesets');
+            break;
+        case 'toggleReviewMode':
+            setReviewMode(!state.reviewMode);
+            break;
+        case 'exportReview':
+            vscode.postMessage({ command: 'exportReview' });
+            break;
+        case 'openInDiffEditor':
+            vscode.postMessage({ command: 'openInDiffEditor', revision });
+            break;
+        case 'openAllChanges':
+            vscode.postMessage({ command: 'openAllChanges', revision });
+            break;
+        case 'openAllTicketChanges':
+            vscode.postMessage({ command: 'openAllTicketChanges' });
+            break;
+        case 'showUnifiedDiff':
+            vscode.postMessage({ command: 'showUnifiedDiff' });
+            break;
+        case 'showNetTicketDiff':
+            vscode.postMessage({ command: 'showNetTicketDiff' });
+            break;
+        case 'mergeTicket':
+            vscode.postMessage({ command: 'mergeTicket' });
+            break;
+        case 'exportTicket':
+            vscode.postMessage({ command: 'exportTicket' });
+            break;
+        case 'openTicket':
+            vscode.postMessage({ command: 'openTicket', ticket: target.dataset.ticket ?? '' });
+            break;
+        case 'openInTracker':
+            vscode.postMessage({ command: 'openInTracker', ticket: target.dataset.ticket ?? '' });
+            break;
+    }
+});
+
+// Checkboxes toggle themselves, so they are handled on change rather than by the click handler
+document.addEventListener('change', event => {
+    const checkbox = event.target as HTMLInputElement | null;
+    if (!checkbox?.dataset.reviewFile) {
+        return;
+    }
+    vscode.postMessage({
+        command: 'setReviewed',
+        revision: Number(checkbox.dataset.revision),
+        path: checkbox.dataset.path ?? '',
+        reviewed: checkbox.checked
+    });
+    updateReviewProgress();
+});
+
+window.addEventListener('message', (event: MessageEvent<ExtensionMessage>) => {
+    const message = event.data;
+    switch (message.command) {
+        case 'diffLoaded': {
+            const diffContent = document.querySelector(`#diff-${message.index} .diff`);
+            if (diffContent) {
+                // Rendered by the extension, with all diff content escaped
+                diffContent.innerHTML = message.html;
+                diffContent.setAttribute('data-loaded', 'true');
+            }
+            break;
+        }
+        case 'reviewUpdated': {
+            const reviewed = new Set(message.reviewed);
+            for (const checkbox of reviewCheckboxes()) {
+                checkbox.checked = reviewed.has(checkbox.dataset.reviewFile ?? '');
+            }
+            updateReviewProgress(message.comments);
+            break;
+        }
+        case 'statisticsLoaded': {
+            const statistics = document.getElementById('statistics');
+            if (statistics) {
+                // Rendered by the extension, with all names and paths escaped
+                statistics.classList.remove('diff-note');
+                statistics.innerHTML = message.html;
+            }
+            break;
+        }
+        case 'ticketInfoLoaded': {
+            const ticketInfo = document.getElementById('ticket-info');
+            if (ticketInfo) {
+                // Rendered by the extension, with all ticket fields escaped
+                ticketInfo.innerHTML = message.html;
+            }
+            break;
+        }
+    }
+});
+
+// Restore the view as it was before the panel was hidden or VS Code reloaded
+setInlineDiffs(state.inlineDiffs);
+showTab(state.tab ?? 'changesets');
+if (state.reviewMode) {
+    setReviewMode(true);
+}
+const openDiffs = state.openDiffs;
+state.openDiffs = [];
+for (const index of openDiffs) {
+    const button = document.getElementById(`button-${index}`);
+    if (button) {
+        toggleDiff(Number(button.dataset.revision), index);
+    }
+}
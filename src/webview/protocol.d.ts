@@ -0,0 +1,47 @@
+/**
+ * Messages exchanged between the ticket changesets panel and its webview script.
+ * Shared by both sides, so a command or field renamed on one side fails to compile
+ * on the other.
+ */
+
+/** Messages posted by the webview script to the extension. */
+export type WebviewMessage =
+    | { command: 'loadDiff'; revision: number; index: number }
+    | { command: 'openInDiffEditor'; revision: number }
+    | { command: 'openAllChanges'; revision: number }
+    | { command: 'openAllTicketChanges' }
+    | { command: 'showUnifiedDiff' }
+    | { command: 'showNetTicketDiff' }
+    | { command: 'mergeTicket' }
+    | { command: 'exportTicket' }
+    | { command: 'openInTracker'; ticket: string }
+    | { command: 'openTicket'; ticket: string }
+    | { command: 'startReview' }
+    | { command: 'setReviewed'; revision: number; path: string; reviewed: boolean }
+    | { command: 'exportReview' }
+    | { command: 'loadStatistics' };
+
+/** Messages posted by the extension to the webview script. */
+export type ExtensionMessage =
+    | { command: 'diffLoaded'; index: number; html: string }
+    | { command: 'ticketInfoLoaded'; html: string }
+    | { command: 'statisticsLoaded'; html: string }
+    /** Keys of the reviewed files (`r1234:/trunk/a.c`) and the number of comments on this panel's files. */
+    | { command: 'reviewUpdated'; reviewed: string[]; comments: number };
+
+/**
+ * State the webview script keeps with `setState`. VS Code hands it back to the
+ * panel serializer after a reload, so it carries everything needed to restore the
+ * panel without searching again.
+ */
+export interface WebviewState {
+    /** The panel's data as embedded by the extension; opaque to the webview script. */
+    panel: unknown;
+    inlineDiffs: boolean;
+    /** Indexes of the revisions whose diffs are expanded. */
+    openDiffs: number[];
+    /** The tab shown: the changesets or the statistics dashboard. */
+    tab: 'changesets' | 'statistics';
+    /** Whether review mode is on, so the review is resumed after a reload. */
+    reviewMode: boolean;
+}
@@ -0,0 +1,276 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { VcsKind, VcsProvider } from './vcs';
+import { DEFAULT_PROCESS_LIMITS, runProcess } from './process';
+import { outputChannel } from './outputChannel';
+
+export interface WorkingCopy {
+    path: string;
+    kind: VcsKind;
+    /** Whether a Git clone was made with `git svn`, so its commits carry SVN revisions. */
+    gitSvn: boolean;
+}
+
+/** Working copy paths chosen for searches, kept per workspace. */
+const SELECTION_KEY = 'ticketChangesetsViewer.workingCopies';
+
+/** Nested working copies are found by their administrative folders, outside dependency folders. */
+const ADMINISTRATIVE_FOLDERS = ['.svn', '.git'];
+const DISCOVERY_EXCLUDE = 'node_modules';
+const MAX_NESTED_WORKING_COPIES = 100;
+
+/**
+ * Returns the SVN working copy or Git clone containing `folder`, identified by
+ * its root, or `undefined` if it is neither, running the configured `svn` and
+ * `git` executables.
+ */
+export async function detectWorkingCopy(folder: string, svnPath: string, gitPath: string): Promise<WorkingCopy | undefined> {
+    try {
+        // Subfolders of a working copy are answered with its root, so each is found once
+        const root = (await runProcess(svnPath, ['info', '--show-item', 'wc-root', '--non-interactive'], { cwd: folder, limits: DEFAULT_PROCESS_LIMITS })).trim();
+        return { path: path.normalize(root), kind: 'svn', gitSvn: false };
+    } catch {
+        // Not an SVN working copy, so it may be a Git clone
+    }
+
+    try {
+        const root = (await runProcess(gitPath, ['rev-parse', '--show-toplevel'], { cwd: folder, limits: DEFAULT_PROCESS_LIMITS })).trim();
+        // git svn records its remotes as svn-remote.* entries in the Git config
+        const gitSvn = await runProcess(gitPath, ['config', '--get-regexp', '^svn-remote\\.'], { cwd: root, limits: DEFAULT_PROCESS_LIMITS })
+            .then(() => true, () => false);
+        return { path: path.normalize(root), kind: 'git', gitSvn };
+    } catch (error) {
+        outputChannel.appendLine(`${folder} is not an SVN working copy or Git clone: ${error}`);
+        return undefined;
+    }
+}
+
+/**
+ * Returns `folder` and the folders below it that hold an SVN or Git administrative
+ * folder, up to `limit` of them. The folders are walked on disk rather than with
+ * `findFiles`, which honours `files.exclude` and so, by default, never sees `.svn`
+ * or `.git`. Dependency folders and symbolic links are not followed.
+ */
+async function findNestedWorkingCopies(folder: string, limit: number): Promise<string[]> {
+    const found: string[] = [];
+    const pending = [folder];
+    while (pending.length > 0 && found.length < limit) {
+        const current = pending.shift() ?? folder;
+        let entries: fs.Dirent[];
+        try {
+            entries = await fs.promises.readdir(current, { withFileTypes: true });
+        } catch {
+            continue; // Unreadable, or removed since
+        }
+        if (entries.some(entry => ADMINISTRATIVE_FOLDERS.includes(entry.name))) {
+            found.push(current);
+        }
+        pending.push(...entries
+            .filter(entry => entry.isDirectory() && entry.name !== DISCOVERY_EXCLUDE && !ADMINISTRATIVE_FOLDERS.includes(entry.name))
+            .map(entry => path.join(current, entry.name)));
+    }
+    return found;
+}
+
+/** Names a working copy by its path below the workspace folder containing it, e.g. `app/libs/core`. */
+export function workingCopyLabel(workingCopy: WorkingCopy): string {
+    const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(workingCopy.path));
+    if (!folder) {
+        return path.basename(workingCopy.path);
+    }
+    const relative = path.relative(folder.uri.fsPath, workingCopy.path).split(path.sep).join('/');
+    return relative ? `${folder.name}/${relative}` : folder.name;
+}
+
+/**
+ * Tracks the SVN working copies and Git clones of the workspace: the workspace
+ * folders and the working copies nested in them, plus folders picked outside
+ * the workspace. Searches run across the selected working copies, which are
+ * remembered per workspace; the first of them is the primary one, used where
+ * only one can serve (the sidebar, ticket links and the ticket index).
+ */
+export class WorkingCopyManager {
+    private discovered?: Promise<WorkingCopy[]>;
+    private readonly clients = new Map<string, VcsProvider>();
+
+    constructor(
+        private readonly memento: vscode.Memento,
+        private readonly createClient: (workingCopy: WorkingCopy) => VcsProvider
+    ) {}
+
+    /** Forgets the discovered working copies, e.g. when workspace folders change. */
+    reset(): void {
+        this.discovered = undefined;
+        this.clients.clear();
+    }
+
+    /** Drops the clients, so they are created again with the current settings. */
+    resetClients(): void {
+        this.clients.clear();
+    }
+
+    /** Returns all known working copies, sorted by path. Discovery runs once until `reset`. */
+    list(): Promise<WorkingCopy[]> {
+        if (!this.discovered) {
+            this.discovered = this.discover();
+            this.discovered.catch(() => {
+                this.discovered = undefined;
+            });
+        }
+        return this.discovered;
+    }
+
+    /** Returns the client of `workingCopy`, reused so its caches stay loaded between commands. */
+    client(workingCopy: WorkingCopy): VcsProvider {
+        let client = this.clients.get(workingCopy.path);
+        if (!client) {
+            client = this.createClient(workingCopy);
+            this.clients.set(workingCopy.path, client);
+        }
+        return client;
+    }
+
+    /** Returns the client of the known working copy at `workingCopyPath` (a client's `cwd`). */
+    async clientAt(workingCopyPath: string): Promise<VcsProvider | undefined> {
+        const workingCopy = (await this.list()).find(candidate => candidate.path === workingCopyPath);
+        return workingCopy && this.client(workingCopy);
+    }
+
+    /** Returns the client of the innermost working copy containing the local file or folder at `localPath`. */
+    async clientFor(localPath: string): Promise<VcsProvider | undefined> {
+        const containing = (await this.list())
+            .filter(workingCopy => {
+                const relative = path.relative(workingCopy.path, localPath);
+                return !relative.startsWith('..') && !path.isAbsolute(relative);
+            })
+            .sort((a, b) => b.path.length - a.path.length);
+        return containing.length > 0 ? this.client(containing[0]) : undefined;
+    }
+
+    /**
+     * Returns the working copies searches run across: the remembered selection, the
+     * only working copy, or (if `interactive`) the ones picked now. Without any in
+     * the workspace, a folder is asked for once and remembered. Unless `interactive`,
+     * all working copies are used if none were chosen yet.
+     */
+    async selected(interactive = true): Promise<WorkingCopy[]> {
+        const workingCopies = await this.list();
+        const remembered = this.memento.get<string[]>(SELECTION_KEY) ?? [];
+        const selection = workingCopies.filter(workingCopy => remembered.includes(workingCopy.path));
+        if (selection.length > 0 || workingCopies.length === 1) {
+            return selection.length > 0 ? selection : workingCopies;
+        }
+        if (!interactive) {
+            return workingCopies;
+        }
+        if (workingCopies.length === 0) {
+            const added = await this.pickFolder();
+            if (!added) {
+                return [];
+            }
+            await this.remember([added]);
+            return [added];
+        }
+        return await this.select() ?? [];
+    }
+
+    /**
+     * Asks which working copies to search, with the current selection checked, and
+     * remembers the choice. Returns `undefined` if cancelled or nothing was picked.
+     */
+    async select(): Promise<WorkingCopy[] | undefined> {
+        const workingCopies = await this.list();
+        const remembered = this.memento.get<string[]>(SELECTION_KEY) ?? [];
+        const items = workingCopies.map(workingCopy => ({
+            label: workingCopyLabel(workingCopy),
+            description: workingCopy.kind === 'svn' ? 'SVN' : workingCopy.gitSvn ? 'git svn' : 'Git',
+            detail: workingCopy.path,
+            picked: remembered.length === 0 || remembered.includes(workingCopy.path),
+            workingCopy
+        }));
+        const addFolder = { label: '$(folder-opened) Add a Folder Outside the Workspace...', picked: false, workingCopy: undefined };
+        const picked = await vscode.window.showQuickPick([...items, addFolder], {
+            canPickMany: true,
+            placeHolder: 'Select the working copies to search for tickets'
+        });
+        if (!picked) {
+            return undefined;
+        }
+
+        const selection = picked.map(item => item.workingCopy).filter((workingCopy): workingCopy is WorkingCopy => workingCopy !== undefined);
+        if (picked.includes(addFolder)) {
+            const added = await this.pickFolder();
+            if (added) {
+                selection.push(added);
+            }
+        }
+        if (selection.length === 0) {
+            return undefined;
+        }
+        await this.remember(selection);
+        outputChannel.appendLine(`Searching working copies: ${selection.map(workingCopy => workingCopy.path).join(', ')}`);
+        return selection;
+    }
+
+    /** Asks for a working copy folder outside the workspace and adds it to the known working copies. */
+    private async pickFolder(): Promise<WorkingCopy | undefined> {
+        const result = await vscode.window.showOpenDialog({
+            canSelectFiles: false,
+            canSelectFolders: true,
+            canSelectMany: false,
+            openLabel: 'Select Working Copy',
+            title: 'Select SVN Working Copy or Git Clone Directory'
+        });
+        if (!result || result.length === 0) {
+            return undefined;
+        }
+
+        const { svnPath, gitPath } = executables();
+        const workingCopy = await detectWorkingCopy(result[0].fsPath, svnPath, gitPath);
+        if (!workingCopy) {
+            vscode.window.showErrorMessage('Selected folder is not an SVN working copy or Git clone');
+            return undefined;
+        }
+        const workingCopies = await this.list();
+        if (!workingCopies.some(known => known.path === workingCopy.path)) {
+            this.discovered = Promise.resolve([...workingCopies, workingCopy].sort((a, b) => a.path.localeCompare(b.path)));
+        }
+        return workingCopy;
+    }
+
+    private async remember(selection: WorkingCopy[]): Promise<void> {
+        await this.memento.update(SELECTION_KEY, Array.from(new Set(selection.map(workingCopy => workingCopy.path))));
+    }
+
+    /**
+     * Finds the working copies of every workspace folder, the ones nested in them,
+     * and remembered ones outside the workspace that still exist.
+     */
+    private async discover(): Promise<WorkingCopy[]> {
+        const { svnPath, gitPath } = executables();
+        const folders = (vscode.workspace.workspaceFolders ?? []).map(folder => folder.uri.fsPath);
+        const nested = await Promise.all(folders.map(folder => findNestedWorkingCopies(folder, MAX_NESTED_WORKING_COPIES)));
+        const candidates = [
+            ...folders,
+            ...nested.flat(),
+            ...this.memento.get<string[]>(SELECTION_KEY) ?? []
+        ];
+
+        const workingCopies = new Map<string, WorkingCopy>();
+        for (const candidate of new Set(candidates.map(folder => path.normalize(folder)))) {
+            const workingCopy = await detectWorkingCopy(candidate, svnPath, gitPath);
+            if (workingCopy && !workingCopies.has(workingCopy.path)) {
+                workingCopies.set(workingCopy.path, workingCopy);
+            }
+        }
+        const found = Array.from(workingCopies.values()).sort((a, b) => a.path.localeCompare(b.path));
+        outputChannel.appendLine(`Found ${found.length} working copies: ${found.map(workingCopy => workingCopy.path).join(', ')}`);
+        return found;
+    }
+}
+
+function executables(): { svnPath: string; gitPath: string } {
+    const config = vscode.workspace.getConfiguration('ticketChangesetsViewer');
+    return { svnPath: config.get<string>('svnPath') || 'svn', gitPath: config.get<string>('gitPath') || 'git' };
+}
@@ -0,0 +1,143 @@
+/**
+ * Minimal XML reader for the `--xml` output of the SVN command line client.
+ *
+ * SVN only emits a small, well-formed subset of XML (elements, attributes,
+ * character data and the predefined entities), so we parse that subset here
+ * instead of pulling in a runtime dependency.
+ */
+
+export interface XmlElement {
+    name: string;
+    attributes: Record<string, string>;
+    children: XmlElement[];
+    text: string;
+}
+
+const ENTITIES: Record<string, string> = {
+    lt: '<',
+    gt: '>',
+    amp: '&',
+    quot: '"',
+    apos: '\''
+};
+
+export function decodeEntities(value: string): string {
+    return value.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (match, entity: string) => {
+        if (entity.startsWith('#x')) {
+            return String.fromCodePoint(parseInt(entity.substring(2), 16));
+        }
+        if (entity.startsWith('#')) {
+            return String.fromCodePoint(parseInt(entity.substring(1), 10));
+        }
+        return ENTITIES[entity] ?? match;
+    });
+}
+
+export function parseXml(source: string): XmlElement {
+    const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+    const stack: XmlElement[] = [root];
+    let position = 0;
+
+    while (position < source.length) {
+        const tagStart = source.indexOf('<', position);
+        const textEnd = tagStart === -1 ? source.length : tagStart;
+        if (textEnd > position) {
+            stack[stack.length - 1].text += decodeEntities(source.substring(position, textEnd));
+        }
+        if (tagStart === -1) {
+            break;
+        }
+
+        if (source.startsWith('<?', tagStart)) {
+            position = findEnd(source, '?>', tagStart);
+            continue;
+        }
+        if (source.startsWith('<!--', tagStart)) {
+            position = findEnd(source, '-->', tagStart);
+            continue;
+        }
+        if (source.startsWith('<![CDATA[', tagStart)) {
+            const end = findEnd(source, ']]>', tagStart);
+            stack[stack.length - 1].text += source.substring(tagStart + 9, end - 3);
+            position = end;
+            continue;
+        }
+        if (source.startsWith('<!', tagStart)) {
+            position = findEnd(source, '>', tagStart);
+            continue;
+        }
+
+        const tagEnd = findEnd(source, '>', tagStart);
+        const tag = source.substring(tagStart + 1, tagEnd - 1);
+        position = tagEnd;
+
+        if (tag.startsWith('/')) {
+            const name = tag.substring(1).trim();
+            const current = stack.pop();
+            if (!current || current.name !== name || stack.length === 0) {
+                throw new Error(`Malformed XML: unexpected closing tag </${name}>`);
+            }
+            continue;
+        }
+
+        const selfClosing = tag.endsWith('/');
+        const body = selfClosing ? tag.substring(0, tag.length - 1) : tag;
+        const nameMatch = body.match(/^\s*([^\s/>]+)/);
+        if (!nameMatch) {
+            throw new Error(`Malformed XML: invalid tag <${tag}>`);
+        }
+
+        const element: XmlElement = {
+            name: nameMatch[1],
+            attributes: parseAttributes(body.substring(nameMatch[0].length)),
+            children: [],
+            text: ''
+        };
+        stack[stack.length - 1].children.push(element);
+        if (!selfClosing) {
+            stack.push(element);
+        }
+    }
+
+    if (stack.length !== 1) {
+        throw new Error(`Malformed XML: unclosed element <${stack[stack.length - 1].name}>`);
+    }
+    return root;
+}
+
+function findEnd(source: string, terminator: string, from: number): number {
+    const index = source.indexOf(terminator, from);
+    if (index === -1) {
+        throw new Error(`Malformed XML: missing '${terminator}'`);
+    }
+    return index + terminator.length;
+}
+
+function parseAttributes(source: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    const attributePattern = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+    let match: RegExpExecArray | null;
+    while ((match = attributePattern.exec(source)) !== null) {
+        attributes[match[1]] = decodeEntities(match[3] ?? match[4] ?? '');
+    }
+    return attributes;
+}
+
+/** Returns the first direct child with the given name. */
+export function child(element: XmlElement, name: string): XmlElement | undefined {
+    return element.children.find(c => c.name === name);
+}
+
+/** Returns all direct children with the given name. */
+export function children(element: XmlElement, name: string): XmlElement[] {
+    return element.children.filter(c => c.name === name);
+}
+
+/** Follows a path of child element names and returns the text of the last one. */
+export function childText(element: XmlElement, ...names: string[]): string | undefined {
+    let current: XmlElement | undefined = element;
+    for (const name of names) {
+        current = current ? child(current, name) : undefined;
+    }
+    return current?.text;
+}